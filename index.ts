@@ -1,21 +1,310 @@
-import { MCPServer, text, widget, error } from "mcp-use/server";
+import { createHash, randomUUID } from "node:crypto";
+import {
+  MCPServer,
+  binary,
+  text,
+  widget,
+  error,
+  object,
+} from "mcp-use/server";
 import { z } from "zod";
-
-const OPENDENTAL_API_URL =
-  process.env.OPENDENTAL_API_URL || "http://localhost:8000";
+import { callBackend } from "./src/backend.js";
+import {
+  JobManager,
+  snapshot,
+  type Job,
+  type JobHooks,
+  type JobOutcome,
+} from "./src/jobs.js";
+import { ResultCache } from "./src/cache.js";
+import { ConfirmationStore, type PendingAction } from "./src/confirmations.js";
+import { parseBackend } from "./src/contracts.js";
+import { oneOf } from "./src/schemas/common.js";
+import {
+  patientListSchema,
+  patientSchema,
+  type Patient,
+} from "./src/schemas/patients.js";
+import {
+  candidateLabel,
+  findDuplicates,
+  rankCandidates,
+  summarizeCandidates,
+} from "./src/patient-match.js";
+import {
+  addDays,
+  daysBetween,
+  normalizeDate,
+  normalizeTime,
+  today,
+} from "./src/dates.js";
+import {
+  patientChartSchema,
+  type PatientChart,
+} from "./src/schemas/chart.js";
+import {
+  patientInfoSchema,
+  patientReportSchema,
+} from "./src/schemas/report.js";
+import {
+  scheduleSchema,
+  scheduledAppointmentSchema,
+} from "./src/schemas/schedule.js";
+import { treatmentPlanSchema } from "./src/schemas/treatment.js";
+import { phasePlan, summarizePhases } from "./src/treatment.js";
+import { recallListSchema } from "./src/schemas/recall.js";
+import { unscheduledTreatmentSchema } from "./src/schemas/unscheduled.js";
+import { AGING_BUCKETS, arAgingSchema } from "./src/schemas/aging.js";
+import { CLAIM_STATUSES, claimListSchema } from "./src/schemas/claims.js";
+import { coverageListSchema } from "./src/schemas/insurance.js";
+import { reviewCoverage } from "./src/insurance.js";
+import { perioChartSchema } from "./src/schemas/perio.js";
+import { perioChanges, perioStats, severeTeeth } from "./src/perio.js";
+import { savedNoteSchema } from "./src/schemas/notes.js";
+import { postedEntrySchema } from "./src/schemas/ledger.js";
+import {
+  ADJUSTMENT_TYPES,
+  PAYMENT_TYPES,
+  currentBalances,
+  matchingEntries,
+  projectBalances,
+  resolveSplits,
+  type SplitRequest,
+} from "./src/ledger.js";
+import { SOAP_HEADINGS, draftNote, noteText } from "./src/notes.js";
+import {
+  buildStatement,
+  renderStatement,
+  statementPeriod,
+  type Letterhead,
+} from "./src/statement.js";
+import {
+  GENDERS,
+  PREFERRED_CONTACT_METHODS,
+  SUBSCRIBER_RELATIONSHIPS,
+  infoChanges,
+  missingForNewPatient,
+  readInfoUpdates,
+  readNewPatient,
+} from "./src/patient-info.js";
+import {
+  NUMBERING_SYSTEMS,
+  archLayout,
+  parseTooth,
+  parseToothInput,
+  toothRef,
+  type NumberingSystem,
+} from "./src/teeth.js";
 
 const TOOL_TIMEOUTS = {
   "get-patients": 30 * 60_000,
   "get-patient-chart": 30 * 60_000,
   "get-reports": 30 * 60_000,
+  "find-patient": 10 * 60_000,
+  "get-schedule": 15 * 60_000,
+  "book-appointment": 15 * 60_000,
+  "reschedule-appointment": 15 * 60_000,
+  "present-treatment-plan": 20 * 60_000,
+  "accept-treatment": 15 * 60_000,
+  "get-recall-list": 20 * 60_000,
+  "mark-recall-contacted": 10 * 60_000,
+  "get-unscheduled-treatment": 30 * 60_000,
+  "get-ar-aging": 20 * 60_000,
+  "get-claims": 20 * 60_000,
+  "verify-insurance": 30 * 60_000,
+  "get-perio-chart": 30 * 60_000,
+  "add-clinical-note": 15 * 60_000,
+  "update-patient-info": 15 * 60_000,
+  "create-patient": 15 * 60_000,
+  "post-payment": 15 * 60_000,
+  "add-adjustment": 15 * 60_000,
+  "generate-statement": 30 * 60_000,
+} as const;
+
+// How long a result is served from the cache before OpenDental is read again
+const CACHE_TTLS = {
+  "get-patients": 10 * 60_000,
+  "get-patient-chart": 30 * 60_000,
+  "get-reports": 15 * 60_000,
+  "get-schedule": 5 * 60_000,
+  "present-treatment-plan": 15 * 60_000,
+  "get-recall-list": 10 * 60_000,
+  "get-unscheduled-treatment": 30 * 60_000,
+  "get-ar-aging": 30 * 60_000,
+  "get-claims": 15 * 60_000,
+  "verify-insurance": 30 * 60_000,
+  "get-perio-chart": 30 * 60_000,
 } as const;
 
+// How long results of finished jobs stay available to get-job-result
+const JOB_RETENTION_MINUTES = process.env.JOB_RETENTION_MINUTES
+  ? parseInt(process.env.JOB_RETENTION_MINUTES)
+  : 60;
+
+// Tooth numbering shown in widgets and tool text, and assumed for bare
+// numbers typed into tool inputs: universal, fdi or palmer
+const TOOTH_NUMBERING: NumberingSystem = NUMBERING_SYSTEMS.find(
+  (system) => system === process.env.TOOTH_NUMBERING?.toLowerCase()
+) ?? "universal";
+
+// Headings of the practice's progress note template, comma-separated;
+// SOAP when unset
+const NOTE_TEMPLATE = process.env.NOTE_TEMPLATE?.split(",")
+  .map((heading) => heading.trim())
+  .filter(Boolean) ?? [];
+const NOTE_HEADINGS = NOTE_TEMPLATE.length ? NOTE_TEMPLATE : SOAP_HEADINGS;
+
+// Letterhead printed on patient statements. PRACTICE_ADDRESS takes its
+// lines separated by "|".
+const LETTERHEAD: Letterhead = {
+  name: process.env.PRACTICE_NAME || "Dental Practice",
+  address: (process.env.PRACTICE_ADDRESS ?? "")
+    .split("|")
+    .map((line) => line.trim())
+    .filter(Boolean),
+  phone: process.env.PRACTICE_PHONE || undefined,
+  email: process.env.PRACTICE_EMAIL || undefined,
+  website: process.env.PRACTICE_WEBSITE || undefined,
+};
+
+// How long a prepared write waits for the user to confirm it
+const CONFIRMATION_MINUTES = process.env.CONFIRMATION_MINUTES
+  ? parseInt(process.env.CONFIRMATION_MINUTES)
+  : 15;
+
+const jobs = new JobManager(JOB_RETENTION_MINUTES * 60_000);
+const cache = new ResultCache();
+const confirmations = new ConfirmationStore(CONFIRMATION_MINUTES * 60_000);
+
+const forceRefresh = z
+  .boolean()
+  .optional()
+  .describe("Skip cached results and read fresh data from OpenDental");
+
+// Tools that read one patient take either their name or their OpenDental
+// patient id; the id wins when both are given
+const patientRef = {
+  patient_name: z.string().optional().describe("Patient name to search for"),
+  patient_id: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("OpenDental patient id, e.g. from find-patient"),
+};
+
+interface PatientRef {
+  patient_name?: string;
+  patient_id?: number;
+}
+
+const MISSING_PATIENT =
+  "Provide patient_name or patient_id. Use find-patient to look up a patient's id.";
+
+function patientParams({
+  patient_name,
+  patient_id,
+}: PatientRef): Record<string, string> {
+  return patient_id != null
+    ? { patient_id: String(patient_id) }
+    : { patient_name: patient_name ?? "" };
+}
+
+function patientLabel({ patient_name, patient_id }: PatientRef) {
+  return patient_id != null && !patient_name
+    ? `patient #${patient_id}`
+    : (patient_name ?? "");
+}
+
+// Backend query string from tool args, leaving out blanks
+function toParams(args: Record<string, string | number | undefined>) {
+  const params: Record<string, string> = {};
+  for (const [k, v] of Object.entries(args)) {
+    if (v != null && v !== "") params[k] = String(v);
+  }
+  return params;
+}
+
+function cacheKey(
+  tool: keyof typeof CACHE_TTLS,
+  params: Record<string, string>
+) {
+  const query = Object.entries(params)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v.trim().replace(/\s+/g, " ").toLowerCase()}`)
+    .join("&");
+  return `${tool}?${query}`;
+}
+
+// Answers from the cache unless the caller asked for fresh data
+function cachedResult(key: string, refresh?: boolean) {
+  if (refresh) {
+    cache.delete(key);
+    return undefined;
+  }
+  const hit = cache.get<JobOutcome>(key);
+  if (!hit) return undefined;
+  const asOf = new Date(hit.storedAt).toISOString();
+  return widget({
+    props: hit.value.props,
+    output: text(
+      `${hit.value.summary} (Cached result from ${asOf}; set force_refresh to read fresh data.)`
+    ),
+  });
+}
+
+// Stamps a job's outcome with the time it was read and caches it
+function remember(
+  tool: keyof typeof CACHE_TTLS,
+  key: string,
+  outcome: JobOutcome
+): JobOutcome {
+  const stamped = {
+    ...outcome,
+    props: { ...outcome.props, asOf: new Date().toISOString() },
+  };
+  cache.set(key, stamped, CACHE_TTLS[tool]);
+  return stamped;
+}
+
+// Cached reads that a write to OpenDental may have made stale
+function forget(...tools: (keyof typeof CACHE_TTLS)[]) {
+  for (const tool of tools) cache.invalidate(`${tool}?`);
+}
+
+// What a confirmation widget needs to commit or discard a prepared write.
+// It travels in the result's metadata, which only the widget sees: with the
+// token in props the model could confirm the write itself.
+function actionMetadata(action: PendingAction) {
+  return {
+    action: {
+      token: action.token,
+      tool: action.tool,
+      description: action.description,
+      expiresAt: new Date(action.expiresAt).toISOString(),
+    },
+  };
+}
+
+function awaitingConfirmation(action: PendingAction) {
+  return `Prepared: ${action.description}. Nothing has been changed in OpenDental yet. The user must review it and press Confirm in the widget within ${CONFIRMATION_MINUTES} minutes; do not treat it as done until they have.`;
+}
+
+function jobStarted(job: Job, what: string) {
+  const queued = job.queuedAhead
+    ? ` It is waiting behind ${job.queuedAhead} other request(s) for the OpenDental session.`
+    : "";
+  return `Started job ${job.id} to ${what}.${queued} This runs through the OpenDental UI and can take several minutes. Use get-job-status to check on it (with wait_seconds to receive each step as a progress notification) and get-job-result once it has finished.`;
+}
+
+const BASE_URL = process.env.MCP_URL || "http://localhost:3000";
+
 const server = new MCPServer({
   name: "opendental",
   title: "OpenDental",
   version: "1.0.0",
   description: "OpenDental patient management via CUA",
-  baseUrl: process.env.MCP_URL || "http://localhost:3000",
+  baseUrl: BASE_URL,
   favicon: "favicon.ico",
   icons: [
     {
@@ -26,41 +315,48 @@ const server = new MCPServer({
   ],
 });
 
-// Shared helper to call the FastAPI backend with per-tool timeout
-async function callBackend(
-  path: string,
-  method: "GET" | "POST" = "POST",
-  params?: Record<string, string>,
-  timeoutMs: number = 5 * 60_000
-) {
-  const url = new URL(path, OPENDENTAL_API_URL);
-  if (params) {
-    for (const [k, v] of Object.entries(params)) {
-      url.searchParams.set(k, v);
-    }
-  }
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    const res = await fetch(url.toString(), {
-      method,
-      signal: controller.signal,
-    });
-    if (!res.ok) {
-      throw new Error(`Backend returned ${res.status}: ${res.statusText}`);
-    }
-    return await res.json();
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
 // ── Tool 1: get-patients ──────────────────────────────────────────────
+const PATIENT_SORTS = [
+  "last_name",
+  "first_name",
+  "age",
+  "city",
+  "status",
+] as const;
+
 server.tool(
   {
     name: "get-patients",
-    description: "Retrieve the full list of patients from OpenDental",
-    schema: z.object({}),
+    description:
+      "Search the OpenDental patient list. Filters and paging run in OpenDental, so narrow the search where possible; the widget loads further pages on demand.",
+    schema: z.object({
+      name_prefix: z
+        .string()
+        .optional()
+        .describe("Start of the last or first name"),
+      status: z
+        .string()
+        .optional()
+        .describe("Patient status, e.g. Patient, Inactive, Archived"),
+      city: z.string().optional(),
+      min_age: z.number().int().min(0).optional(),
+      max_age: z.number().int().min(0).optional(),
+      provider: z
+        .string()
+        .optional()
+        .describe("Primary provider abbreviation, e.g. DOC1"),
+      sort: oneOf(PATIENT_SORTS).optional().describe("Defaults to last_name"),
+      sort_dir: oneOf(["asc", "desc"]).optional(),
+      page: z.number().int().min(1).optional().describe("1-based page number"),
+      page_size: z
+        .number()
+        .int()
+        .min(1)
+        .max(200)
+        .optional()
+        .describe("Patients per page, default 25"),
+      force_refresh: forceRefresh,
+    }),
     annotations: { readOnlyHint: true },
     widget: {
       name: "patient-list",
@@ -68,38 +364,117 @@ server.tool(
       invoked: "Patient list loaded",
     },
   },
-  async () => {
-    try {
-      const json = await callBackend(
-        "/api/patients",
-        "POST",
-        undefined,
-        TOOL_TIMEOUTS["get-patients"]
+  async ({ force_refresh, page = 1, page_size = 25, ...filters }) => {
+    if (
+      filters.min_age != null &&
+      filters.max_age != null &&
+      filters.min_age > filters.max_age
+    ) {
+      return error("min_age must not be greater than max_age.");
+    }
+    const params = toParams({ ...filters, page, page_size });
+    const key = cacheKey("get-patients", params);
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("get-patients", async (hooks) => {
+      const json = await callBackend("/api/patients", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["get-patients"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(
+        patientListSchema,
+        json.data ?? json,
+        "patient list"
       );
-      const data = json.data ?? json;
       const patients = data.patients ?? [];
       const totalCount = data.total_count ?? patients.length;
+      const shown = Math.min(
+        totalCount,
+        (page - 1) * page_size + patients.length
+      );
+      const more =
+        shown < totalCount
+          ? ` Showing ${shown}; request page ${page + 1} for more.`
+          : "";
 
-      return widget({
-        props: { patients, totalCount },
-        output: text(
-          `Found ${totalCount} patient(s). Use the table to browse or click a patient for details.`
-        ),
+      return remember("get-patients", key, {
+        props: { patients, totalCount, page, pageSize: page_size, filters },
+        summary: `Found ${totalCount} patient(s), page ${page} has ${patients.length}.${more} Use the table to browse or click a patient for details.`,
       });
-    } catch (e: any) {
-      return error(`Failed to fetch patients: ${e.message}`);
-    }
+    });
+
+    return widget({
+      props: { job: snapshot(job), page, pageSize: page_size, filters },
+      output: text(jobStarted(job, "fetch the patient list")),
+    });
   }
 );
 
+// Tooth numbers in tool text follow TOOTH_NUMBERING like the widgets do
+const toothLabel = (id: string | number) => toothRef(id, TOOTH_NUMBERING);
+
+const numberingNote =
+  TOOTH_NUMBERING === "universal"
+    ? ""
+    : ` Tooth numbers are ${TOOTH_NUMBERING === "fdi" ? "FDI" : "Palmer"}.`;
+
+function describeTooth(chart: PatientChart, id: string) {
+  const conditions = (chart.tooth_chart?.teeth_with_conditions ?? [])
+    .filter((t) => parseTooth(t.tooth_number)?.id === id)
+    .map((t) =>
+      [t.condition, t.surface, t.notes && `(${t.notes})`]
+        .filter(Boolean)
+        .join(" ")
+    );
+  const procedures = (chart.procedures ?? [])
+    .filter((p) => parseTooth(p.tooth)?.id === id)
+    .map((p) =>
+      [p.date, p.ada_code, p.surface, p.description, p.status && `(${p.status})`]
+        .filter(Boolean)
+        .join(" ")
+    );
+  if (!conditions.length && !procedures.length) {
+    return `Tooth ${toothLabel(id)}: no charted conditions or procedures.`;
+  }
+  return (
+    `Tooth ${toothLabel(id)}: ${conditions.join("; ") || "no charted condition"}.` +
+    (procedures.length ? ` Procedures: ${procedures.join("; ")}.` : "")
+  );
+}
+
+async function loadChart(patient: PatientRef, hooks: JobHooks) {
+  const json = await callBackend("/api/patient_chart", {
+    params: patientParams(patient),
+    patientLookup: true,
+    timeoutMs: TOOL_TIMEOUTS["get-patient-chart"],
+    ...hooks,
+    idempotent: true,
+  });
+  const data = json.data ?? json;
+  if (!data.patient_chart) {
+    throw new Error("No chart data returned for this patient.");
+  }
+  return parseBackend(patientChartSchema, data.patient_chart, "patient_chart");
+}
+
 // ── Tool 2: get-patient-chart ─────────────────────────────────────────
 server.tool(
   {
     name: "get-patient-chart",
     description:
-      "Get the dental chart for a patient including tooth conditions, procedures, and clinical notes",
+      "Get the dental chart for a patient including tooth conditions, procedures, and clinical notes. Identify the patient by patient_id when known. Pass tooth to focus on one tooth. Runs as a background job: this call returns a job id straight away, and progress is reported through get-job-status.",
     schema: z.object({
-      patient_name: z.string().describe("Patient name to search for"),
+      ...patientRef,
+      tooth: z
+        .string()
+        .optional()
+        .describe(
+          "A tooth to focus on, in Universal (3, A), FDI (16, 55) or Palmer (UR6) notation. Bare numbers are read in the practice's numbering system; prefix with FDI or # (Universal) to be explicit."
+        ),
+      force_refresh: forceRefresh,
     }),
     annotations: { readOnlyHint: true },
     widget: {
@@ -108,39 +483,90 @@ server.tool(
       invoked: "Dental chart ready",
     },
   },
-  async ({ patient_name }) => {
-    try {
-      const json = await callBackend(
-        "/api/patient_chart",
-        "POST",
-        { patient_name },
-        TOOL_TIMEOUTS["get-patient-chart"]
+  async ({ force_refresh, tooth, ...patient }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const focus = tooth ? parseToothInput(tooth, TOOTH_NUMBERING) : null;
+    if (tooth && !focus) {
+      return error(
+        `"${tooth}" is not a tooth. Use Universal (1–32, A–T), FDI (11–48, 51–85) or Palmer (UR1–LR8) notation.`
       );
-      const data = json.data ?? json;
-      const chart = data.patient_chart;
-      if (!chart) return error("No chart data returned for this patient.");
+    }
+    const key = cacheKey("get-patient-chart", {
+      ...patientParams(patient),
+      ...(focus && { tooth: focus.id }),
+    });
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+    const label = patientLabel(patient);
 
-      return widget({
-        props: { chart, patientName: patient_name },
-        output: text(
-          `Dental chart for ${patient_name}: ${chart.summary?.total_teeth_with_work ?? 0} teeth with work, ${chart.summary?.missing_teeth_count ?? 0} missing.`
-        ),
+    const job = jobs.start("get-patient-chart", async (hooks) => {
+      const chart = await loadChart(patient, hooks);
+      const patientName = chart.patient_info?.name ?? label;
+      const teeth = (chart.tooth_chart?.teeth_with_conditions ?? []).map((t) =>
+        parseTooth(t.tooth_number)
+      );
+      const layout = archLayout(teeth);
+      const extra = teeth
+        .filter((t) => t?.supernumerary)
+        .map((t) => toothLabel(t!.id));
+
+      return remember("get-patient-chart", key, {
+        props: {
+          chart,
+          patientName,
+          patientId: patient.patient_id,
+          numbering: TOOTH_NUMBERING,
+          selectedTooth: focus?.id,
+        },
+        summary:
+          `Dental chart for ${patientName} (${layout} dentition): ${chart.summary?.total_teeth_with_work ?? 0} teeth with work, ${chart.summary?.missing_teeth_count ?? 0} missing.` +
+          (extra.length ? ` Supernumerary teeth: ${extra.join(", ")}.` : "") +
+          (focus ? ` ${describeTooth(chart, focus.id)}` : "") +
+          numberingNote,
       });
-    } catch (e: any) {
-      return error(`Failed to fetch chart: ${e.message}`);
-    }
+    });
+
+    return widget({
+      props: {
+        job: snapshot(job),
+        patientName: label,
+        patientId: patient.patient_id,
+        numbering: TOOTH_NUMBERING,
+        selectedTooth: focus?.id,
+      },
+      output: text(jobStarted(job, `load the dental chart for ${label}`)),
+    });
   }
 );
 
+async function loadReport(patient: PatientRef, hooks: JobHooks) {
+  const json = await callBackend("/api/reports", {
+    params: patientParams(patient),
+    patientLookup: true,
+    timeoutMs: TOOL_TIMEOUTS["get-reports"],
+    ...hooks,
+    idempotent: true,
+  });
+  const data = json.data ?? json;
+  if (!data.patient_report) {
+    throw new Error("No report data returned for this patient.");
+  }
+  return parseBackend(
+    patientReportSchema,
+    data.patient_report,
+    "patient_report"
+  );
+}
+
 // ── Tool 3: get-reports ───────────────────────────────────────────────
 server.tool(
   {
     name: "get-reports",
     description:
-      "Get a comprehensive report for a patient including demographics, insurance, account, treatment plans, and appointments",
-    schema: z.object({
-      patient_name: z.string().describe("Patient name to search for"),
-    }),
+      "Get a comprehensive report for a patient including demographics, insurance, account, treatment plans, and appointments. Identify the patient by patient_id when known. Runs as a background job: this call returns a job id straight away, and progress is reported through get-job-status.",
+    schema: z.object({ ...patientRef, force_refresh: forceRefresh }),
     annotations: { readOnlyHint: true },
     widget: {
       name: "patient-report",
@@ -148,30 +574,2229 @@ server.tool(
       invoked: "Patient report ready",
     },
   },
-  async ({ patient_name }) => {
-    try {
-      const json = await callBackend(
-        "/api/reports",
-        "POST",
-        { patient_name },
-        TOOL_TIMEOUTS["get-reports"]
+  async ({ force_refresh, ...patient }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const key = cacheKey("get-reports", patientParams(patient));
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+    const label = patientLabel(patient);
+
+    const job = jobs.start("get-reports", async (hooks) => {
+      const report = await loadReport(patient, hooks);
+      const info = report.patient_info;
+      const patientName =
+        [info?.first_name, info?.last_name].filter(Boolean).join(" ") || label;
+
+      return remember("get-reports", key, {
+        props: {
+          report,
+          patientName,
+          patientId: patient.patient_id,
+          numbering: TOOTH_NUMBERING,
+        },
+        summary: `Report for ${patientName}: balance $${report.summary?.total_outstanding_balance ?? 0}, ${report.summary?.pending_insurance_claims ?? 0} pending claims.`,
+      });
+    });
+
+    return widget({
+      props: {
+        job: snapshot(job),
+        patientName: label,
+        patientId: patient.patient_id,
+        numbering: TOOTH_NUMBERING,
+      },
+      output: text(jobStarted(job, `generate the report for ${label}`)),
+    });
+  }
+);
+
+// ── Tool 4: get-job-status ────────────────────────────────────────────
+server.tool(
+  {
+    name: "get-job-status",
+    description:
+      "Check the status and current step of a long-running job started by another tool. Set wait_seconds to wait for it to finish while receiving progress notifications; this is the only call that sends them, since the tool that started the job returns at once.",
+    schema: z.object({
+      job_id: z.string().describe("Job id returned when the job was started"),
+      wait_seconds: z
+        .number()
+        .min(0)
+        .max(120)
+        .optional()
+        .describe("Wait up to this many seconds for the job to finish"),
+    }),
+    annotations: { readOnlyHint: true },
+  },
+  async ({ job_id, wait_seconds }, ctx) => {
+    const job = jobs.get(job_id);
+    if (!job) return error(`Job ${job_id} not found or its result has expired.`);
+
+    if (wait_seconds) {
+      // Relay each backend step to the client as an MCP progress notification
+      await jobs.wait(job, wait_seconds * 1000, ({ progress }) => {
+        if (!progress) return;
+        ctx.reportProgress?.(progress.index, progress.total, progress.step);
+      });
+    }
+    return object({ ...snapshot(job) });
+  }
+);
+
+// ── Tool 5: get-job-result ────────────────────────────────────────────
+server.tool(
+  {
+    name: "get-job-result",
+    description:
+      "Get the result of a finished job. Finished results are kept for a limited time.",
+    schema: z.object({
+      job_id: z.string().describe("Job id returned when the job was started"),
+    }),
+    annotations: { readOnlyHint: true },
+  },
+  async ({ job_id }) => {
+    const job = jobs.get(job_id);
+    if (!job) return error(`Job ${job_id} not found or its result has expired.`);
+
+    switch (job.status) {
+      case "running":
+        return text(
+          `Job ${job_id} is still running (${snapshot(job).elapsedSeconds}s elapsed). Check again later.`
+        );
+      case "failed":
+        return {
+          ...error(`${job.tool} failed: ${job.error}`),
+          structuredContent: {
+            error: { message: job.error, ...job.errorDetails },
+          },
+        };
+      case "cancelled":
+        return error(`Job ${job_id} was cancelled.`);
+      case "succeeded":
+        return widget({
+          props: { ...job.outcome!.props, job: snapshot(job) },
+          metadata: job.outcome!.metadata,
+          output: text(job.outcome!.summary),
+        });
+    }
+  }
+);
+
+// ── Tool 6: cancel-job ────────────────────────────────────────────────
+server.tool(
+  {
+    name: "cancel-job",
+    description: "Cancel a running job and stop its backend request",
+    schema: z.object({
+      job_id: z.string().describe("Job id returned when the job was started"),
+    }),
+    annotations: { readOnlyHint: false, destructiveHint: false },
+  },
+  async ({ job_id }) => {
+    const job = jobs.get(job_id);
+    if (!job) return error(`Job ${job_id} not found or its result has expired.`);
+    if (!jobs.cancel(job_id)) {
+      return error(`Job ${job_id} is already ${job.status}.`);
+    }
+    return text(`Job ${job_id} cancelled.`);
+  }
+);
+
+// ── Tool 7: find-patient ──────────────────────────────────────────────
+server.tool(
+  {
+    name: "find-patient",
+    description:
+      "Look up a patient by name, date of birth, phone number or patient id and return ranked candidates. Use it when a name may match several patients, then pass the chosen patient_id to get-patient-chart or get-reports.",
+    schema: z.object({
+      name: z.string().optional().describe("Full or partial patient name"),
+      birthdate: z
+        .string()
+        .optional()
+        .describe("Date of birth as YYYY-MM-DD or MM/DD/YYYY"),
+      phone: z.string().optional().describe("Any of the patient's phone numbers"),
+      patient_id: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("OpenDental patient id"),
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "patient-candidates",
+      invoking: "Searching patients…",
+      invoked: "Patient matches ready",
+    },
+  },
+  async (query) => {
+    const { name, birthdate, phone, patient_id } = query;
+    if (!name && !birthdate && !phone && patient_id == null) {
+      return error("Provide at least one of name, birthdate, phone or patient_id.");
+    }
+    const dob = birthdate ? normalizeDate(birthdate) : undefined;
+    if (birthdate && !dob) {
+      return error(
+        `Could not read date of birth "${birthdate}". Use YYYY-MM-DD or MM/DD/YYYY.`
       );
-      const data = json.data ?? json;
-      const report = data.patient_report;
-      if (!report) return error("No report data returned for this patient.");
+    }
+    const params = toParams({ name, birthdate: dob, phone, patient_id });
 
-      return widget({
-        props: { report, patientName: patient_name },
-        output: text(
-          `Report for ${patient_name}: balance $${report.summary?.total_outstanding_balance ?? 0}, ${report.summary?.pending_insurance_claims ?? 0} pending claims.`
+    const job = jobs.start("find-patient", async (hooks) => {
+      const json = await callBackend("/api/patients/search", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["find-patient"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(
+        patientListSchema,
+        json.data ?? json,
+        "patient search"
+      );
+      const candidates = rankCandidates(data.patients ?? [], query);
+
+      return {
+        props: { candidates, query },
+        summary: summarizeCandidates(candidates),
+      };
+    });
+
+    return widget({
+      props: { job: snapshot(job), query },
+      output: text(jobStarted(job, "search for the patient")),
+    });
+  }
+);
+
+// ── Tool 8: get-schedule ──────────────────────────────────────────────
+const MAX_SCHEDULE_DAYS = 14;
+
+server.tool(
+  {
+    name: "get-schedule",
+    description:
+      "Get the practice's appointment book for a date range, optionally for one provider or operatory. Shows a day/week grid by operatory.",
+    schema: z.object({
+      start_date: z
+        .string()
+        .optional()
+        .describe("First day, YYYY-MM-DD or MM/DD/YYYY; defaults to today"),
+      end_date: z
+        .string()
+        .optional()
+        .describe(
+          `Last day, at most ${MAX_SCHEDULE_DAYS} days in all; defaults to start_date`
         ),
+      provider: z
+        .string()
+        .optional()
+        .describe("Provider abbreviation, e.g. DOC1 or HYG1"),
+      operatory: z.string().optional().describe("Operatory name, e.g. OP1"),
+      force_refresh: forceRefresh,
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "schedule",
+      invoking: "Reading the appointment book…",
+      invoked: "Schedule ready",
+    },
+  },
+  async ({ start_date, end_date, provider, operatory, force_refresh }) => {
+    const start = start_date ? normalizeDate(start_date) : today();
+    const end = end_date ? normalizeDate(end_date) : start;
+    if (!start || !end) {
+      return error("Could not read the dates. Use YYYY-MM-DD or MM/DD/YYYY.");
+    }
+    const days = daysBetween(start, end) + 1;
+    if (days < 1) return error("end_date must not be before start_date.");
+    if (days > MAX_SCHEDULE_DAYS) {
+      return error(
+        `The range covers ${days} days; request at most ${MAX_SCHEDULE_DAYS} at a time.`
+      );
+    }
+    const range = { start, end };
+    const when = start === end ? start : `${start} to ${end}`;
+    const filters = { provider, operatory };
+    const params = toParams({
+      start_date: start,
+      end_date: end,
+      provider,
+      operatory,
+    });
+    const key = cacheKey("get-schedule", params);
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("get-schedule", async (hooks) => {
+      const json = await callBackend("/api/schedule", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["get-schedule"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = json.data ?? json;
+      if (!data.schedule) {
+        throw new Error("No schedule data returned for this date range.");
+      }
+      const schedule = parseBackend(scheduleSchema, data.schedule, "schedule");
+      const appointments = schedule.appointments ?? [];
+      const open = appointments.filter(
+        (a) => !/broken|cancel/i.test(a.status ?? "")
+      ).length;
+      return remember("get-schedule", key, {
+        props: { schedule, range, filters },
+        summary: `Schedule for ${when}: ${appointments.length} appointment(s), ${appointments.length - open} broken or cancelled.`,
       });
-    } catch (e: any) {
-      return error(`Failed to fetch report: ${e.message}`);
+    });
+
+    return widget({
+      props: { job: snapshot(job), range, filters },
+      output: text(jobStarted(job, `read the schedule for ${when}`)),
+    });
+  }
+);
+
+// ── Tool 9: book-appointment ──────────────────────────────────────────
+const appointmentSlot = {
+  date: z.string().describe("Appointment day, YYYY-MM-DD or MM/DD/YYYY"),
+  time: z.string().describe("Start time, e.g. 14:30 or 2:30 PM"),
+  length_minutes: z
+    .number()
+    .int()
+    .min(10)
+    .max(480)
+    .optional()
+    .describe("Length in minutes; OpenDental picks one if omitted"),
+  provider: z.string().optional().describe("Provider abbreviation, e.g. DOC1"),
+  operatory: z.string().optional().describe("Operatory name, e.g. OP1"),
+};
+
+// Validates a requested slot, or says what is wrong with it
+function readSlot(args: { date: string; time: string }) {
+  const date = normalizeDate(args.date);
+  const time = normalizeTime(args.time);
+  if (!date) return `Could not read date "${args.date}". Use YYYY-MM-DD.`;
+  if (!time) {
+    return `Could not read time "${args.time}". Use HH:MM or h:mm AM/PM.`;
+  }
+  return { date, time };
+}
+
+function describeSlot(a: {
+  date: string;
+  time: string;
+  provider?: string;
+  operatory?: string;
+}) {
+  const where = [
+    a.operatory && `in ${a.operatory}`,
+    a.provider && `with ${a.provider}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return `${a.date} at ${a.time}${where ? ` ${where}` : ""}`;
+}
+
+server.tool(
+  {
+    name: "book-appointment",
+    description:
+      "Prepare a new appointment for a patient. This only previews the booking: it is created in OpenDental after the user confirms it in the widget.",
+    schema: z.object({
+      ...patientRef,
+      ...appointmentSlot,
+      procedures: z
+        .array(z.string())
+        .optional()
+        .describe("Procedure codes or descriptions, e.g. D1110"),
+      notes: z.string().optional(),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    widget: {
+      name: "appointment-confirmation",
+      invoking: "Preparing appointment…",
+      invoked: "Review the appointment",
+    },
+  },
+  async ({ patient_name, patient_id, procedures = [], notes, ...args }) => {
+    const patient = { patient_name, patient_id };
+    if (!patient_name && patient_id == null) return error(MISSING_PATIENT);
+    const slot = readSlot(args);
+    if (typeof slot === "string") return error(slot);
+
+    const appointment = {
+      ...args,
+      ...slot,
+      patient_name: patientLabel(patient),
+      patient_id,
+      procedures: procedures.join(", "),
+      notes,
+    };
+    const action = confirmations.create(
+      "book-appointment",
+      `book ${appointment.patient_name} on ${describeSlot(appointment)}`,
+      async (hooks, token) => {
+        const json = await callBackend("/api/appointments", {
+          body: toParams({
+            ...patientParams(patient),
+            ...slot,
+            length_minutes: args.length_minutes,
+            provider: args.provider,
+            operatory: args.operatory,
+            procedures: appointment.procedures,
+            notes,
+            idempotency_key: token,
+          }),
+          timeoutMs: TOOL_TIMEOUTS["book-appointment"],
+          ...hooks,
+        });
+        const data = json.data ?? json;
+        const booked = parseBackend(
+          scheduledAppointmentSchema,
+          data.appointment ?? data,
+          "appointment"
+        );
+        // A new booking can take a patient off the recall and unscheduled
+        // treatment lists
+        forget(
+          "get-schedule",
+          "get-reports",
+          "get-recall-list",
+          "get-unscheduled-treatment"
+        );
+
+        const id =
+          booked.appointment_id != null
+            ? ` (appointment #${booked.appointment_id})`
+            : "";
+
+        return {
+          props: { appointment: { ...appointment, ...booked } },
+          summary: `Booked ${appointment.patient_name} on ${describeSlot(appointment)}${id}.`,
+        };
+      }
+    );
+
+    return widget({
+      props: { appointment },
+      metadata: actionMetadata(action),
+      output: text(awaitingConfirmation(action)),
+    });
+  }
+);
+
+// ── Tool 10: reschedule-appointment ───────────────────────────────────
+server.tool(
+  {
+    name: "reschedule-appointment",
+    description:
+      "Prepare moving an existing appointment to a new slot. This only previews the change: the appointment is moved after the user confirms it in the widget. Get appointment ids from get-schedule.",
+    schema: z.object({
+      appointment_id: z
+        .number()
+        .int()
+        .positive()
+        .describe("Appointment to move, from get-schedule"),
+      patient_name: z
+        .string()
+        .optional()
+        .describe("Whose appointment it is, shown in the confirmation"),
+      ...appointmentSlot,
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    widget: {
+      name: "appointment-confirmation",
+      invoking: "Preparing reschedule…",
+      invoked: "Review the new slot",
+    },
+  },
+  async ({ appointment_id, patient_name, ...args }) => {
+    const slot = readSlot(args);
+    if (typeof slot === "string") return error(slot);
+
+    const appointment = { ...args, ...slot, appointment_id, patient_name };
+    const whose = patient_name ? ` for ${patient_name}` : "";
+    const action = confirmations.create(
+      "reschedule-appointment",
+      `move appointment #${appointment_id}${whose} to ${describeSlot(appointment)}`,
+      async (hooks, token) => {
+        const json = await callBackend("/api/appointments/reschedule", {
+          body: toParams({
+            appointment_id,
+            ...slot,
+            length_minutes: args.length_minutes,
+            provider: args.provider,
+            operatory: args.operatory,
+            idempotency_key: token,
+          }),
+          timeoutMs: TOOL_TIMEOUTS["reschedule-appointment"],
+          ...hooks,
+        });
+        const data = json.data ?? json;
+        const moved = parseBackend(
+          scheduledAppointmentSchema,
+          data.appointment ?? data,
+          "appointment"
+        );
+        forget("get-schedule", "get-reports");
+
+        return {
+          props: { appointment: { ...appointment, ...moved } },
+          summary: `Moved appointment #${appointment_id}${whose} to ${describeSlot(appointment)}.`,
+        };
+      }
+    );
+
+    return widget({
+      props: { appointment, reschedule: true },
+      metadata: actionMetadata(action),
+      output: text(awaitingConfirmation(action)),
+    });
+  }
+);
+
+// ── Tool 11: confirm-action ───────────────────────────────────────────
+// Only confirmation widgets call these two; hosts that support app-only
+// tools hide them from the model.
+server.tool(
+  {
+    name: "confirm-action",
+    description:
+      "Commit a write the user has reviewed in a confirmation widget. Called by the widget's Confirm button, not by the model.",
+    schema: z.object({
+      token: z.string().describe("Confirmation token from the widget"),
+      edits: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("Fields the user changed in the widget, for writes that allow it"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    _meta: { ui: { visibility: ["app"] } },
+  },
+  async ({ token, edits = {} }) => {
+    const action = confirmations.get(token);
+    if (!action) {
+      return error("This confirmation has expired. Ask for the change again.");
+    }
+    const locked = Object.keys(edits).filter(
+      (field) => !action.editable.includes(field)
+    );
+    if (locked.length) {
+      return error(`These fields cannot be edited here: ${locked.join(", ")}.`);
+    }
+    if (action.status === "discarded") {
+      return error("This change was discarded and cannot be confirmed.");
+    }
+    // Confirming twice never commits twice: it returns the job started the
+    // first time, or just says so once that job has been swept
+    if (action.status === "confirmed") {
+      const existing = action.jobId ? jobs.get(action.jobId) : undefined;
+      const output = text(`Already confirmed: ${action.description}.`);
+      return existing
+        ? widget({ props: { job: snapshot(existing) }, output })
+        : output;
+    }
+    if (confirmations.isExpired(action)) {
+      return error("This confirmation has expired. Ask for the change again.");
+    }
+
+    action.status = "confirmed";
+    const job = jobs.start(action.tool, (hooks) =>
+      action.commit(hooks, action.token, edits)
+    );
+    action.jobId = job.id;
+    return widget({
+      props: { job: snapshot(job) },
+      output: text(jobStarted(job, action.description)),
+    });
+  }
+);
+
+// ── Tool 12: discard-action ───────────────────────────────────────────
+server.tool(
+  {
+    name: "discard-action",
+    description:
+      "Throw away a prepared write without committing it. Called by a confirmation widget's Cancel button.",
+    schema: z.object({
+      token: z.string().describe("Confirmation token from the widget"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    _meta: { ui: { visibility: ["app"] } },
+  },
+  async ({ token }) => {
+    const action = confirmations.get(token);
+    if (!action || action.status === "discarded") {
+      return text("Nothing to discard.");
     }
+    if (action.status === "confirmed") {
+      return error("This change was already confirmed.");
+    }
+    action.status = "discarded";
+    return text(`Discarded: ${action.description}. Nothing was changed.`);
   }
 );
 
+// ── Tool 13: present-treatment-plan ───────────────────────────────────
+server.tool(
+  {
+    name: "present-treatment-plan",
+    description:
+      "Walk a patient through their open treatment plan: procedures grouped by phase and priority, with the out-of-pocket cost of each phase against their remaining annual max and deductible. Staff record which procedures the patient accepts in the widget.",
+    schema: z.object({ ...patientRef, force_refresh: forceRefresh }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "treatment-plan",
+      invoking: "Loading treatment plan…",
+      invoked: "Treatment plan ready",
+    },
+  },
+  async ({ force_refresh, ...patient }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const key = cacheKey("present-treatment-plan", patientParams(patient));
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+    const label = patientLabel(patient);
+
+    const job = jobs.start("present-treatment-plan", async (hooks) => {
+      const json = await callBackend("/api/treatment_plan", {
+        params: patientParams(patient),
+        patientLookup: true,
+        timeoutMs: TOOL_TIMEOUTS["present-treatment-plan"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = json.data ?? json;
+      const plan = parseBackend(
+        treatmentPlanSchema,
+        data.treatment_plan ?? data,
+        "treatment_plan"
+      );
+      const phases = phasePlan(plan);
+      const count = phases.reduce((n, p) => n + p.procedures.length, 0);
+      const patientName = data.patient_name ?? label;
+
+      return remember("present-treatment-plan", key, {
+        props: {
+          plan,
+          phases,
+          patientName,
+          patientId: data.patient_id ?? patient.patient_id,
+          numbering: TOOTH_NUMBERING,
+        },
+        summary:
+          count === 0
+            ? `${patientName} has no open treatment-planned procedures.`
+            : `Treatment plan for ${patientName}, ${count} open procedure(s). ${summarizePhases(phases)}.`,
+      });
+    });
+
+    return widget({
+      props: {
+        job: snapshot(job),
+        patientName: label,
+        patientId: patient.patient_id,
+        numbering: TOOTH_NUMBERING,
+      },
+      output: text(jobStarted(job, `load the treatment plan for ${label}`)),
+    });
+  }
+);
+
+// ── Tool 14: accept-treatment ─────────────────────────────────────────
+// Called by the treatment plan widget once staff have ticked the procedures
+// the patient agreed to; the ticking is the user's confirmation.
+server.tool(
+  {
+    name: "accept-treatment",
+    description:
+      "Record which treatment-planned procedures the patient accepted. Called by the treatment plan widget, not by the model.",
+    schema: z.object({
+      ...patientRef,
+      procedure_ids: z
+        .array(z.number().int().positive())
+        .min(1)
+        .describe("Procedures the patient accepted"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    _meta: { ui: { visibility: ["app"] } },
+  },
+  async ({ procedure_ids, ...patient }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const label = patientLabel(patient);
+    const ids = [...new Set(procedure_ids)].sort((a, b) => a - b);
+    const what = `record ${ids.length} accepted procedure(s) for ${label}`;
+
+    const job = jobs.start("accept-treatment", async (hooks) => {
+      await callBackend("/api/treatment_plan/accept", {
+        body: { ...patientParams(patient), procedure_ids: ids },
+        timeoutMs: TOOL_TIMEOUTS["accept-treatment"],
+        ...hooks,
+        // Marking the same procedures accepted twice changes nothing
+        idempotent: true,
+      });
+      forget("present-treatment-plan", "get-reports");
+      return {
+        props: { accepted: ids },
+        summary: `Recorded ${ids.length} accepted procedure(s) for ${label}.`,
+      };
+    });
+
+    return widget({
+      props: { job: snapshot(job) },
+      output: text(jobStarted(job, what)),
+    });
+  }
+);
+
+// ── Tool 15: get-recall-list ──────────────────────────────────────────
+// How far back and ahead the worklist looks when no dates are given
+const RECALL_LOOKBACK_DAYS = 365;
+const RECALL_LOOKAHEAD_DAYS = 30;
+const CONTACT_METHODS = ["phone", "text", "email", "letter"] as const;
+
+server.tool(
+  {
+    name: "get-recall-list",
+    description:
+      "List every patient who is overdue or due soon for recall and has nothing scheduled, most overdue first. Shows a worklist with phone numbers, last visit and days overdue, where staff can mark patients as contacted.",
+    schema: z.object({
+      start_date: z
+        .string()
+        .optional()
+        .describe(
+          `Earliest due date, YYYY-MM-DD or MM/DD/YYYY; defaults to ${RECALL_LOOKBACK_DAYS} days ago`
+        ),
+      end_date: z
+        .string()
+        .optional()
+        .describe(
+          `Latest due date; defaults to ${RECALL_LOOKAHEAD_DAYS} days from today`
+        ),
+      recall_type: z
+        .string()
+        .optional()
+        .describe("Recall type, e.g. Prophy or Perio"),
+      provider: z
+        .string()
+        .optional()
+        .describe("Provider abbreviation, e.g. HYG1"),
+      include_scheduled: z
+        .boolean()
+        .optional()
+        .describe("Also list recalls that already have an appointment"),
+      force_refresh: forceRefresh,
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "recall-list",
+      invoking: "Reading the recall list…",
+      invoked: "Recall worklist ready",
+    },
+  },
+  async ({
+    start_date,
+    end_date,
+    recall_type,
+    provider,
+    include_scheduled,
+    force_refresh,
+  }) => {
+    const now = today();
+    const start = start_date
+      ? normalizeDate(start_date)
+      : addDays(now, -RECALL_LOOKBACK_DAYS);
+    const end = end_date
+      ? normalizeDate(end_date)
+      : addDays(now, RECALL_LOOKAHEAD_DAYS);
+    if (!start || !end) {
+      return error("Could not read the dates. Use YYYY-MM-DD or MM/DD/YYYY.");
+    }
+    if (daysBetween(start, end) < 0) {
+      return error("end_date must not be before start_date.");
+    }
+    const range = { start, end };
+    const filters = { recall_type, provider, include_scheduled };
+    const params = toParams({
+      start_date: start,
+      end_date: end,
+      recall_type,
+      provider,
+    });
+    const key = cacheKey("get-recall-list", {
+      ...params,
+      include_scheduled: String(!!include_scheduled),
+    });
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("get-recall-list", async (hooks) => {
+      const json = await callBackend("/api/recalls", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["get-recall-list"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(
+        recallListSchema,
+        json.data ?? json,
+        "recall list"
+      );
+      const recalls = (data.recalls ?? [])
+        .filter((r) => include_scheduled || !r.scheduled_date)
+        .map((r) => ({
+          ...r,
+          days_overdue: r.due_date ? daysBetween(r.due_date, now) : null,
+        }))
+        .sort(
+          (a, b) =>
+            (b.days_overdue ?? -Infinity) - (a.days_overdue ?? -Infinity)
+        );
+      const overdue = recalls.filter((r) => (r.days_overdue ?? 0) > 0).length;
+
+      return remember("get-recall-list", key, {
+        props: { recalls, range, filters },
+        summary: `${recalls.length} recall(s) due ${start} to ${end}${include_scheduled ? "" : " with nothing scheduled"}: ${overdue} overdue, ${recalls.length - overdue} due soon.`,
+      });
+    });
+
+    return widget({
+      props: { job: snapshot(job), range, filters },
+      output: text(
+        jobStarted(job, `read the recall list for ${start} to ${end}`)
+      ),
+    });
+  }
+);
+
+// ── Tool 16: mark-recall-contacted ────────────────────────────────────
+// Called from the recall worklist; logs the contact attempt in the
+// patient's communication log
+server.tool(
+  {
+    name: "mark-recall-contacted",
+    description:
+      "Log that a patient on the recall worklist was contacted. Called by the recall list widget, not by the model.",
+    schema: z.object({
+      patient_id: z.number().int().positive(),
+      recall_type: z.string().optional(),
+      method: oneOf(CONTACT_METHODS)
+        .optional()
+        .describe("How they were reached"),
+      note: z.string().optional().describe("Outcome, e.g. left voicemail"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    _meta: { ui: { visibility: ["app"] } },
+  },
+  async ({ patient_id, recall_type, method = "phone", note }) => {
+    const job = jobs.start("mark-recall-contacted", async (hooks) => {
+      const json = await callBackend("/api/recalls/contacted", {
+        body: toParams({
+          patient_id,
+          recall_type,
+          method,
+          note,
+          date: today(),
+        }),
+        timeoutMs: TOOL_TIMEOUTS["mark-recall-contacted"],
+        ...hooks,
+      });
+      const data = json.data ?? json;
+      forget("get-recall-list");
+      return {
+        props: {
+          patientId: patient_id,
+          lastContacted: data.last_contacted ?? today(),
+        },
+        summary: `Logged a ${method} contact with patient #${patient_id}.`,
+      };
+    });
+
+    return widget({
+      props: { job: snapshot(job) },
+      output: text(
+        jobStarted(job, `log the contact with patient #${patient_id}`)
+      ),
+    });
+  }
+);
+
+// ── Tool 17: get-unscheduled-treatment ────────────────────────────────
+const UNSCHEDULED_SORTS = ["value", "plan_age"] as const;
+
+// ADA procedure codes are D followed by four digits
+function adaCode(code: string | undefined) {
+  const m = code?.trim().match(/^d?(\d{4})$/i);
+  return m ? `D${m[1]}` : undefined;
+}
+
+server.tool(
+  {
+    name: "get-unscheduled-treatment",
+    description:
+      "List patients across the practice with treatment-planned procedures that are not scheduled, ranked by their value (or by how long ago they were planned). Filter by provider and ADA code range, e.g. D2000 to D2999 for restorative.",
+    schema: z.object({
+      provider: z
+        .string()
+        .optional()
+        .describe("Provider abbreviation, e.g. DOC1"),
+      code_from: z
+        .string()
+        .optional()
+        .describe("Lowest ADA code to include, e.g. D2000"),
+      code_to: z
+        .string()
+        .optional()
+        .describe("Highest ADA code to include, e.g. D2999"),
+      sort: oneOf(UNSCHEDULED_SORTS)
+        .optional()
+        .describe("value (default) or plan_age, oldest plans first"),
+      force_refresh: forceRefresh,
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "unscheduled-treatment",
+      invoking: "Finding unscheduled treatment…",
+      invoked: "Unscheduled treatment ready",
+    },
+  },
+  async ({ provider, code_from, code_to, sort = "value", force_refresh }) => {
+    const from = code_from ? adaCode(code_from) : "D0000";
+    const to = code_to ? adaCode(code_to) : "D9999";
+    if (!from || !to) {
+      return error("ADA codes look like D2391; use e.g. D2000 to D2999.");
+    }
+    if (from > to) return error("code_from must not be above code_to.");
+    const filters = { provider, code_from: from, code_to: to };
+    const params = toParams({ provider });
+    // The code range and order are applied here, not by the backend
+    const key = cacheKey("get-unscheduled-treatment", {
+      ...params,
+      code_from: from,
+      code_to: to,
+      sort,
+    });
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("get-unscheduled-treatment", async (hooks) => {
+      const json = await callBackend("/api/treatment/unscheduled", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["get-unscheduled-treatment"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(
+        unscheduledTreatmentSchema,
+        json.data ?? json,
+        "unscheduled treatment"
+      );
+      const now = today();
+      const rows = (data.patients ?? [])
+        .map((p) => {
+          const procedures = (p.procedures ?? []).filter((proc) => {
+            const code = adaCode(proc.ada_code ?? undefined);
+            return !code || (code >= from && code <= to);
+          });
+          const planned = procedures
+            .map((proc) => proc.date_planned)
+            .filter((d): d is string => !!d)
+            .sort();
+          return {
+            ...p,
+            procedures,
+            total_value: procedures.reduce((t, x) => t + (x.fee ?? 0), 0),
+            plan_age_days: planned.length ? daysBetween(planned[0], now) : null,
+          };
+        })
+        .filter((row) => row.procedures.length > 0);
+      const byValue = (a: (typeof rows)[number], b: (typeof rows)[number]) =>
+        b.total_value - a.total_value;
+      const byAge = (a: (typeof rows)[number], b: (typeof rows)[number]) =>
+        (b.plan_age_days ?? -1) - (a.plan_age_days ?? -1);
+      rows.sort((a, b) =>
+        sort === "plan_age"
+          ? byAge(a, b) || byValue(a, b)
+          : byValue(a, b) || byAge(a, b)
+      );
+      const total = rows.reduce((t, row) => t + row.total_value, 0);
+
+      return remember("get-unscheduled-treatment", key, {
+        props: { rows, filters, sort, numbering: TOOTH_NUMBERING },
+        summary: `${rows.length} patient(s) with unscheduled treatment worth $${total.toFixed(2)} in all (${from}–${to}${provider ? `, ${provider}` : ""}).`,
+      });
+    });
+
+    return widget({
+      props: { job: snapshot(job), filters, sort, numbering: TOOTH_NUMBERING },
+      output: text(jobStarted(job, "find unscheduled treatment")),
+    });
+  }
+);
+
+// ── Tool 18: get-ar-aging ─────────────────────────────────────────────
+const money = (v: number) => `$${v.toFixed(2)}`;
+
+server.tool(
+  {
+    name: "get-ar-aging",
+    description:
+      "Accounts receivable aging across the practice: balances in 0–30, 31–60, 61–90 and 90+ day buckets, each split into patient and insurance portions, with the families behind each bucket. Filter by billing type and provider.",
+    schema: z.object({
+      billing_type: z
+        .string()
+        .optional()
+        .describe("OpenDental billing type, e.g. Standard Account"),
+      provider: z
+        .string()
+        .optional()
+        .describe("Provider abbreviation, e.g. DOC1"),
+      force_refresh: forceRefresh,
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "ar-aging",
+      invoking: "Running the aging report…",
+      invoked: "A/R aging ready",
+    },
+  },
+  async ({ billing_type, provider, force_refresh }) => {
+    const filters = { billing_type, provider };
+    const params = toParams(filters);
+    const key = cacheKey("get-ar-aging", params);
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("get-ar-aging", async (hooks) => {
+      const json = await callBackend("/api/ar_aging", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["get-ar-aging"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(arAgingSchema, json.data ?? json, "A/R aging");
+      const families = data.families ?? [];
+      const buckets = AGING_BUCKETS.map(({ key, label }) => {
+        const splits = families
+          .map((f) => f.aging[key])
+          .filter((s) => (s?.patient ?? 0) + (s?.insurance ?? 0) !== 0);
+        const patient = splits.reduce((t, s) => t + (s?.patient ?? 0), 0);
+        const insurance = splits.reduce((t, s) => t + (s?.insurance ?? 0), 0);
+        return {
+          key,
+          label,
+          patient,
+          insurance,
+          total: patient + insurance,
+          families: splits.length,
+        };
+      });
+      const total = buckets.reduce((t, b) => t + b.total, 0);
+
+      return remember("get-ar-aging", key, {
+        props: { families, buckets, filters },
+        summary: `A/R of ${money(total)} across ${families.length} families: ${buckets
+          .map(
+            (b) =>
+              `${b.label} days ${money(b.total)} (patient ${money(b.patient)}, insurance ${money(b.insurance)})`
+          )
+          .join("; ")}.`,
+      });
+    });
+
+    return widget({
+      props: { job: snapshot(job), filters },
+      output: text(jobStarted(job, "run the A/R aging report")),
+    });
+  }
+);
+
+// ── Tool 19: get-claims ───────────────────────────────────────────────
+const DEFAULT_OUTSTANDING_DAYS = 30;
+
+server.tool(
+  {
+    name: "get-claims",
+    description:
+      "List insurance claims across the practice by status (unsent, sent, received, rejected), carrier and age, oldest first. Claims not yet received after outstanding_days are flagged as outstanding.",
+    schema: z.object({
+      status: oneOf(CLAIM_STATUSES).optional().describe("Claim status"),
+      carrier: z
+        .string()
+        .optional()
+        .describe("Carrier name or part of it, e.g. Delta"),
+      min_age_days: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Only claims at least this many days past the service date"),
+      max_age_days: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Only claims at most this many days past the service date"),
+      outstanding_days: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          `Flag unpaid claims older than this; defaults to ${DEFAULT_OUTSTANDING_DAYS}`
+        ),
+      force_refresh: forceRefresh,
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "claims",
+      invoking: "Reading claims…",
+      invoked: "Claims ready",
+    },
+  },
+  async ({
+    status,
+    carrier,
+    min_age_days,
+    max_age_days,
+    outstanding_days = DEFAULT_OUTSTANDING_DAYS,
+    force_refresh,
+  }) => {
+    if (
+      min_age_days != null &&
+      max_age_days != null &&
+      min_age_days > max_age_days
+    ) {
+      return error("min_age_days must not be above max_age_days.");
+    }
+    const filters = { status, carrier, min_age_days, max_age_days };
+    const params = toParams({ status, carrier });
+    // Ages and the outstanding flag are worked out here from the dates
+    const key = cacheKey("get-claims", {
+      ...toParams(filters),
+      outstanding_days: String(outstanding_days),
+    });
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("get-claims", async (hooks) => {
+      const json = await callBackend("/api/claims", {
+        params,
+        timeoutMs: TOOL_TIMEOUTS["get-claims"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(claimListSchema, json.data ?? json, "claims");
+      const now = today();
+      const claims = (data.claims ?? [])
+        .map((claim) => {
+          const age = claim.date ? daysBetween(claim.date, now) : null;
+          const paid = /received/i.test(claim.status ?? "");
+          return {
+            ...claim,
+            age_days: age,
+            overdue: !paid && age != null && age > outstanding_days,
+          };
+        })
+        .filter(
+          (claim) =>
+            (min_age_days == null || (claim.age_days ?? 0) >= min_age_days) &&
+            (max_age_days == null || (claim.age_days ?? 0) <= max_age_days)
+        )
+        .sort((a, b) => (b.age_days ?? -1) - (a.age_days ?? -1));
+      const overdue = claims.filter((claim) => claim.overdue);
+      const overdueAmount = overdue.reduce((t, c) => t + (c.amount ?? 0), 0);
+
+      return remember("get-claims", key, {
+        props: { claims, filters, outstandingDays: outstanding_days },
+        summary: `${claims.length} claim(s); ${overdue.length} outstanding over ${outstanding_days} days totalling ${money(overdueAmount)}.`,
+      });
+    });
+
+    return widget({
+      props: { job: snapshot(job), filters, outstandingDays: outstanding_days },
+      output: text(jobStarted(job, "read the claims list")),
+    });
+  }
+);
+
+// ── Tool 20: verify-insurance ─────────────────────────────────────────
+// Benefits verified longer ago than this are flagged as stale
+const DEFAULT_STALE_DAYS = 90;
+
+server.tool(
+  {
+    name: "verify-insurance",
+    description:
+      "Check insurance eligibility and benefits for one patient, or for everyone on a day's schedule (tomorrow by default). Shows coverage per category and remaining benefits, and flags plans whose data looks stale or incomplete.",
+    schema: z.object({
+      ...patientRef,
+      date: z
+        .string()
+        .optional()
+        .describe(
+          "Check everyone scheduled on this day, YYYY-MM-DD or MM/DD/YYYY; defaults to tomorrow when no patient is given"
+        ),
+      stale_days: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          `Flag benefits last verified more than this many days ago; defaults to ${DEFAULT_STALE_DAYS}`
+        ),
+      force_refresh: forceRefresh,
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "insurance-verification",
+      invoking: "Checking insurance…",
+      invoked: "Insurance check ready",
+    },
+  },
+  async ({
+    date,
+    stale_days = DEFAULT_STALE_DAYS,
+    force_refresh,
+    ...patient
+  }) => {
+    const single = !!patient.patient_name || patient.patient_id != null;
+    if (single && date) {
+      return error("Give either a patient or a schedule date, not both.");
+    }
+    const day = date ? normalizeDate(date) : addDays(today(), 1);
+    if (!day) {
+      return error(`Could not read date "${date}". Use YYYY-MM-DD.`);
+    }
+    const scope = single ? patientLabel(patient) : `the schedule for ${day}`;
+    const params = single ? patientParams(patient) : { date: day };
+    // What the widget passes back when it refreshes
+    const request = single
+      ? { patientName: patient.patient_name, patientId: patient.patient_id }
+      : { date: day };
+    const key = cacheKey("verify-insurance", {
+      ...params,
+      stale_days: String(stale_days),
+    });
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+
+    const job = jobs.start("verify-insurance", async (hooks) => {
+      const json = await callBackend("/api/insurance/verify", {
+        params,
+        patientLookup: single,
+        timeoutMs: TOOL_TIMEOUTS["verify-insurance"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = parseBackend(
+        coverageListSchema,
+        json.data ?? json,
+        "insurance verification"
+      );
+      const now = today();
+      const patients = (data.patients ?? []).map((entry) =>
+        reviewCoverage(entry, now, stale_days)
+      );
+      const flagged = patients.filter((p) => p.status !== "ok");
+      const details = flagged
+        .map((p) => `${p.patient_name}: ${p.flags.join("; ")}`)
+        .join(". ");
+
+      return remember("verify-insurance", key, {
+        props: {
+          patients,
+          request,
+          staleDays: stale_days,
+        },
+        summary: `Insurance check for ${scope}: ${patients.length} patient(s), ${flagged.length} need attention.${details ? ` ${details}.` : ""}`,
+      });
+    });
+
+    return widget({
+      props: {
+        job: snapshot(job),
+        request,
+        staleDays: stale_days,
+      },
+      output: text(jobStarted(job, `check insurance for ${scope}`)),
+    });
+  }
+);
+
+// ── Tool 21: get-perio-chart ──────────────────────────────────────────
+server.tool(
+  {
+    name: "get-perio-chart",
+    description:
+      "Get a patient's periodontal charting: six-site pocket depths, recession, bleeding on probing, mobility and furcation per tooth, compared against the previous perio exam. Identify the patient by patient_id when known.",
+    schema: z.object({ ...patientRef, force_refresh: forceRefresh }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "perio-chart",
+      invoking: "Loading perio chart…",
+      invoked: "Perio chart ready",
+    },
+  },
+  async ({ force_refresh, ...patient }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const key = cacheKey("get-perio-chart", patientParams(patient));
+    const cached = cachedResult(key, force_refresh);
+    if (cached) return cached;
+    const label = patientLabel(patient);
+
+    const job = jobs.start("get-perio-chart", async (hooks) => {
+      const json = await callBackend("/api/perio_chart", {
+        params: patientParams(patient),
+        patientLookup: true,
+        timeoutMs: TOOL_TIMEOUTS["get-perio-chart"],
+        ...hooks,
+        idempotent: true,
+      });
+      const data = json.data ?? json;
+      const chart = parseBackend(
+        perioChartSchema,
+        data.perio_chart ?? data,
+        "perio_chart"
+      );
+      const patientName = data.patient_name ?? label;
+      const [current, previous] = chart.exams ?? [];
+      if (!current) {
+        return {
+          props: {
+            patientName,
+            patientId: patient.patient_id,
+            numbering: TOOTH_NUMBERING,
+          },
+          summary: `${patientName} has no perio exams on file.`,
+        };
+      }
+
+      const stats = perioStats(current);
+      const severe = severeTeeth(current);
+      const changes = previous ? perioChanges(current, previous) : undefined;
+      const comparison = changes
+        ? ` Since ${previous!.exam_date}: ${changes.worse_sites} site(s) deeper by 2mm or more${changes.worse_teeth.length ? ` (teeth ${changes.worse_teeth.map(toothLabel).join(", ")})` : ""}, ${changes.better_sites} improved.`
+        : " No previous exam to compare.";
+
+      return remember("get-perio-chart", key, {
+        props: {
+          current,
+          previous,
+          stats,
+          previousStats: previous ? perioStats(previous) : undefined,
+          changes,
+          patientName,
+          patientId: patient.patient_id,
+          numbering: TOOTH_NUMBERING,
+        },
+        summary: `Perio exam for ${patientName} on ${current.exam_date}: ${stats.sites_4mm} site(s) at 4mm+, ${stats.sites_6mm} at 6mm+${severe.length ? ` (teeth ${severe.map(toothLabel).join(", ")})` : ""}, bleeding on probing ${stats.bop_percent}%.${comparison}${numberingNote}`,
+      });
+    });
+
+    return widget({
+      props: {
+        job: snapshot(job),
+        patientName: label,
+        patientId: patient.patient_id,
+        numbering: TOOTH_NUMBERING,
+      },
+      output: text(jobStarted(job, `load the perio chart for ${label}`)),
+    });
+  }
+);
+
+// ── Tool 22: add-clinical-note ────────────────────────────────────────
+server.tool(
+  {
+    name: "add-clinical-note",
+    description:
+      "Draft a progress note from the patient's current chart, laid out in the practice's note template (SOAP unless configured otherwise). The draft opens in an editable widget and is written to the chart only after the user confirms it there. Pass what the patient reported and what was found today so the draft includes them.",
+    schema: z.object({
+      ...patientRef,
+      chief_complaint: z
+        .string()
+        .optional()
+        .describe("What the patient came in for, in their words"),
+      findings: z
+        .string()
+        .optional()
+        .describe("Today's clinical findings, e.g. from the exam"),
+      note_date: z
+        .string()
+        .optional()
+        .describe("Date of the visit, YYYY-MM-DD; defaults to today"),
+      provider: z
+        .string()
+        .optional()
+        .describe("Provider abbreviation signing the note, e.g. DOC1"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    widget: {
+      name: "clinical-note",
+      invoking: "Drafting progress note…",
+      invoked: "Review the progress note",
+    },
+  },
+  async ({ chief_complaint, findings, note_date, provider, ...patient }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const noteDate = note_date ? normalizeDate(note_date) : today();
+    if (!noteDate) {
+      return error(`Could not read date "${note_date}". Use YYYY-MM-DD.`);
+    }
+    const label = patientLabel(patient);
+
+    const job = jobs.start("add-clinical-note", async (hooks) => {
+      // A chart loaded moments ago by get-patient-chart is the one the
+      // findings were read from, so draft from that rather than reload it
+      const viewed = cache.get<JobOutcome>(
+        cacheKey("get-patient-chart", patientParams(patient))
+      );
+      const chart =
+        (viewed?.value.props.chart as PatientChart | undefined) ??
+        (await loadChart(patient, hooks));
+      const patientName = chart.patient_info?.name ?? label;
+      const draft = draftNote(chart, NOTE_HEADINGS, {
+        chiefComplaint: chief_complaint,
+        findings,
+        numbering: TOOTH_NUMBERING,
+      });
+      const details = {
+        patientName,
+        patientId: patient.patient_id,
+        noteDate,
+        provider,
+      };
+
+      const action = confirmations.create(
+        "add-clinical-note",
+        `add a progress note dated ${noteDate} to ${patientName}'s chart`,
+        async (hooks, token, edits) => {
+          const sections = draft.map((s) => ({
+            heading: s.heading,
+            text: edits[s.heading] ?? s.text,
+          }));
+          const note = noteText(sections);
+          if (!note) {
+            throw new Error("The note is empty. Nothing was saved.");
+          }
+          const json = await callBackend("/api/clinical_notes", {
+            body: toParams({
+              ...patientParams(patient),
+              note_date: noteDate,
+              provider,
+              note,
+              idempotency_key: token,
+            }),
+            timeoutMs: TOOL_TIMEOUTS["add-clinical-note"],
+            ...hooks,
+          });
+          const data = json.data ?? json;
+          const saved = parseBackend(
+            savedNoteSchema,
+            data.note ?? data,
+            "note"
+          );
+          forget("get-patient-chart", "get-reports");
+
+          const id = saved.note_id != null ? ` (note #${saved.note_id})` : "";
+          const edited = sections.some((s, i) => s.text !== draft[i].text)
+            ? " The user edited the draft before saving."
+            : "";
+          return {
+            props: { ...details, sections, saved },
+            summary: `Saved a progress note dated ${saved.date ?? noteDate} to ${patientName}'s chart${id}.${edited} Text as written to the chart:\n\n${saved.text ?? note}`,
+          };
+        },
+        draft.map((s) => s.heading)
+      );
+
+      return {
+        props: { ...details, sections: draft },
+        metadata: actionMetadata(action),
+        summary: `${awaitingConfirmation(action)} The user can edit each section before saving. Draft:\n\n${noteText(draft)}`,
+      };
+    });
+
+    return widget({
+      props: { job: snapshot(job), patientName: label, noteDate },
+      output: text(jobStarted(job, `draft a progress note for ${label}`)),
+    });
+  }
+);
+
+// ── Tool 23: update-patient-info ──────────────────────────────────────
+const phoneField = (what: string) =>
+  z.string().optional().describe(`${what}, 10-digit US number`);
+
+// Demographic and contact fields shared by update-patient-info and
+// create-patient; src/patient-info.ts validates them
+const patientFields = {
+  first_name: z.string().optional(),
+  middle_name: z.string().optional(),
+  last_name: z.string().optional(),
+  preferred_name: z.string().optional(),
+  title: z.string().optional().describe("e.g. Mr., Ms., Dr."),
+  birthdate: z.string().optional().describe("YYYY-MM-DD or MM/DD/YYYY"),
+  billing_type: z
+    .string()
+    .optional()
+    .describe("Billing type as named in OpenDental, e.g. Standard Account"),
+  primary_provider: z
+    .string()
+    .optional()
+    .describe("Provider abbreviation, e.g. DOC1"),
+  secondary_provider: z
+    .string()
+    .optional()
+    .describe("Provider abbreviation, usually a hygienist"),
+  street: z.string().optional(),
+  street2: z.string().optional().describe("Apartment, suite, etc."),
+  city: z.string().optional(),
+  state: z.string().optional().describe("Two-letter state code"),
+  zip: z.string().optional().describe("5-digit ZIP or ZIP+4"),
+  home_phone: phoneField("Home phone"),
+  work_phone: phoneField("Work phone"),
+  wireless_phone: phoneField("Cell phone"),
+  email: z.string().optional(),
+  preferred_contact_method: oneOf(PREFERRED_CONTACT_METHODS)
+    .optional()
+    .describe("How the office should reach the patient"),
+};
+
+server.tool(
+  {
+    name: "update-patient-info",
+    description:
+      "Prepare changes to a patient's demographics, address or contact details. Pass only the fields to change; an empty string clears a field. Phone numbers, email and ZIP are checked before anything is prepared. This only previews the change as a before/after comparison: it is saved in OpenDental after the user confirms it in the widget.",
+    schema: z.object({
+      ...patientRef,
+      ...patientFields,
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    widget: {
+      name: "patient-info-update",
+      invoking: "Preparing patient update…",
+      invoked: "Review the changes",
+    },
+  },
+  async ({ patient_name, patient_id, ...fields }) => {
+    const patient = { patient_name, patient_id };
+    if (!patient_name && patient_id == null) return error(MISSING_PATIENT);
+    const updates = readInfoUpdates(fields);
+    if (typeof updates === "string") return error(updates);
+    if (!Object.keys(updates).length) {
+      return error("Pass at least one field to change.");
+    }
+    const label = patientLabel(patient);
+
+    // The diff is drawn against the report as OpenDental has it now, not a
+    // cached copy that may predate another edit
+    const job = jobs.start("update-patient-info", async (hooks) => {
+      const report = await loadReport(patient, hooks);
+      const info = report.patient_info;
+      const patientName =
+        [info?.first_name, info?.last_name].filter(Boolean).join(" ") || label;
+      const changes = infoChanges(info, updates);
+      const details = {
+        patientName,
+        patientId: info?.patient_id != null ? Number(info.patient_id) : patient_id,
+      };
+      if (!changes.length) {
+        return {
+          props: { ...details, changes },
+          summary: `Nothing to change: ${patientName}'s record already has these values.`,
+        };
+      }
+
+      // Write to the record the report came from, even if the name given
+      // would match more than one patient
+      const target =
+        details.patientId != null ? { patient_id: details.patientId } : patient;
+      const fieldList = changes
+        .map((c) => (c.label === "ZIP" ? c.label : c.label.toLowerCase()))
+        .join(", ");
+      const action = confirmations.create(
+        "update-patient-info",
+        `update ${patientName}'s ${fieldList}`,
+        async (hooks, token) => {
+          const json = await callBackend("/api/patients/update", {
+            body: {
+              ...patientParams(target),
+              // A blank value clears the field
+              fields: Object.fromEntries(changes.map((c) => [c.field, c.after])),
+              idempotency_key: token,
+            },
+            timeoutMs: TOOL_TIMEOUTS["update-patient-info"],
+            ...hooks,
+          });
+          const data = json.data ?? json;
+          const updated = parseBackend(
+            patientInfoSchema,
+            data.patient_info ?? data,
+            "patient_info"
+          );
+          // Names, phones and addresses show up in every list
+          forget(
+            "get-patients",
+            "get-reports",
+            "get-recall-list",
+            "get-unscheduled-treatment",
+            "get-ar-aging"
+          );
+
+          return {
+            props: { ...details, changes, updated },
+            summary: `Updated ${patientName}'s record: ${changes
+              .map((c) => `${c.label} ${c.after ? `"${c.after}"` : "cleared"}`)
+              .join(", ")}.`,
+          };
+        }
+      );
+
+      return {
+        props: { ...details, changes },
+        metadata: actionMetadata(action),
+        summary: `${awaitingConfirmation(action)} Changes: ${changes
+          .map((c) => `${c.label}: "${c.before ?? ""}" → "${c.after}"`)
+          .join("; ")}.`,
+      };
+    });
+
+    return widget({
+      props: { job: snapshot(job), patientName: label, patientId: patient_id },
+      output: text(jobStarted(job, `prepare the update for ${label}`)),
+    });
+  }
+);
+
+// ── Tool 24: create-patient ───────────────────────────────────────────
+server.tool(
+  {
+    name: "create-patient",
+    description:
+      "Register a new patient. Opens a step-by-step form prefilled with whatever details are passed; the user completes it there. Before anything can be saved, existing patients with the same name and the same date of birth or phone number are looked up and shown, so the user can tell a new patient from one already on file. The patient is created in OpenDental only after the user confirms in the widget.",
+    schema: z.object({
+      ...patientFields,
+      gender: oneOf(GENDERS).optional(),
+      guarantor_id: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe(
+          "Patient id of the family member responsible for the account, to add the patient to their family; omit for a new family"
+        ),
+      carrier: z.string().optional().describe("Insurance carrier name"),
+      subscriber_id: z.string().optional().describe("Member or subscriber ID"),
+      group_number: z.string().optional(),
+      relationship_to_subscriber: oneOf(SUBSCRIBER_RELATIONSHIPS).optional(),
+      subscriber_name: z
+        .string()
+        .optional()
+        .describe("Policy holder's name, when not the patient"),
+      subscriber_birthdate: z
+        .string()
+        .optional()
+        .describe("Policy holder's date of birth, when not the patient"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    widget: {
+      name: "new-patient",
+      invoking: "Opening new patient form…",
+      invoked: "New patient form ready",
+    },
+  },
+  async ({ guarantor_id, ...fields }) => {
+    const patient = readNewPatient({
+      ...fields,
+      guarantor_id: guarantor_id != null ? String(guarantor_id) : undefined,
+    });
+    if (typeof patient === "string") return error(patient);
+    const missing = missingForNewPatient(patient);
+    if (missing.length) {
+      return widget({
+        props: { patient, missing },
+        output: text(
+          `Opened the new patient form. Still needed: ${missing.join(", ")}. Ask the user for these or let them fill in the form; it checks for existing records before anything is saved.`
+        ),
+      });
+    }
+
+    const name = `${patient.first_name} ${patient.last_name}`;
+    const phones = [
+      patient.wireless_phone,
+      patient.home_phone,
+      patient.work_phone,
+    ].filter((ph): ph is string => !!ph);
+
+    const job = jobs.start("create-patient", async (hooks) => {
+      // The backend search matches loosely on any one field, so search once
+      // per phone and keep only real duplicates
+      const searches = phones.length
+        ? phones.map((phone, i) =>
+            i === 0 ? { name, birthdate: patient.birthdate, phone } : { phone }
+          )
+        : [{ name, birthdate: patient.birthdate }];
+      const found: Patient[] = [];
+      for (const search of searches) {
+        const json = await callBackend("/api/patients/search", {
+          params: toParams(search),
+          timeoutMs: TOOL_TIMEOUTS["create-patient"],
+          ...hooks,
+          idempotent: true,
+        });
+        const data = parseBackend(
+          patientListSchema,
+          json.data ?? json,
+          "patient search"
+        );
+        found.push(...(data.patients ?? []));
+      }
+      const duplicates = findDuplicates(found, { ...patient, phones });
+
+      const action = confirmations.create(
+        "create-patient",
+        `add ${name}, born ${patient.birthdate}, as a new patient`,
+        async (hooks, token) => {
+          const json = await callBackend("/api/patients/create", {
+            body: toParams({ ...patient, idempotency_key: token }),
+            timeoutMs: TOOL_TIMEOUTS["create-patient"],
+            ...hooks,
+          });
+          const data = json.data ?? json;
+          const created = parseBackend(
+            patientSchema,
+            data.patient ?? data,
+            "patient"
+          );
+          forget("get-patients");
+
+          return {
+            props: { patient, duplicates, created },
+            summary: `Created ${name} as patient_id ${created.patient_id}. Pass that id to other tools for this patient.`,
+          };
+        }
+      );
+
+      const listed = duplicates
+        .map((d) => `${candidateLabel(d)} — ${d.match_reasons.join(", ")}`)
+        .join("\n");
+      return {
+        props: { patient, duplicates },
+        metadata: actionMetadata(action),
+        summary: duplicates.length
+          ? `${awaitingConfirmation(action)} Possible existing records:\n${listed}\nAsk the user whether the new patient is one of these before they confirm; use update-patient-info instead if so.`
+          : `${awaitingConfirmation(action)} No existing patient has the same name with the same date of birth or phone number.`,
+      };
+    });
+
+    return widget({
+      props: { job: snapshot(job), patient },
+      output: text(jobStarted(job, `check for existing records of ${name}`)),
+    });
+  }
+);
+
+// ── Tools 25–26: post-payment, add-adjustment ────────────────────────
+type LedgerTool = "post-payment" | "add-adjustment";
+
+interface LedgerEntry {
+  amount: number;
+  type: string;
+  date: string;
+  reference?: string;
+  note?: string;
+}
+
+// Ledger writes are keyed on what they post rather than on the confirmation
+// token, so a retried request confirmed twice still posts once. A genuine
+// second payment passes allow_duplicate and is keyed on its own token.
+function ledgerKey(
+  tool: LedgerTool,
+  patient: PatientRef,
+  entry: LedgerEntry,
+  splits: SplitRequest[]
+) {
+  return createHash("sha256")
+    .update(JSON.stringify([tool, patientParams(patient), entry, splits]))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function prepareLedgerEntry(
+  tool: LedgerTool,
+  patient: PatientRef,
+  entry: LedgerEntry,
+  requested: SplitRequest[],
+  allowDuplicate = false
+) {
+  const payment = tool === "post-payment";
+  const kind = payment ? "payment" : "adjustment";
+  const label = patientLabel(patient);
+  const key = allowDuplicate
+    ? undefined
+    : ledgerKey(tool, patient, entry, requested);
+
+  const job = jobs.start(tool, async (hooks) => {
+    const report = await loadReport(patient, hooks);
+    const info = report.patient_info;
+    const patientName =
+      [info?.first_name, info?.last_name].filter(Boolean).join(" ") || label;
+    const splits = resolveSplits(report, patientName, entry.amount, requested);
+    if (typeof splits === "string") throw new Error(splits);
+
+    const before = currentBalances(report, patientName);
+    // A payment lowers what each member owes; an adjustment's sign says
+    // which way it moves the balance
+    const after = projectBalances(
+      before,
+      patientName,
+      splits.map((s) => ({ ...s, amount: payment ? -s.amount : s.amount }))
+    );
+    const preview = { before, after };
+    // Two identical payments can both be genuine, so a match only warns
+    const alreadyPosted =
+      matchingEntries(report, entry.date, splits, payment).length > 0;
+    const details = {
+      kind,
+      entry,
+      splits,
+      preview,
+      alreadyPosted,
+      patientName,
+      patientId: patient.patient_id,
+    };
+    const what = payment
+      ? `${money(entry.amount)} ${entry.type.toLowerCase()} payment for ${patientName} dated ${entry.date}`
+      : `${money(Math.abs(entry.amount))} ${entry.type.toLowerCase()} ${entry.amount < 0 ? "credit" : "charge"} for ${patientName} dated ${entry.date}`;
+    const balanceChange = `patient balance ${money(before.patient_balance)} → ${money(after.patient_balance)}, family balance ${money(before.total_family_balance)} → ${money(after.total_family_balance)}`;
+
+    const action = confirmations.create(
+      tool,
+      `post a ${what}`,
+      async (hooks, token) => {
+        const json = await callBackend(
+          payment ? "/api/payments" : "/api/adjustments",
+          {
+            body: {
+              ...toParams({
+                ...patientParams(patient),
+                amount: entry.amount,
+                [payment ? "payment_type" : "adjustment_type"]: entry.type,
+                date: entry.date,
+                reference: entry.reference,
+                note: entry.note,
+                idempotency_key: key ?? token,
+              }),
+              splits,
+            },
+            timeoutMs: TOOL_TIMEOUTS[tool],
+            ...hooks,
+          }
+        );
+        const data = json.data ?? json;
+        const posted = parseBackend(
+          postedEntrySchema,
+          data.entry ?? data,
+          kind
+        );
+        forget("get-reports", "get-ar-aging");
+
+        const id = posted.entry_id != null ? ` (#${posted.entry_id})` : "";
+        // The backend answers a key it has seen with the first result
+        // rather than posting again
+        const replayed = data.replayed === true;
+        const balances = `Patient balance is now ${money(posted.patient_balance ?? after.patient_balance)}, family balance ${money(posted.total_family_balance ?? after.total_family_balance)}.`;
+        return {
+          props: { ...details, posted, replayed },
+          summary: replayed
+            ? `Not posted again: the same ${what} was already posted${id}. ${balances} If the patient really made a second ${kind}, prepare it again with allow_duplicate.`
+            : `Posted the ${what}${id}. ${balances}`,
+        };
+      }
+    );
+
+    return {
+      props: details,
+      metadata: actionMetadata(action),
+      summary:
+        `${awaitingConfirmation(action)} Once posted: ${balanceChange}.` +
+        (alreadyPosted
+          ? ` The ledger already has a matching ${kind} on ${entry.date}; ask the user whether this is a second one before they confirm.`
+          : ""),
+    };
+  });
+
+  return widget({
+    props: { job: snapshot(job), kind, entry, patientName: label },
+    output: text(jobStarted(job, `prepare the ${kind} for ${label}`)),
+  });
+}
+
+// Reads an entry date, defaulting to today
+function entryDate(date: string | undefined) {
+  return date ? normalizeDate(date) : today();
+}
+
+server.tool(
+  {
+    name: "post-payment",
+    description:
+      "Prepare a patient payment for the ledger, optionally split across family members or their procedures. Shows the patient and family balances as they will be after posting; the payment is posted in OpenDental only after the user confirms it in the widget. Identical requests (same patient, amount, type, date, reference and splits) post only once, so retrying is safe; give a different reference or set allow_duplicate to post a genuine second payment. The preview also warns when a matching payment is already on the ledger.",
+    schema: z.object({
+      ...patientRef,
+      amount: z.number().positive().describe("Payment amount in dollars"),
+      payment_type: oneOf(PAYMENT_TYPES),
+      payment_date: z
+        .string()
+        .optional()
+        .describe("YYYY-MM-DD; defaults to today"),
+      reference: z
+        .string()
+        .optional()
+        .describe("Check number or card transaction id"),
+      note: z.string().optional(),
+      splits: z
+        .array(
+          z.object({
+            amount: z.number().positive(),
+            patient_name: z
+              .string()
+              .optional()
+              .describe("Family member it pays toward; defaults to the patient"),
+            procedure_code: z
+              .string()
+              .optional()
+              .describe("Charge it pays toward, e.g. D2392"),
+            procedure_date: z
+              .string()
+              .optional()
+              .describe("Date of that charge, when the code appears more than once"),
+          })
+        )
+        .optional()
+        .describe(
+          "How to divide the payment; the amounts must add up to the total. Omit to apply it all to the patient."
+        ),
+      allow_duplicate: z
+        .boolean()
+        .optional()
+        .describe(
+          "Post even if an identical payment was already requested; only for a genuine second payment the user has confirmed"
+        ),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    widget: {
+      name: "ledger-entry",
+      invoking: "Preparing payment…",
+      invoked: "Review the payment",
+    },
+  },
+  async ({
+    amount,
+    payment_type,
+    payment_date,
+    reference,
+    note,
+    splits = [],
+    allow_duplicate,
+    ...patient
+  }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const date = entryDate(payment_date);
+    if (!date) {
+      return error(`Could not read date "${payment_date}". Use YYYY-MM-DD.`);
+    }
+    return prepareLedgerEntry(
+      "post-payment",
+      patient,
+      { amount, type: payment_type, date, reference, note },
+      splits,
+      allow_duplicate
+    );
+  }
+);
+
+server.tool(
+  {
+    name: "add-adjustment",
+    description:
+      "Prepare a ledger adjustment for a patient. Negative amounts lower what they owe (discounts, write-offs, courtesies); positive amounts add to it (finance or billing charges). Shows the patient and family balances as they will be after posting; the adjustment is posted only after the user confirms it in the widget. Identical requests post only once, so retrying is safe; set allow_duplicate to post a genuine second adjustment. The preview also warns when a matching adjustment is already on the ledger.",
+    schema: z.object({
+      ...patientRef,
+      amount: z
+        .number()
+        .refine((v) => v !== 0, { message: "Amount cannot be zero" })
+        .describe("Dollars; negative to credit the account, positive to charge it"),
+      adjustment_type: oneOf(ADJUSTMENT_TYPES),
+      adjustment_date: z
+        .string()
+        .optional()
+        .describe("YYYY-MM-DD; defaults to today"),
+      procedure_code: z
+        .string()
+        .optional()
+        .describe("Charge the adjustment is attached to, e.g. D2392"),
+      procedure_date: z
+        .string()
+        .optional()
+        .describe("Date of that charge, when the code appears more than once"),
+      note: z.string().optional().describe("Reason, shown on the ledger"),
+      allow_duplicate: z
+        .boolean()
+        .optional()
+        .describe(
+          "Post even if an identical adjustment was already requested; only for a genuine second adjustment the user has confirmed"
+        ),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    widget: {
+      name: "ledger-entry",
+      invoking: "Preparing adjustment…",
+      invoked: "Review the adjustment",
+    },
+  },
+  async ({
+    amount,
+    adjustment_type,
+    adjustment_date,
+    procedure_code,
+    procedure_date,
+    note,
+    allow_duplicate,
+    ...patient
+  }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const date = entryDate(adjustment_date);
+    if (!date) {
+      return error(`Could not read date "${adjustment_date}". Use YYYY-MM-DD.`);
+    }
+    return prepareLedgerEntry(
+      "add-adjustment",
+      patient,
+      { amount, type: adjustment_type, date, note },
+      procedure_code ? [{ amount, procedure_code, procedure_date }] : [],
+      allow_duplicate
+    );
+  }
+);
+
+// ── Tool 27: generate-statement ───────────────────────────────────────
+// Generated PDFs are kept with the patient data in the encrypted cache for
+// as long as the job that made them, and served from there
+interface StoredStatement {
+  filename: string;
+  pdf: string;
+}
+
+const statementKey = (id: string) => `statement:${id}`;
+
+server.tool(
+  {
+    name: "generate-statement",
+    description:
+      "Generate a printable PDF statement of a patient's account, or their whole family's, from the OpenDental ledger: balance forward, charges and credits for the period, balance due and its aging, with the practice letterhead. Optionally shows what pending insurance claims are expected to pay. The widget offers the PDF for download; it is also readable as the statement:// resource named in the result.",
+    schema: z.object({
+      ...patientRef,
+      family: z
+        .boolean()
+        .optional()
+        .describe(
+          "Statement for the whole family, addressed to the guarantor, instead of the patient's own charges"
+        ),
+      from_date: z
+        .string()
+        .optional()
+        .describe("Start of the period, YYYY-MM-DD; omit for all activity on the ledger"),
+      to_date: z
+        .string()
+        .optional()
+        .describe("End of the period, YYYY-MM-DD; defaults to today"),
+      include_insurance_pending: z
+        .boolean()
+        .optional()
+        .describe(
+          "Show what unpaid claims are expected to pay and the estimated patient portion"
+        ),
+    }),
+    annotations: { readOnlyHint: true },
+    widget: {
+      name: "statement",
+      invoking: "Generating statement…",
+      invoked: "Statement ready",
+    },
+  },
+  async ({
+    family = false,
+    from_date,
+    to_date,
+    include_insurance_pending = false,
+    ...patient
+  }) => {
+    if (!patient.patient_name && patient.patient_id == null) {
+      return error(MISSING_PATIENT);
+    }
+    const fromDate = from_date ? normalizeDate(from_date) : undefined;
+    if (from_date && !fromDate) {
+      return error(`Could not read date "${from_date}". Use YYYY-MM-DD.`);
+    }
+    const toDate = to_date ? normalizeDate(to_date) : today();
+    if (!toDate) {
+      return error(`Could not read date "${to_date}". Use YYYY-MM-DD.`);
+    }
+    if (fromDate && fromDate > toDate) {
+      return error(`from_date ${fromDate} is after to_date ${toDate}.`);
+    }
+    const label = patientLabel(patient);
+
+    const job = jobs.start("generate-statement", async (hooks) => {
+      const report = await loadReport(patient, hooks);
+      const info = report.patient_info;
+      const patientName =
+        [info?.first_name, info?.last_name].filter(Boolean).join(" ") || label;
+      const statement = buildStatement(report, {
+        patientName,
+        family,
+        fromDate,
+        toDate,
+        statementDate: today(),
+        includeInsurancePending: include_insurance_pending,
+      });
+
+      const id = randomUUID();
+      const slug = statement.addressee.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+      const filename = `statement-${slug}-${toDate}.pdf`;
+      const pdf = renderStatement(statement, LETTERHEAD);
+      cache.set(
+        statementKey(id),
+        { filename, pdf: pdf.toString("base64") } satisfies StoredStatement,
+        JOB_RETENTION_MINUTES * 60_000
+      );
+      const resourceUri = `statement://${id}`;
+      const downloadUrl = `${BASE_URL}/statements/${id}`;
+
+      const insurance =
+        statement.insurance_pending != null
+          ? `, insurance pending ${money(statement.insurance_pending)}, estimated patient portion ${money(statement.estimated_patient_portion ?? statement.balance_due)}`
+          : "";
+      return {
+        props: {
+          statement,
+          filename,
+          resourceUri,
+          downloadUrl,
+          letterhead: LETTERHEAD.name,
+          patientName,
+          patientId: patient.patient_id,
+        },
+        summary: `${family ? "Family statement" : "Statement"} for ${statement.addressee} (${statementPeriod(statement)}): ${statement.lines.length} transaction(s), balance due ${money(statement.balance_due)}${insurance}. PDF (${Math.ceil(pdf.length / 1024)} KB) at ${downloadUrl} and as resource ${resourceUri}, available for ${JOB_RETENTION_MINUTES} minutes.`,
+      };
+    });
+
+    return widget({
+      props: {
+        job: snapshot(job),
+        patientName: label,
+        patientId: patient.patient_id,
+      },
+      output: text(jobStarted(job, `generate the statement for ${label}`)),
+    });
+  }
+);
+
+function storedStatement(id: string) {
+  return cache.get<StoredStatement>(statementKey(id))?.value;
+}
+
+server.resourceTemplate(
+  {
+    name: "statement",
+    uriTemplate: "statement://{statement_id}",
+    title: "Patient statement",
+    description:
+      "PDF statement made by generate-statement, kept for as long as the job's result",
+    mimeType: "application/pdf",
+  },
+  async (_uri: URL, { statement_id }: Record<string, string>) => {
+    const stored = storedStatement(statement_id);
+    if (!stored) {
+      throw new Error(`Statement ${statement_id} not found or it has expired.`);
+    }
+    return binary(stored.pdf, "application/pdf");
+  }
+);
+
+// Download link for the widget. The id is a random UUID known only to
+// whoever generated the statement.
+server.app.get("/statements/:id", (c) => {
+  const stored = storedStatement(c.req.param("id"));
+  if (!stored) return c.text("Statement not found or it has expired.", 404);
+  return c.body(new Uint8Array(Buffer.from(stored.pdf, "base64")), 200, {
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `attachment; filename="${stored.filename}"`,
+    "Cache-Control": "no-store",
+  });
+});
+
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3000;
 console.log(`OpenDental MCP server running on port ${PORT}`);
 server.listen(PORT);
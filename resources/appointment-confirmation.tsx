@@ -0,0 +1,167 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useConfirmation } from "./shared/useConfirmation";
+import { ConfirmBar } from "./shared/ConfirmBar";
+
+const propsSchema = z.object({
+  appointment: z
+    .object({
+      appointment_id: z.number().nullable().optional(),
+      patient_name: z.string().nullable().optional(),
+      patient_id: z.number().nullable().optional(),
+      date: z.string().nullable().optional(),
+      time: z.string().nullable().optional(),
+      length_minutes: z.number().nullable().optional(),
+      provider: z.string().nullable().optional(),
+      operatory: z.string().nullable().optional(),
+      procedures: z.string().nullable().optional(),
+      notes: z.string().nullable().optional(),
+    })
+    .optional(),
+  reschedule: z.boolean().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Preview of an appointment to book or move, committed only when the user confirms",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    red: dark ? "#dc2626" : "#dc3545",
+    greenText: dark ? "#95d5b2" : "#155724",
+  };
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default function AppointmentConfirmationWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const { status, confirm, discard, isBusy, job, result, error } =
+    useConfirmation<Props>();
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Preparing appointment…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const appt = { ...props.appointment, ...result?.appointment };
+  const reschedule = props.reschedule;
+  const title = reschedule
+    ? `Move appointment #${appt.appointment_id}`
+    : "New appointment";
+  const doneLabel = reschedule
+    ? "Appointment moved."
+    : appt.appointment_id != null
+      ? `Booked as appointment #${appt.appointment_id}.`
+      : "Appointment booked.";
+
+  const rows: [string, React.ReactNode][] = [
+    ["Patient", appt.patient_name],
+    ["Date", appt.date && formatDate(appt.date)],
+    [
+      "Time",
+      appt.time &&
+        `${appt.time}${appt.length_minutes ? ` · ${appt.length_minutes} min` : ""}`,
+    ],
+    ["Provider", appt.provider],
+    ["Operatory", appt.operatory],
+    ["Procedures", appt.procedures],
+    ["Notes", appt.notes],
+  ];
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{title}</h2>
+          <span style={{ fontSize: 13, color: c.textSecondary }}>
+            {reschedule ? "New slot" : "Review before booking"}
+          </span>
+        </div>
+        <div style={{ padding: "8px 20px" }}>
+          {rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div
+                key={label}
+                style={{
+                  display: "flex",
+                  padding: "6px 0",
+                  fontSize: 14,
+                  borderBottom: `1px solid ${c.border}`,
+                }}
+              >
+                <span
+                  style={{ width: 110, flexShrink: 0, color: c.textSecondary }}
+                >
+                  {label}
+                </span>
+                <span style={{ fontWeight: label === "Patient" ? 600 : 400 }}>
+                  {value}
+                </span>
+              </div>
+            ))}
+        </div>
+        <ConfirmBar
+          status={status}
+          onConfirm={confirm}
+          onDiscard={discard}
+          isBusy={isBusy}
+          job={job}
+          error={error}
+          doneLabel={doneLabel}
+          confirmLabel={reschedule ? "Move appointment" : "Book appointment"}
+          colors={c}
+        />
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,437 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import {
+  AGING_BUCKETS,
+  agingBucketSchema,
+  familyAgingSchema,
+  type AgingBucketKey,
+  type FamilyAging,
+} from "../src/schemas/aging";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  families: z.array(familyAgingSchema).optional(),
+  buckets: z.array(agingBucketSchema).optional(),
+  filters: z
+    .object({
+      billing_type: z.string().optional(),
+      provider: z.string().optional(),
+    })
+    .optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Practice A/R aging by 0–30/31–60/61–90/90+ day bucket split into patient and insurance, drilling down to families and their patient reports",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    rowHover: dark ? "#1e2d4a" : "#f5f8ff",
+    patient: dark ? "#f4a261" : "#e76f51",
+    insurance: dark ? "#4a9eff" : "#0066cc",
+    red: dark ? "#dc2626" : "#dc3545",
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `$${Number(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+function split(f: FamilyAging, key: AgingBucketKey) {
+  const s = f.aging[key];
+  const patient = s?.patient ?? 0;
+  const insurance = s?.insurance ?? 0;
+  return { patient, insurance, total: patient + insurance };
+}
+
+function familyTotal(f: FamilyAging) {
+  return AGING_BUCKETS.reduce((t, b) => t + split(f, b.key).total, 0);
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function ArAgingWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-ar-aging",
+    { ...props?.filters }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const families = data?.families ?? source?.families;
+  const buckets = data?.buckets ?? source?.buckets;
+  const asOf = data?.asOf ?? source?.asOf;
+  const filters = props?.filters;
+  const [bucketKey, setBucketKey] = useState<AgingBucketKey>();
+  const [familyId, setFamilyId] = useState<number>();
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Running the aging report…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  if (!families || !buckets) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Running the aging report"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const grandTotal = buckets.reduce((t, b) => t + b.total, 0);
+  const bucket = buckets.find((b) => b.key === bucketKey);
+  const family = families.find((f) => f.guarantor_id === familyId);
+
+  const splitBar = (patient: number, insurance: number) => {
+    const total = patient + insurance || 1;
+    return (
+      <div
+        style={{
+          display: "flex",
+          height: 6,
+          borderRadius: 3,
+          overflow: "hidden",
+          backgroundColor: c.border,
+          marginTop: 6,
+        }}
+      >
+        <div style={{ width: `${(patient / total) * 100}%`, background: c.patient }} />
+        <div
+          style={{ width: `${(insurance / total) * 100}%`, background: c.insurance }}
+        />
+      </div>
+    );
+  };
+
+  const crumb = (label: string, onClick?: () => void) => (
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      style={{
+        padding: 0,
+        border: "none",
+        background: "none",
+        fontSize: 13,
+        fontWeight: 600,
+        color: onClick ? c.accent : c.text,
+        cursor: onClick ? "pointer" : "default",
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  const td: React.CSSProperties = {
+    padding: "10px 12px",
+    fontSize: 13,
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const th: React.CSSProperties = {
+    ...td,
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    backgroundColor: c.card,
+    textAlign: "left",
+  };
+  const right: React.CSSProperties = { textAlign: "right" };
+
+  // ── Level 1: bucket cards ───────────────────────────────────────────
+  const renderBuckets = () => (
+    <div style={{ display: "flex", gap: 10, flexWrap: "wrap", padding: 20 }}>
+      {buckets.map((b) => (
+        <button
+          key={b.key}
+          onClick={() => setBucketKey(b.key as AgingBucketKey)}
+          style={{
+            flex: "1 1 150px",
+            textAlign: "left",
+            padding: "12px 14px",
+            borderRadius: 8,
+            border: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            color: c.text,
+            cursor: "pointer",
+          }}
+        >
+          <div style={{ fontSize: 12, color: c.textSecondary }}>
+            {b.label} days · {b.families} famil{b.families === 1 ? "y" : "ies"}
+          </div>
+          <div
+            style={{
+              fontSize: 20,
+              fontWeight: 700,
+              marginTop: 4,
+              color: b.key === "days_over_90" && b.total > 0 ? c.red : c.text,
+            }}
+          >
+            {fmt(b.total)}
+          </div>
+          {splitBar(b.patient, b.insurance)}
+          <div style={{ fontSize: 11, color: c.textSecondary, marginTop: 6 }}>
+            <span style={{ color: c.patient }}>●</span> Patient {fmt(b.patient)}
+            <br />
+            <span style={{ color: c.insurance }}>●</span> Insurance{" "}
+            {fmt(b.insurance)}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+
+  // ── Level 2: families in a bucket ───────────────────────────────────
+  const renderFamilies = (key: AgingBucketKey) => {
+    const rows = families
+      .map((f) => ({ f, s: split(f, key) }))
+      .filter(({ s }) => s.total !== 0)
+      .sort((a, b) => b.s.total - a.s.total);
+    return (
+      <div style={{ overflowX: "auto", maxHeight: 520, overflowY: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 620 }}>
+          <thead style={{ position: "sticky", top: 0 }}>
+            <tr>
+              <th style={th}>Family</th>
+              <th style={th}>Billing type</th>
+              <th style={{ ...th, ...right }}>Patient</th>
+              <th style={{ ...th, ...right }}>Insurance</th>
+              <th style={{ ...th, ...right }}>In bucket</th>
+              <th style={{ ...th, ...right }}>All A/R</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ f, s }, i) => (
+              <tr
+                key={f.guarantor_id ?? i}
+                onClick={() => setFamilyId(f.guarantor_id ?? undefined)}
+                style={{ cursor: "pointer" }}
+                onMouseEnter={(e) => (e.currentTarget.style.background = c.rowHover)}
+                onMouseLeave={(e) =>
+                  (e.currentTarget.style.background = "transparent")
+                }
+              >
+                <td style={td}>
+                  <div style={{ fontWeight: 600 }}>{f.guarantor_name}</div>
+                  <div style={{ fontSize: 12, color: c.textSecondary }}>
+                    {[f.provider, f.phone].filter(Boolean).join(" · ")}
+                  </div>
+                </td>
+                <td style={td}>{f.billing_type ?? "—"}</td>
+                <td style={{ ...td, ...right }}>{fmt(s.patient)}</td>
+                <td style={{ ...td, ...right }}>{fmt(s.insurance)}</td>
+                <td style={{ ...td, ...right, fontWeight: 600 }}>{fmt(s.total)}</td>
+                <td style={{ ...td, ...right, color: c.textSecondary }}>
+                  {fmt(familyTotal(f))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  // ── Level 3: one family ─────────────────────────────────────────────
+  const renderFamily = (f: FamilyAging) => (
+    <div style={{ padding: 20 }}>
+      <div style={{ fontSize: 13, color: c.textSecondary, marginBottom: 12 }}>
+        {[
+          f.billing_type,
+          f.provider,
+          f.phone,
+          f.last_payment_date
+            ? `Last payment ${f.last_payment_date}`
+            : "No payment on file",
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </div>
+      <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: 16 }}>
+        <thead>
+          <tr>
+            <th style={th}>Bucket</th>
+            <th style={{ ...th, ...right }}>Patient</th>
+            <th style={{ ...th, ...right }}>Insurance</th>
+            <th style={{ ...th, ...right }}>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {AGING_BUCKETS.map((b) => {
+            const s = split(f, b.key);
+            return (
+              <tr key={b.key}>
+                <td style={td}>{b.label} days</td>
+                <td style={{ ...td, ...right }}>{fmt(s.patient)}</td>
+                <td style={{ ...td, ...right }}>{fmt(s.insurance)}</td>
+                <td style={{ ...td, ...right, fontWeight: 600 }}>{fmt(s.total)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div style={{ fontSize: 12, fontWeight: 600, color: c.textSecondary }}>
+        FAMILY MEMBERS
+      </div>
+      {(f.members ?? []).map((m, i) => (
+        <div
+          key={m.patient_id ?? i}
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            padding: "8px 0",
+            borderBottom: `1px solid ${c.border}`,
+            fontSize: 13,
+          }}
+        >
+          <span>{m.name}</span>
+          <span style={{ display: "flex", gap: 12, alignItems: "center" }}>
+            <span style={{ fontWeight: 600 }}>{fmt(m.balance)}</span>
+            <button
+              onClick={() =>
+                sendFollowUpMessage(
+                  `Show the full report for ${patientRef({
+                    patient_name: m.name ?? "",
+                    patient_id: m.patient_id,
+                  })}`
+                )
+              }
+              style={{
+                padding: "4px 10px",
+                fontSize: 12,
+                fontWeight: 600,
+                border: "none",
+                borderRadius: 4,
+                cursor: "pointer",
+                backgroundColor: c.accent,
+                color: "#fff",
+              }}
+            >
+              Report
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const subtitle = [filters?.billing_type, filters?.provider]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              A/R aging · {fmt(grandTotal)}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {families.length} famil{families.length === 1 ? "y" : "ies"}
+              {subtitle && ` · ${subtitle}`}
+            </span>
+          </div>
+          <DataStamp
+            asOf={asOf}
+            onRefresh={refresh}
+            isRefreshing={isRefreshing}
+            error={refreshError}
+            colors={c}
+          />
+        </div>
+        {bucket && (
+          <div
+            style={{
+              padding: "10px 20px",
+              borderBottom: `1px solid ${c.border}`,
+              display: "flex",
+              gap: 6,
+              alignItems: "center",
+              fontSize: 13,
+              color: c.textSecondary,
+            }}
+          >
+            {crumb("All buckets", () => {
+              setBucketKey(undefined);
+              setFamilyId(undefined);
+            })}
+            ›
+            {crumb(
+              `${bucket.label} days`,
+              family ? () => setFamilyId(undefined) : undefined
+            )}
+            {family && <>› {crumb(`${family.guarantor_name} family`)}</>}
+          </div>
+        )}
+        {family
+          ? renderFamily(family)
+          : bucket
+            ? renderFamilies(bucket.key as AgingBucketKey)
+            : renderBuckets()}
+      </div>
+    </McpUseProvider>
+  );
+}
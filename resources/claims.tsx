@@ -0,0 +1,377 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import {
+  CLAIM_STATUSES,
+  trackedClaimSchema,
+  type TrackedClaim,
+} from "../src/schemas/claims";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  claims: z.array(trackedClaimSchema).optional(),
+  filters: z
+    .object({
+      status: z.string().optional(),
+      carrier: z.string().optional(),
+      min_age_days: z.number().optional(),
+      max_age_days: z.number().optional(),
+    })
+    .optional(),
+  outstandingDays: z.number().optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Practice-wide insurance claims dashboard by status and carrier, flagging claims outstanding too long; click a claim to open the patient's report",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+type Colors = ReturnType<typeof useColors>;
+type StatusTab = "all" | (typeof CLAIM_STATUSES)[number];
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    rowHover: dark ? "#1e2d4a" : "#f5f8ff",
+    tabInactive: dark ? "#2a2a4a" : "#e9ecef",
+    greenText: dark ? "#95d5b2" : "#155724",
+    greenBg: dark ? "#1b4332" : "#d4edda",
+    red: dark ? "#dc2626" : "#dc3545",
+    redBg: dark ? "#3d1f1f" : "#f8d7da",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    yellowText: dark ? "#fde68a" : "#856404",
+    blueBg: dark ? "#1e3a5f" : "#d1ecf1",
+    blueText: dark ? "#8ecae6" : "#0c5460",
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `$${Number(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+function statusOf(claim: TrackedClaim): StatusTab | undefined {
+  const s = (claim.status ?? "").toLowerCase();
+  return CLAIM_STATUSES.find((status) => s.includes(status));
+}
+
+function statusBadge(claim: TrackedClaim, c: Colors) {
+  const [bg, fg] = {
+    unsent: [c.yellowBg, c.yellowText],
+    sent: [c.blueBg, c.blueText],
+    received: [c.greenBg, c.greenText],
+    rejected: [c.redBg, c.red],
+    all: [c.tabInactive, c.textSecondary],
+  }[statusOf(claim) ?? "all"];
+  return (
+    <span
+      style={{
+        padding: "2px 8px",
+        borderRadius: 12,
+        fontSize: 11,
+        fontWeight: 600,
+        backgroundColor: bg,
+        color: fg,
+      }}
+    >
+      {claim.status ?? "Unknown"}
+    </span>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function ClaimsWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-claims",
+    { ...props?.filters, outstanding_days: props?.outstandingDays }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const claims = data?.claims ?? source?.claims;
+  const asOf = data?.asOf ?? source?.asOf;
+  const outstandingDays = source?.outstandingDays ?? 30;
+  const [tab, setTab] = useState<StatusTab>("all");
+  const [onlyOverdue, setOnlyOverdue] = useState(false);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Reading claims…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  if (!claims) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Reading claims"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const overdue = claims.filter((claim) => claim.overdue);
+  const open = claims.filter((claim) => statusOf(claim) !== "received");
+  const sum = (list: TrackedClaim[]) =>
+    list.reduce((t, claim) => t + (claim.amount ?? 0), 0);
+  const shown = claims.filter(
+    (claim) =>
+      (tab === "all" || statusOf(claim) === tab) &&
+      (!onlyOverdue || claim.overdue)
+  );
+  const count = (t: StatusTab) =>
+    t === "all"
+      ? claims.length
+      : claims.filter((claim) => statusOf(claim) === t).length;
+
+  const stat = (label: string, value: string, alert = false) => (
+    <div
+      style={{
+        flex: "1 1 140px",
+        padding: "10px 14px",
+        borderRadius: 8,
+        backgroundColor: alert ? c.redBg : c.card,
+        border: `1px solid ${c.border}`,
+      }}
+    >
+      <div style={{ fontSize: 11, color: alert ? c.red : c.textSecondary }}>
+        {label}
+      </div>
+      <div
+        style={{
+          fontSize: 17,
+          fontWeight: 700,
+          marginTop: 2,
+          color: alert ? c.red : c.text,
+        }}
+      >
+        {value}
+      </div>
+    </div>
+  );
+
+  const th: React.CSSProperties = {
+    padding: "8px 12px",
+    textAlign: "left",
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    borderBottom: `1px solid ${c.border}`,
+    backgroundColor: c.card,
+    whiteSpace: "nowrap",
+  };
+  const td: React.CSSProperties = {
+    padding: "10px 12px",
+    fontSize: 13,
+    borderBottom: `1px solid ${c.border}`,
+  };
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Insurance claims
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {[props.filters?.carrier, `Outstanding after ${outstandingDays} days`]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </div>
+          <DataStamp
+            asOf={asOf}
+            onRefresh={refresh}
+            isRefreshing={isRefreshing}
+            error={refreshError}
+            colors={c}
+          />
+        </div>
+
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", padding: "16px 20px 8px" }}>
+          {stat("Not yet paid", `${open.length} · ${fmt(sum(open))}`)}
+          {stat(
+            `Outstanding over ${outstandingDays} days`,
+            `${overdue.length} · ${fmt(sum(overdue))}`,
+            overdue.length > 0
+          )}
+          {stat(
+            "Rejected",
+            String(claims.filter((claim) => statusOf(claim) === "rejected").length)
+          )}
+        </div>
+
+        <div
+          style={{
+            display: "flex",
+            gap: 6,
+            padding: "8px 20px 12px",
+            flexWrap: "wrap",
+            alignItems: "center",
+          }}
+        >
+          {(["all", ...CLAIM_STATUSES] as StatusTab[]).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              style={{
+                padding: "4px 12px",
+                fontSize: 12,
+                fontWeight: 600,
+                border: "none",
+                borderRadius: 16,
+                cursor: "pointer",
+                textTransform: "capitalize",
+                backgroundColor: tab === t ? c.accent : c.tabInactive,
+                color: tab === t ? "#fff" : c.textSecondary,
+              }}
+            >
+              {t} ({count(t)})
+            </button>
+          ))}
+          <label
+            style={{
+              marginLeft: "auto",
+              fontSize: 12,
+              color: c.textSecondary,
+              cursor: "pointer",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={onlyOverdue}
+              onChange={(e) => setOnlyOverdue(e.target.checked)}
+              style={{ marginRight: 6 }}
+            />
+            Only outstanding over {outstandingDays} days
+          </label>
+        </div>
+
+        {shown.length === 0 ? (
+          <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+            No claims match.
+          </div>
+        ) : (
+          <div style={{ overflowX: "auto", maxHeight: 520, overflowY: "auto" }}>
+            <table
+              style={{ width: "100%", borderCollapse: "collapse", minWidth: 720 }}
+            >
+              <thead style={{ position: "sticky", top: 0 }}>
+                <tr>
+                  {["Patient", "Carrier", "Service date", "Age", "Status"].map(
+                    (h) => (
+                      <th key={h} style={th}>
+                        {h}
+                      </th>
+                    )
+                  )}
+                  {["Amount", "Est. payment"].map((h) => (
+                    <th key={h} style={{ ...th, textAlign: "right" }}>
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((claim, i) => (
+                  <tr
+                    key={claim.claim_id ?? i}
+                    title="Open the patient's report"
+                    onClick={() =>
+                      sendFollowUpMessage(
+                        `Show the full report for ${patientRef({
+                          patient_name: claim.patient_name ?? "",
+                          patient_id: claim.patient_id,
+                        })}`
+                      )
+                    }
+                    style={{
+                      cursor: "pointer",
+                      backgroundColor: claim.overdue ? c.redBg : "transparent",
+                    }}
+                  >
+                    <td style={{ ...td, fontWeight: 600 }}>{claim.patient_name}</td>
+                    <td style={td}>{claim.carrier ?? "—"}</td>
+                    <td style={td}>{claim.date ?? "—"}</td>
+                    <td
+                      style={{
+                        ...td,
+                        fontWeight: claim.overdue ? 700 : 400,
+                        color: claim.overdue ? c.red : c.text,
+                      }}
+                    >
+                      {claim.age_days != null ? `${claim.age_days} d` : "—"}
+                      {claim.overdue && " ⚑"}
+                    </td>
+                    <td style={td}>{statusBadge(claim, c)}</td>
+                    <td style={{ ...td, textAlign: "right" }}>{fmt(claim.amount)}</td>
+                    <td style={{ ...td, textAlign: "right" }}>
+                      {fmt(claim.estimated_payment)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,234 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { useConfirmation } from "./shared/useConfirmation";
+import { ConfirmBar } from "./shared/ConfirmBar";
+import {
+  noteSectionSchema,
+  savedNoteSchema,
+  type NoteSection,
+} from "../src/schemas/notes";
+import { noteText } from "../src/notes";
+
+const propsSchema = z.object({
+  sections: z.array(noteSectionSchema).optional(),
+  saved: savedNoteSchema.optional(),
+  patientName: z.string(),
+  patientId: z.number().optional(),
+  noteDate: z.string().optional(),
+  provider: z.string().optional(),
+  job: jobSchema.optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Draft progress note drawn from the patient's chart, editable section by section and saved only when the user confirms",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    inputBg: dark ? "#0f1629" : "#ffffff",
+    red: dark ? "#dc2626" : "#dc3545",
+    greenText: dark ? "#95d5b2" : "#155724",
+    yellowText: dark ? "#fde68a" : "#856404",
+  };
+}
+
+export default function ClinicalNoteWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const { job, data, metadata, error, cancel, isCancelling } = useJob<Props>(
+    props?.job
+  );
+  const draft = data ?? props;
+  const confirmation = useConfirmation<Props>(metadata);
+  // Section text keyed by heading, once the user has typed in it
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Drafting progress note…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const patientName = draft.patientName;
+  const sections = draft.sections;
+
+  if (!sections) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Drafting a progress note for ${patientName}`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const saved = confirmation.result;
+  const editing = confirmation.status === "pending";
+  const textOf = (s: NoteSection) => edits[s.heading] ?? s.text;
+  const changed = Object.fromEntries(
+    sections
+      .filter((s) => edits[s.heading] != null && edits[s.heading] !== s.text)
+      .map((s) => [s.heading, edits[s.heading]])
+  );
+  const edited = Object.keys(changed).length > 0;
+  const empty = sections.every((s) => !textOf(s).trim());
+
+  const meta = [
+    draft.noteDate,
+    draft.provider,
+    saved?.saved?.note_id != null && `Note #${saved.saved.note_id}`,
+  ].filter(Boolean);
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+            Progress note — {patientName}
+          </h2>
+          <span style={{ fontSize: 13, color: c.textSecondary }}>
+            {meta.join(" · ")}
+            {editing && (
+              <>
+                {meta.length > 0 && " · "}
+                Drafted from the chart; edit before saving
+              </>
+            )}
+          </span>
+        </div>
+
+        <div style={{ padding: "12px 20px" }}>
+          {saved ? (
+            // What the chart now holds, as the backend reported it
+            <pre
+              style={{
+                margin: 0,
+                fontFamily: "inherit",
+                fontSize: 14,
+                lineHeight: 1.5,
+                whiteSpace: "pre-wrap",
+              }}
+            >
+              {saved.saved?.text ?? noteText(saved.sections ?? [])}
+            </pre>
+          ) : (
+            sections.map((s) => (
+              <label key={s.heading} style={{ display: "block", marginBottom: 12 }}>
+                <div
+                  style={{
+                    fontSize: 12,
+                    fontWeight: 600,
+                    textTransform: "uppercase",
+                    color: c.textSecondary,
+                    marginBottom: 4,
+                  }}
+                >
+                  {s.heading}
+                  {edits[s.heading] != null && edits[s.heading] !== s.text && (
+                    <span
+                      style={{
+                        marginLeft: 8,
+                        fontWeight: 400,
+                        textTransform: "none",
+                        color: c.yellowText,
+                      }}
+                    >
+                      edited
+                    </span>
+                  )}
+                </div>
+                <textarea
+                  value={textOf(s)}
+                  disabled={!editing}
+                  placeholder={`Nothing from the chart for ${s.heading}`}
+                  rows={Math.max(2, textOf(s).split("\n").length + 1)}
+                  onChange={(e) =>
+                    setEdits({ ...edits, [s.heading]: e.target.value })
+                  }
+                  style={{
+                    width: "100%",
+                    boxSizing: "border-box",
+                    padding: "8px 10px",
+                    fontFamily: "inherit",
+                    fontSize: 14,
+                    lineHeight: 1.5,
+                    color: c.text,
+                    backgroundColor: c.inputBg,
+                    border: `1px solid ${c.border}`,
+                    borderRadius: 6,
+                    resize: "vertical",
+                  }}
+                />
+              </label>
+            ))
+          )}
+          {editing && empty && (
+            <div style={{ fontSize: 13, color: c.red }}>
+              The note is empty. Add text to at least one section to save it.
+            </div>
+          )}
+        </div>
+
+        <ConfirmBar
+          status={confirmation.status}
+          onConfirm={() => {
+            if (!empty) confirmation.confirm(edited ? changed : undefined);
+          }}
+          onDiscard={confirmation.discard}
+          isBusy={confirmation.isBusy}
+          job={confirmation.job}
+          error={confirmation.error}
+          doneLabel="Saved to the chart."
+          confirmLabel={edited ? "Save edited note" : "Save note"}
+          colors={c}
+        />
+      </div>
+    </McpUseProvider>
+  );
+}
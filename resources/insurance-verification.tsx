@@ -0,0 +1,378 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import {
+  coverageReviewSchema,
+  type CoverageReview,
+  type VerifiedPlan,
+} from "../src/schemas/insurance";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  patients: z.array(coverageReviewSchema).optional(),
+  request: z
+    .object({
+      patientName: z.string().optional(),
+      patientId: z.number().optional(),
+      date: z.string().optional(),
+    })
+    .optional(),
+  staleDays: z.number().optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Insurance eligibility and benefits check for a patient or a day's schedule, with coverage by category, remaining benefits and flags for stale or incomplete plan data",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+type Colors = ReturnType<typeof useColors>;
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    tabInactive: dark ? "#2a2a4a" : "#e9ecef",
+    green: dark ? "#2d6a4f" : "#28a745",
+    greenText: dark ? "#95d5b2" : "#155724",
+    greenBg: dark ? "#1b4332" : "#d4edda",
+    red: dark ? "#dc2626" : "#dc3545",
+    redBg: dark ? "#3d1f1f" : "#f8d7da",
+    yellow: dark ? "#ca8a04" : "#ffc107",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    yellowText: dark ? "#fde68a" : "#856404",
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `$${Number(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+function statusBadge(status: string, c: Colors) {
+  const [label, bg, fg] =
+    status === "ok"
+      ? ["Verified", c.greenBg, c.greenText]
+      : status === "uninsured"
+        ? ["No insurance", c.redBg, c.red]
+        : ["Needs check", c.yellowBg, c.yellowText];
+  return (
+    <span
+      style={{
+        padding: "2px 8px",
+        borderRadius: 12,
+        fontSize: 11,
+        fontWeight: 600,
+        backgroundColor: bg,
+        color: fg,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {label}
+    </span>
+  );
+}
+
+function PlanSummary({
+  label,
+  plan,
+  colors: c,
+}: {
+  label: string;
+  plan: VerifiedPlan;
+  colors: Colors;
+}) {
+  const max = plan.annual_max;
+  const used = plan.insurance_used ?? 0;
+  const remaining = max != null ? Math.max(max - used, 0) : null;
+  const coverage = Object.entries(plan.coverage_percentages ?? {});
+  return (
+    <div style={{ marginTop: 10 }}>
+      <div style={{ fontSize: 13 }}>
+        <strong>{label}:</strong> {plan.carrier ?? "Unknown carrier"}
+        <span style={{ color: c.textSecondary }}>
+          {" "}
+          · {[plan.plan_type, plan.subscriber_id, plan.group_number]
+            .filter(Boolean)
+            .join(" · ")}
+        </span>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          gap: 16,
+          flexWrap: "wrap",
+          alignItems: "center",
+          marginTop: 6,
+          fontSize: 12,
+        }}
+      >
+        <div style={{ minWidth: 200 }}>
+          <div style={{ color: c.textSecondary }}>
+            Remaining {fmt(remaining)} of {fmt(max)}
+          </div>
+          {max != null && max > 0 && (
+            <div
+              style={{
+                height: 6,
+                borderRadius: 3,
+                backgroundColor: c.tabInactive,
+                marginTop: 4,
+                overflow: "hidden",
+              }}
+            >
+              <div
+                style={{
+                  width: `${((remaining ?? 0) / max) * 100}%`,
+                  height: "100%",
+                  backgroundColor: (remaining ?? 0) > max * 0.25 ? c.green : c.yellow,
+                }}
+              />
+            </div>
+          )}
+        </div>
+        <div style={{ color: c.textSecondary }}>
+          Deductible left {fmt(plan.deductible_remaining)}
+        </div>
+        <div style={{ color: c.textSecondary }}>
+          Verified {plan.benefits_verified_date ?? "never"}
+        </div>
+      </div>
+      {coverage.length > 0 && (
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 8 }}>
+          {coverage.map(([category, pct]) => (
+            <span
+              key={category}
+              style={{
+                padding: "2px 8px",
+                borderRadius: 4,
+                fontSize: 11,
+                backgroundColor: c.card,
+                border: `1px solid ${c.border}`,
+                textTransform: "capitalize",
+              }}
+            >
+              {category} <strong>{pct ?? "—"}</strong>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function InsuranceVerificationWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const request = props?.request;
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "verify-insurance",
+    {
+      patient_name: request?.patientName,
+      patient_id: request?.patientId,
+      date: request?.date,
+      stale_days: props?.staleDays,
+    }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const patients = data?.patients ?? source?.patients;
+  const asOf = data?.asOf ?? source?.asOf;
+  const [onlyFlagged, setOnlyFlagged] = useState(false);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Checking insurance…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const scope = request?.date
+    ? `Schedule for ${request.date}`
+    : (request?.patientName ?? `Patient #${request?.patientId}`);
+
+  if (!patients) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Checking insurance · ${scope}`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const flagged = patients.filter((p) => p.status !== "ok");
+  const shown = onlyFlagged ? flagged : patients;
+
+  const renderPatient = (p: CoverageReview, i: number) => (
+    <div
+      key={p.patient_id ?? i}
+      style={{ padding: "14px 20px", borderBottom: `1px solid ${c.border}` }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: 8,
+          flexWrap: "wrap",
+        }}
+      >
+        <div>
+          <button
+            onClick={() =>
+              sendFollowUpMessage(
+                `Show the full report for ${patientRef({
+                  patient_name: p.patient_name ?? "",
+                  patient_id: p.patient_id,
+                })}`
+              )
+            }
+            style={{
+              padding: 0,
+              border: "none",
+              background: "none",
+              fontSize: 15,
+              fontWeight: 600,
+              color: c.accent,
+              cursor: "pointer",
+            }}
+          >
+            {p.patient_name}
+          </button>
+          <span style={{ fontSize: 12, color: c.textSecondary, marginLeft: 8 }}>
+            {[p.appointment_time, p.provider].filter(Boolean).join(" · ")}
+          </span>
+        </div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          {p.remaining != null && (
+            <span style={{ fontSize: 13, fontWeight: 600 }}>
+              {fmt(p.remaining)} left
+            </span>
+          )}
+          {statusBadge(p.status, c)}
+        </div>
+      </div>
+      {p.primary && <PlanSummary label="Primary" plan={p.primary} colors={c} />}
+      {p.secondary && (
+        <PlanSummary label="Secondary" plan={p.secondary} colors={c} />
+      )}
+      {p.flags.length > 0 && (
+        <ul
+          style={{
+            margin: "10px 0 0",
+            padding: "8px 12px 8px 28px",
+            borderRadius: 6,
+            fontSize: 12,
+            backgroundColor: p.status === "uninsured" ? c.redBg : c.yellowBg,
+            color: p.status === "uninsured" ? c.red : c.yellowText,
+          }}
+        >
+          {p.flags.map((flag) => (
+            <li key={flag}>{flag}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Insurance check · {scope}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {patients.length} patient{patients.length === 1 ? "" : "s"} ·{" "}
+              {flagged.length} need attention
+              {props.staleDays && ` · stale after ${props.staleDays} days`}
+            </span>
+          </div>
+          <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+            {patients.length > 1 && (
+              <label style={{ fontSize: 12, color: c.textSecondary, cursor: "pointer" }}>
+                <input
+                  type="checkbox"
+                  checked={onlyFlagged}
+                  onChange={(e) => setOnlyFlagged(e.target.checked)}
+                  style={{ marginRight: 6 }}
+                />
+                Needs attention only
+              </label>
+            )}
+            <DataStamp
+              asOf={asOf}
+              onRefresh={refresh}
+              isRefreshing={isRefreshing}
+              error={refreshError}
+              colors={c}
+            />
+          </div>
+        </div>
+        {shown.length === 0 ? (
+          <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+            {patients.length === 0
+              ? "Nobody is scheduled that day."
+              : "Every plan checks out."}
+          </div>
+        ) : (
+          shown.map(renderPatient)
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
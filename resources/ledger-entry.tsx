@@ -0,0 +1,321 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { useConfirmation } from "./shared/useConfirmation";
+import { ConfirmBar } from "./shared/ConfirmBar";
+import {
+  balancePreviewSchema,
+  ledgerSplitSchema,
+  postedEntrySchema,
+} from "../src/schemas/ledger";
+
+const propsSchema = z.object({
+  kind: z.enum(["payment", "adjustment"]),
+  entry: z.object({
+    amount: z.number(),
+    type: z.string(),
+    date: z.string(),
+    reference: z.string().optional(),
+    note: z.string().optional(),
+  }),
+  splits: z.array(ledgerSplitSchema).optional(),
+  preview: balancePreviewSchema.optional(),
+  // The ledger already has an entry like this one on the same date
+  alreadyPosted: z.boolean().optional(),
+  posted: postedEntrySchema.optional(),
+  // The same entry had already been posted, so nothing was posted again
+  replayed: z.boolean().optional(),
+  patientName: z.string(),
+  patientId: z.number().optional(),
+  job: jobSchema.optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Preview of a payment or adjustment with the patient and family balances it leaves, posted only when the user confirms",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    red: dark ? "#dc2626" : "#dc3545",
+    greenText: dark ? "#95d5b2" : "#155724",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    yellowText: dark ? "#fde68a" : "#856404",
+  };
+}
+
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `${v < 0 ? "-" : ""}$${Math.abs(Number(v)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+export default function LedgerEntryWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const { job, data, metadata, error, cancel, isCancelling } = useJob<Props>(
+    props?.job
+  );
+  const source = data ?? props;
+  const { status, confirm, discard, isBusy, ...commit } =
+    useConfirmation<Props>(metadata);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Preparing ledger entry…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const { kind, entry, patientName } = source;
+  const payment = kind === "payment";
+  const preview = source.preview;
+
+  if (!preview || !entry) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Reading ${patientName}'s account`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const posted = commit.result?.posted;
+  const { before, after } = preview;
+  const splits = source.splits ?? [];
+
+  const thStyle: React.CSSProperties = {
+    padding: "6px 10px",
+    textAlign: "left",
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const tdStyle: React.CSSProperties = {
+    padding: "7px 10px",
+    fontSize: 14,
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const money: React.CSSProperties = { ...tdStyle, textAlign: "right" };
+
+  const rows: [string, React.ReactNode][] = [
+    ["Patient", patientName],
+    [
+      "Amount",
+      payment
+        ? fmt(entry.amount)
+        : `${fmt(Math.abs(entry.amount))} ${entry.amount < 0 ? "credit" : "charge"}`,
+    ],
+    ["Type", entry.type],
+    ["Date", entry.date],
+    ["Reference", entry.reference],
+    ["Note", entry.note],
+  ];
+
+  // What the account shows once posted: OpenDental's figures after the
+  // write, the projection before it
+  const balanceRows: [string, number, number][] = [
+    [
+      "Patient balance",
+      before.patient_balance,
+      posted?.patient_balance ?? after.patient_balance,
+    ],
+    [
+      "Family balance",
+      before.total_family_balance,
+      posted?.total_family_balance ?? after.total_family_balance,
+    ],
+  ];
+  const members = after.family_balances.filter(
+    (f, i) =>
+      after.family_balances.length > 1 &&
+      f.balance !== before.family_balances[i]?.balance
+  );
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+            {payment ? "Post payment" : "Add adjustment"}
+          </h2>
+          <span style={{ fontSize: 13, color: c.textSecondary }}>
+            {posted?.entry_id != null
+              ? `${commit.result?.replayed ? "Already posted" : "Posted"} as entry #${posted.entry_id}`
+              : "Review before posting"}
+          </span>
+        </div>
+
+        <div style={{ padding: "8px 20px" }}>
+          {rows
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <div
+                key={label}
+                style={{
+                  display: "flex",
+                  padding: "6px 0",
+                  fontSize: 14,
+                  borderBottom: `1px solid ${c.border}`,
+                }}
+              >
+                <span style={{ width: 110, flexShrink: 0, color: c.textSecondary }}>
+                  {label}
+                </span>
+                <span style={{ fontWeight: label === "Amount" ? 600 : 400 }}>
+                  {value}
+                </span>
+              </div>
+            ))}
+        </div>
+
+        {(splits.length > 1 || splits.some((s) => s.procedure_code)) && (
+          <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 4 }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Applied to</th>
+                <th style={thStyle}>Procedure</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {splits.map((s, i) => (
+                <tr key={i}>
+                  <td style={tdStyle}>{s.patient_name}</td>
+                  <td style={tdStyle}>
+                    {s.procedure_code ? (
+                      <>
+                        <span style={{ fontFamily: "monospace", fontSize: 12 }}>
+                          {s.procedure_code}
+                        </span>
+                        {s.procedure_date && (
+                          <span style={{ color: c.textSecondary }}>
+                            {" "}
+                            · {s.procedure_date}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <span style={{ color: c.textSecondary }}>Account</span>
+                    )}
+                  </td>
+                  <td style={money}>{fmt(s.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Balance</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>Now</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>
+                {posted ? "After posting" : "Once posted"}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {balanceRows.map(([label, was, will]) => (
+              <tr key={label}>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>{label}</td>
+                <td style={{ ...money, color: c.textSecondary }}>{fmt(was)}</td>
+                <td style={{ ...money, fontWeight: 700 }}>{fmt(will)}</td>
+              </tr>
+            ))}
+            {members.map((m) => (
+              <tr key={m.name}>
+                <td style={{ ...tdStyle, paddingLeft: 22, color: c.textSecondary }}>
+                  {m.name}
+                </td>
+                <td style={{ ...money, color: c.textSecondary }}>
+                  {fmt(before.family_balances.find((f) => f.name === m.name)?.balance)}
+                </td>
+                <td style={money}>{fmt(m.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {source.alreadyPosted && !posted && (
+          <div
+            style={{
+              margin: "12px 20px 0",
+              padding: "10px 12px",
+              borderRadius: 6,
+              fontSize: 13,
+              backgroundColor: c.yellowBg,
+              color: c.yellowText,
+            }}
+          >
+            The ledger already has a matching {kind} on {entry.date}. Post this
+            only if it is a second {kind}.
+          </div>
+        )}
+
+        <ConfirmBar
+          status={status}
+          onConfirm={confirm}
+          onDiscard={discard}
+          isBusy={isBusy}
+          job={commit.job}
+          error={commit.error}
+          doneLabel={
+            commit.result?.replayed
+              ? "Already posted; nothing was posted again."
+              : payment
+                ? "Payment posted."
+                : "Adjustment posted."
+          }
+          confirmLabel={payment ? "Post payment" : "Post adjustment"}
+          colors={c}
+        />
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,477 @@
+import {
+  McpUseProvider,
+  useCallTool,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { useConfirmation } from "./shared/useConfirmation";
+import { ConfirmBar } from "./shared/ConfirmBar";
+import {
+  patientCandidateSchema,
+  patientSchema,
+} from "../src/schemas/patients";
+import {
+  GENDERS,
+  NEW_PATIENT_FIELDS,
+  PREFERRED_CONTACT_METHODS,
+  SUBSCRIBER_RELATIONSHIPS,
+  missingForNewPatient,
+  readNewPatient,
+  type NewPatient,
+  type NewPatientField,
+} from "../src/patient-info";
+
+const propsSchema = z.object({
+  patient: z.record(z.string(), z.string()).optional(),
+  missing: z.array(z.string()).optional(),
+  duplicates: z.array(patientCandidateSchema).optional(),
+  created: patientSchema.optional(),
+  job: jobSchema.optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Step-by-step new patient form that checks for existing records before the patient is created",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    inputBg: dark ? "#0f1629" : "#ffffff",
+    red: dark ? "#dc2626" : "#dc3545",
+    greenText: dark ? "#95d5b2" : "#155724",
+    greenBg: dark ? "#1b3a2a" : "#e6f4ea",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    yellowText: dark ? "#fde68a" : "#856404",
+  };
+}
+
+// ── Steps ─────────────────────────────────────────────────────────────
+
+const CHOICES: Partial<Record<NewPatientField, string[]>> = {
+  gender: GENDERS,
+  preferred_contact_method: PREFERRED_CONTACT_METHODS,
+  relationship_to_subscriber: SUBSCRIBER_RELATIONSHIPS,
+};
+
+const HINTS: Partial<Record<NewPatientField, string>> = {
+  birthdate: "YYYY-MM-DD",
+  subscriber_birthdate: "YYYY-MM-DD",
+  wireless_phone: "(503) 555-0142",
+  state: "OR",
+  guarantor_id: "Patient id; blank starts a new family",
+  primary_provider: "DOC1",
+};
+
+const STEPS: { title: string; fields: NewPatientField[] }[] = [
+  {
+    title: "Patient",
+    fields: [
+      "first_name",
+      "middle_name",
+      "last_name",
+      "preferred_name",
+      "title",
+      "gender",
+      "birthdate",
+    ],
+  },
+  {
+    title: "Contact",
+    fields: [
+      "wireless_phone",
+      "home_phone",
+      "work_phone",
+      "email",
+      "preferred_contact_method",
+    ],
+  },
+  { title: "Address", fields: ["street", "street2", "city", "state", "zip"] },
+  {
+    title: "Family & provider",
+    fields: [
+      "guarantor_id",
+      "primary_provider",
+      "secondary_provider",
+      "billing_type",
+    ],
+  },
+  {
+    title: "Insurance",
+    fields: [
+      "carrier",
+      "subscriber_id",
+      "group_number",
+      "relationship_to_subscriber",
+      "subscriber_name",
+      "subscriber_birthdate",
+    ],
+  },
+];
+const REVIEW = STEPS.length;
+
+function sameDetails(a: NewPatient, b: Record<string, string> | undefined) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b ?? {})]);
+  return [...keys].every(
+    (k) => (a[k as NewPatientField] ?? "") === (b?.[k] ?? "")
+  );
+}
+
+export default function NewPatientWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const { callToolAsync: checkPatient, isPending: isChecking } =
+    useCallTool("create-patient");
+  // Answer to the latest "Check for existing records", replacing the props
+  const [latest, setLatest] = useState<Props>();
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const source = latest ?? props;
+  const { job, data, metadata, error, cancel, isCancelling } = useJob<Props>(
+    source?.job
+  );
+  const current = data ?? source;
+  const confirmation = useConfirmation<Props>(metadata);
+  const [form, setForm] = useState<Record<string, string>>();
+  const [step, setStep] = useState<number>();
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Opening new patient form…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const values = form ?? source.patient ?? {};
+  const read = readNewPatient(values);
+  const invalid = typeof read === "string" ? read : null;
+  const details = typeof read === "string" ? undefined : read;
+  const missing = details ? missingForNewPatient(details) : [];
+  const ready = !!details && missing.length === 0;
+  // The duplicate check and the prepared write cover exactly what was sent;
+  // any edit since needs checking again
+  const checked = !!details && !!confirmation.action && sameDetails(details, current.patient);
+  const locked = confirmation.status !== "pending";
+  const duplicates = checked ? (current.duplicates ?? []) : [];
+  const shown = step ?? (source.missing?.length ? 0 : REVIEW);
+  const created = confirmation.result?.created;
+
+  const set = (field: NewPatientField, value: string) =>
+    setForm({ ...values, [field]: value });
+
+  const check = async () => {
+    if (!details) return;
+    setCheckError(null);
+    setAcknowledged(false);
+    try {
+      const { guarantor_id, ...rest } = details;
+      const res = await checkPatient({
+        ...rest,
+        guarantor_id: guarantor_id ? Number(guarantor_id) : undefined,
+      });
+      if (res.isError) setCheckError(res.result);
+      else setLatest(res.structuredContent as Props);
+    } catch (e: any) {
+      setCheckError(String(e?.message ?? e));
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    boxSizing: "border-box",
+    padding: "7px 10px",
+    fontFamily: "inherit",
+    fontSize: 14,
+    color: c.text,
+    backgroundColor: c.inputBg,
+    border: `1px solid ${c.border}`,
+    borderRadius: 6,
+  };
+  const button = (primary: boolean, disabled = false): React.CSSProperties => ({
+    padding: "8px 18px",
+    fontSize: 13,
+    fontWeight: 600,
+    borderRadius: 6,
+    border: `1px solid ${c.accent}`,
+    cursor: disabled ? "not-allowed" : "pointer",
+    backgroundColor: primary ? c.accent : "transparent",
+    color: primary ? "#fff" : c.accent,
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  const renderField = (field: NewPatientField) => {
+    const { label } = NEW_PATIENT_FIELDS[field];
+    const value = values[field] ?? "";
+    const choices = CHOICES[field];
+    return (
+      <label key={field} style={{ display: "block", fontSize: 12 }}>
+        <div style={{ color: c.textSecondary, marginBottom: 3 }}>
+          {label}
+          {missing.includes(label) && <span style={{ color: c.red }}> *</span>}
+        </div>
+        {choices ? (
+          <select
+            value={value}
+            disabled={locked}
+            onChange={(e) => set(field, e.target.value)}
+            style={inputStyle}
+          >
+            <option value="">—</option>
+            {choices.map((choice) => (
+              <option key={choice} value={choice}>
+                {choice}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            value={value}
+            disabled={locked}
+            placeholder={HINTS[field]}
+            onChange={(e) => set(field, e.target.value)}
+            style={inputStyle}
+          />
+        )}
+      </label>
+    );
+  };
+
+  const renderReview = () => (
+    <>
+      {STEPS.map(({ title, fields }) => {
+        const filled = fields.filter((f) => details?.[f] ?? values[f]);
+        if (!filled.length) return null;
+        return (
+          <div key={title} style={{ marginBottom: 10 }}>
+            <div
+              style={{
+                fontSize: 11,
+                fontWeight: 600,
+                textTransform: "uppercase",
+                color: c.textSecondary,
+                marginBottom: 2,
+              }}
+            >
+              {title}
+            </div>
+            {filled.map((f) => (
+              <div key={f} style={{ display: "flex", fontSize: 14, padding: "2px 0" }}>
+                <span style={{ width: 190, flexShrink: 0, color: c.textSecondary }}>
+                  {NEW_PATIENT_FIELDS[f].label}
+                </span>
+                <span>{details?.[f] ?? values[f]}</span>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      {(invalid || missing.length > 0) && (
+        <div style={{ fontSize: 13, color: c.red, marginTop: 8 }}>
+          {invalid ?? `Still needed: ${missing.join(", ")}.`}
+        </div>
+      )}
+      {checkError && (
+        <div style={{ fontSize: 13, color: c.red, marginTop: 8 }}>{checkError}</div>
+      )}
+
+      {ready && !checked && !locked && (
+        current.job && !confirmation.action && !error ? (
+          <JobProgress
+            label="Checking for existing records"
+            job={job}
+            error={error}
+            onCancel={cancel}
+            isCancelling={isCancelling}
+            colors={c}
+          />
+        ) : (
+          <div style={{ marginTop: 12 }}>
+            {error && (
+              <div style={{ fontSize: 13, color: c.red, marginBottom: 8 }}>
+                {error}
+              </div>
+            )}
+            <button
+              style={button(true, isChecking)}
+              disabled={isChecking}
+              onClick={check}
+            >
+              {confirmation.action ? "Check again" : "Check for existing records"}
+            </button>
+            <span style={{ marginLeft: 10, fontSize: 13, color: c.textSecondary }}>
+              Nothing is saved until you confirm.
+            </span>
+          </div>
+        )
+      )}
+
+      {checked && duplicates.length === 0 && !created && (
+        <div
+          style={{
+            marginTop: 12,
+            padding: "8px 12px",
+            borderRadius: 6,
+            fontSize: 13,
+            backgroundColor: c.greenBg,
+            color: c.greenText,
+          }}
+        >
+          No existing patient has the same name with the same date of birth or phone number.
+        </div>
+      )}
+      {duplicates.length > 0 && (
+        <div
+          style={{
+            marginTop: 12,
+            padding: "10px 12px",
+            borderRadius: 6,
+            fontSize: 13,
+            backgroundColor: c.yellowBg,
+            color: c.yellowText,
+          }}
+        >
+          <div style={{ fontWeight: 600, marginBottom: 4 }}>
+            Possible existing records
+          </div>
+          {duplicates.map((d) => (
+            <div key={d.patient_id ?? `${d.first_name}${d.last_name}`}>
+              {d.first_name} {d.last_name}
+              {d.patient_id != null && ` · #${d.patient_id}`}
+              {d.birthdate && ` · born ${d.birthdate}`}
+              {` · ${d.match_reasons.join(", ")}`}
+            </div>
+          ))}
+          {!locked && (
+            <label style={{ display: "block", marginTop: 8, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+              />{" "}
+              This is a different person; create a new patient anyway
+            </label>
+          )}
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+            New patient
+            {values.first_name || values.last_name
+              ? ` — ${values.first_name ?? ""} ${values.last_name ?? ""}`
+              : ""}
+          </h2>
+          <div style={{ display: "flex", gap: 4, marginTop: 10, flexWrap: "wrap" }}>
+            {[...STEPS.map((s) => s.title), "Review"].map((title, i) => (
+              <button
+                key={title}
+                onClick={() => setStep(i)}
+                style={{
+                  padding: "4px 10px",
+                  fontSize: 12,
+                  borderRadius: 12,
+                  cursor: "pointer",
+                  border: `1px solid ${i === shown ? c.accent : c.border}`,
+                  backgroundColor: i === shown ? c.accent : "transparent",
+                  color: i === shown ? "#fff" : c.textSecondary,
+                }}
+              >
+                {i + 1}. {title}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ padding: "14px 20px" }}>
+          {shown === REVIEW ? (
+            renderReview()
+          ) : (
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+                gap: 12,
+              }}
+            >
+              {STEPS[shown].fields.map(renderField)}
+            </div>
+          )}
+          {shown !== REVIEW && (
+            <div style={{ display: "flex", justifyContent: "space-between", marginTop: 16 }}>
+              <button
+                style={button(false, shown === 0)}
+                disabled={shown === 0}
+                onClick={() => setStep(shown - 1)}
+              >
+                Back
+              </button>
+              <button style={button(true)} onClick={() => setStep(shown + 1)}>
+                {shown === REVIEW - 1 ? "Review" : "Next"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {shown === REVIEW && checked && (
+          <ConfirmBar
+            status={confirmation.status}
+            onConfirm={confirmation.confirm}
+            onDiscard={confirmation.discard}
+            isBusy={confirmation.isBusy}
+            job={confirmation.job}
+            error={confirmation.error}
+            doneLabel={
+              created?.patient_id != null
+                ? `Created as patient #${created.patient_id}.`
+                : "Patient created."
+            }
+            confirmLabel="Create patient"
+            disabled={duplicates.length > 0 && !acknowledged}
+            colors={c}
+          />
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,246 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { patientRef } from "./shared/patientRef";
+import {
+  patientCandidateSchema,
+  type PatientCandidate,
+} from "../src/schemas/patients";
+
+const propsSchema = z.object({
+  candidates: z.array(patientCandidateSchema).optional(),
+  query: z
+    .object({
+      name: z.string().optional(),
+      birthdate: z.string().optional(),
+      phone: z.string().optional(),
+      patient_id: z.number().optional(),
+    })
+    .optional(),
+  job: jobSchema.optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Ranked patient matches for a search, to pick the right patient before opening their chart or report",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    rowHover: dark ? "#1e2d4a" : "#f5f8ff",
+    badgeBlue: dark ? "#1e3a5f" : "#d1ecf1",
+    badgeBlueText: dark ? "#8ecae6" : "#0c5460",
+    badgeGray: dark ? "#2d2d2d" : "#e9ecef",
+    badgeGrayText: dark ? "#adb5bd" : "#495057",
+  };
+}
+
+export default function PatientCandidatesWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(props?.job);
+  const candidates = data?.candidates ?? props?.candidates;
+  const query = props?.query ?? {};
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Searching patients…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  if (!candidates) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Searching patients"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const searched = [
+    query.name,
+    query.birthdate && `born ${query.birthdate}`,
+    query.phone,
+    query.patient_id != null && `#${query.patient_id}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const badge = (label: string, strong: boolean) => (
+    <span
+      key={label}
+      style={{
+        padding: "2px 8px",
+        borderRadius: 12,
+        fontSize: 11,
+        fontWeight: 600,
+        backgroundColor: strong ? c.badgeBlue : c.badgeGray,
+        color: strong ? c.badgeBlueText : c.badgeGrayText,
+      }}
+    >
+      {label}
+    </span>
+  );
+
+  const btnStyle: React.CSSProperties = {
+    padding: "4px 10px",
+    fontSize: 12,
+    fontWeight: 600,
+    border: "none",
+    borderRadius: 4,
+    cursor: "pointer",
+    backgroundColor: c.accent,
+    color: "#fff",
+  };
+
+  const renderCandidate = (p: PatientCandidate, i: number) => {
+    const phone = p.wireless_phone || p.home_phone || p.work_phone;
+    const details = [
+      p.birthdate && `Born ${p.birthdate}`,
+      p.age != null && `Age ${p.age}`,
+      phone,
+      p.city,
+      p.status,
+    ].filter(Boolean);
+
+    return (
+      <div
+        key={p.patient_id ?? i}
+        style={{
+          padding: "12px 20px",
+          borderBottom: `1px solid ${c.border}`,
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: 12,
+          flexWrap: "wrap",
+        }}
+        onMouseEnter={(e) => (e.currentTarget.style.background = c.rowHover)}
+        onMouseLeave={(e) =>
+          (e.currentTarget.style.background = "transparent")
+        }
+      >
+        <div>
+          <div style={{ fontSize: 15, fontWeight: 600 }}>
+            {p.first_name} {p.last_name}
+            {p.patient_id != null && (
+              <span
+                style={{
+                  marginLeft: 8,
+                  fontSize: 12,
+                  fontWeight: 400,
+                  color: c.textSecondary,
+                }}
+              >
+                #{p.patient_id}
+              </span>
+            )}
+          </div>
+          <div style={{ fontSize: 13, color: c.textSecondary, marginTop: 2 }}>
+            {details.join(" · ") || "No details on file"}
+          </div>
+          <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+            {p.match_reasons.map((r) =>
+              badge(r, r === "exact name" || r === "patient id")
+            )}
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 4 }}>
+          <button
+            style={btnStyle}
+            onClick={() =>
+              sendFollowUpMessage(`Show the dental chart for ${patientRef(p)}`)
+            }
+          >
+            Chart
+          </button>
+          <button
+            style={{
+              ...btnStyle,
+              backgroundColor: "transparent",
+              color: c.accent,
+              border: `1px solid ${c.accent}`,
+            }}
+            onClick={() =>
+              sendFollowUpMessage(`Show the full report for ${patientRef(p)}`)
+            }
+          >
+            Report
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+            {candidates.length === 1
+              ? "1 matching patient"
+              : `${candidates.length} matching patients`}
+          </h2>
+          <span style={{ fontSize: 13, color: c.textSecondary }}>
+            {candidates.length > 1
+              ? `Best match first · ${searched}`
+              : searched}
+          </span>
+        </div>
+        {candidates.length === 0 ? (
+          <div
+            style={{ padding: 40, textAlign: "center", color: c.textSecondary }}
+          >
+            No patients match. Try a date of birth or phone number instead.
+          </div>
+        ) : (
+          candidates.map(renderCandidate)
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -5,23 +5,62 @@ import {
   type WidgetMetadata,
 } from "mcp-use/react";
 import { z } from "zod";
-import { useState, useMemo } from "react";
+import { useEffect, useState, useMemo } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { ToothDiagram } from "./shared/ToothDiagram";
+import {
+  SURFACES,
+  buildOdontogram,
+  type Surface,
+  type ToothMarks,
+  type WorkStatus,
+} from "./shared/odontogram";
+import {
+  patientChartSchema,
+  type ChartProcedure,
+  type PatientChart,
+  type ToothCondition,
+} from "../src/schemas/chart";
+import {
+  PERMANENT_LOWER,
+  PERMANENT_UPPER,
+  PRIMARY_LOWER,
+  PRIMARY_UPPER,
+  NUMBERING_SYSTEMS,
+  archLayout,
+  formatTooth,
+  parseTooth,
+  quadrantLabel,
+  renumberText,
+  toothRef,
+  type ArchLayout,
+  type Tooth,
+} from "../src/teeth";
 
 // ── Schema ────────────────────────────────────────────────────────────
 const propsSchema = z.object({
-  chart: z.any(),
+  chart: patientChartSchema.optional(),
   patientName: z.string(),
+  patientId: z.number().optional(),
+  numbering: z.enum(NUMBERING_SYSTEMS).optional(),
+  selectedTooth: z.string().optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
 });
 
 export const widgetMetadata: WidgetMetadata = {
   description:
-    "Dental chart with tooth visualization, procedures, and clinical notes",
+    "Dental chart with a five-surface odontogram showing existing, planned and outside work, plus procedures and clinical notes",
   props: propsSchema,
   exposeAsTool: false,
 };
 
 type Props = z.infer<typeof propsSchema>;
 type Tab = "teeth" | "procedures" | "clinical";
+type Section<K extends keyof PatientChart> = NonNullable<PatientChart[K]>;
 
 // ── Colors ────────────────────────────────────────────────────────────
 function useColors() {
@@ -46,63 +85,119 @@ function useColors() {
     decay: dark ? "#dc2626" : "#dc3545",
     rootCanal: dark ? "#7c3aed" : "#6f42c1",
     implant: dark ? "#0d9488" : "#20c997",
+    sealant: dark ? "#0891b2" : "#17a2b8",
     other: dark ? "#a0a0a0" : "#6c757d",
   };
 }
 
-const CONDITION_MAP: Record<string, { label: string; key: string }> = {
-  healthy: { label: "Healthy", key: "healthy" },
-  missing: { label: "Missing", key: "missing" },
-  crown: { label: "Crown", key: "crown" },
-  filling: { label: "Filling", key: "filling" },
-  decay: { label: "Decay", key: "decay" },
-  "root canal": { label: "Root Canal", key: "rootCanal" },
-  rootcanal: { label: "Root Canal", key: "rootCanal" },
-  implant: { label: "Implant", key: "implant" },
+const KIND_LABELS: Record<string, string> = {
+  filling: "Filling",
+  decay: "Decay",
+  sealant: "Sealant",
+  other: "Other",
+  crown: "Crown",
+  rootCanal: "Root Canal",
+  implant: "Implant",
+  missing: "Missing",
 };
 
-function getConditionColor(
-  condition: string,
-  colors: ReturnType<typeof useColors>,
-) {
-  const key = CONDITION_MAP[condition.toLowerCase()]?.key ?? "other";
-  return (colors as any)[key] ?? colors.other;
-}
+const SURFACE_NAMES: Record<Surface, string> = {
+  M: "Mesial",
+  O: "Occlusal",
+  D: "Distal",
+  B: "Buccal",
+  L: "Lingual",
+};
+
+const STATUS_LABELS: Record<WorkStatus, string> = {
+  existing: "Existing",
+  planned: "Planned",
+  elsewhere: "Done elsewhere",
+};
+
+// Arch rows drawn top to bottom for each layout; in mixed dentition the
+// primary teeth sit inside the permanent ones, under their successors
+const ARCH_ROWS: Record<ArchLayout, { upper: string[][]; lower: string[][] }> = {
+  permanent: { upper: [PERMANENT_UPPER], lower: [PERMANENT_LOWER] },
+  primary: { upper: [PRIMARY_UPPER], lower: [PRIMARY_LOWER] },
+  mixed: {
+    upper: [PERMANENT_UPPER, PRIMARY_UPPER],
+    lower: [PRIMARY_LOWER, PERMANENT_LOWER],
+  },
+};
+
+const LAYOUT_LABELS: Record<ArchLayout, string> = {
+  permanent: "Permanent dentition",
+  primary: "Primary dentition",
+  mixed: "Mixed dentition",
+};
 
 // ── Component ─────────────────────────────────────────────────────────
 export default function PatientChartWidget() {
   const { props, isPending } = useWidget<Props>();
   const c = useColors();
   const [tab, setTab] = useState<Tab>("teeth");
-  const [selectedTooth, setSelectedTooth] = useState<number | null>(null);
+  const [selectedTooth, setSelectedTooth] = useState<string | null>(null);
   const [procFilter, setProcFilter] = useState<"all" | "completed" | "planned">(
     "all",
   );
 
-  const chart = props?.chart ?? {};
-  const patientName = props?.patientName ?? "Patient";
-  const info = chart?.patient_info ?? {};
-  const toothChart = chart?.tooth_chart ?? {};
-  const teethConditions: any[] = toothChart.teeth_with_conditions ?? [];
-  const procedures: any[] = chart?.procedures ?? [];
-  const procSummary = chart?.procedure_summary ?? {};
-  const clinical = chart?.clinical_explanation ?? {};
-  const summary = chart?.summary ?? {};
-  const quadrants = toothChart.quadrant_summary ?? {};
-
-  // Build tooth map (number → condition data)
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-patient-chart",
+    { patient_name: props?.patientName, patient_id: props?.patientId },
+  );
+
+  // Open on the tooth the model asked about
+  useEffect(() => {
+    if (props?.selectedTooth) setSelectedTooth(props.selectedTooth);
+  }, [props?.selectedTooth]);
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(
+    source?.job,
+  );
+  const loaded = data?.chart ?? source?.chart;
+  const asOf = data?.asOf ?? source?.asOf;
+  const numbering = data?.numbering ?? source?.numbering ?? "universal";
+  const chart: PatientChart = loaded ?? {};
+  const patientName =
+    data?.patientName ?? source?.patientName ?? "Patient";
+  const info: Section<"patient_info"> = chart.patient_info ?? {};
+  const toothChart: Section<"tooth_chart"> = chart.tooth_chart ?? {};
+  const teethConditions = toothChart.teeth_with_conditions ?? [];
+  const procedures = chart.procedures ?? [];
+  const procSummary: Section<"procedure_summary"> =
+    chart.procedure_summary ?? {};
+  const clinical: Section<"clinical_explanation"> =
+    chart.clinical_explanation ?? {};
+  const summary: Section<"summary"> = chart.summary ?? {};
+  const quadrants: NonNullable<Section<"tooth_chart">["quadrant_summary"]> =
+    toothChart.quadrant_summary ?? {};
+
+  // Build tooth map (universal tooth id → condition data)
   const toothMap = useMemo(() => {
-    const m: Record<number, any> = {};
-    teethConditions.forEach((t: any) => {
-      m[t.tooth_number] = t;
+    const m: Record<string, ToothCondition> = {};
+    teethConditions.forEach((t) => {
+      m[parseTooth(t.tooth_number)?.id ?? String(t.tooth_number)] = t;
     });
     return m;
   }, [teethConditions]);
 
+  // Which arches to draw follows the teeth on file
+  const layout = useMemo(
+    () => archLayout(teethConditions.map((t) => parseTooth(t.tooth_number))),
+    [teethConditions],
+  );
+
+  // Surface and glyph marks per tooth (number → odontogram marks)
+  const marks = useMemo(
+    () => buildOdontogram(teethConditions, procedures),
+    [teethConditions, procedures],
+  );
+
   // Filter procedures
   const filteredProcs = useMemo(() => {
     if (procFilter === "all") return procedures;
-    return procedures.filter((p: any) => {
+    return procedures.filter((p) => {
       const s = (p.status ?? "").toLowerCase();
       if (procFilter === "completed") return s.includes("complet");
       return s.includes("plan") || s.includes("tp");
@@ -121,6 +216,21 @@ export default function PatientChartWidget() {
     );
   }
 
+  if (!loaded) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Loading dental chart for ${patientName}`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
   const tabStyle = (t: Tab): React.CSSProperties => ({
     padding: "8px 20px",
     fontSize: 14,
@@ -155,26 +265,43 @@ export default function PatientChartWidget() {
 
   // ── Tooth Grid ────────────────────────────────────────────────────
   const renderToothGrid = () => {
-    const upper = Array.from({ length: 16 }, (_, i) => i + 1);
-    const lower = Array.from({ length: 16 }, (_, i) => 32 - i);
-
-    const renderTooth = (num: number) => {
-      const data = toothMap[num];
-      const condition = data?.condition?.toLowerCase() ?? "healthy";
-      const color = getConditionColor(condition, c);
-      const isSelected = selectedTooth === num;
+    const rows = ARCH_ROWS[layout];
+    const supernumerary = [
+      ...new Set([...Object.keys(toothMap), ...Object.keys(marks)]),
+    ]
+      .map(parseTooth)
+      .filter((t): t is Tooth => !!t?.supernumerary)
+      .sort((a, b) => Number(b.upper) - Number(a.upper) || a.slot - b.slot)
+      .map((t) => t.id);
+
+    const renderTooth = (id: string) => {
+      const tooth = parseTooth(id);
+      const isSelected = selectedTooth === id;
+      const isUpper = tooth?.upper ?? true;
+      const label = (
+        <span
+          style={{
+            fontSize: 10,
+            fontWeight: 600,
+            color: c.textSecondary,
+          }}
+        >
+          {formatTooth(id, numbering)}
+        </span>
+      );
 
       return (
         <div
-          key={num}
-          onClick={() => setSelectedTooth(isSelected ? null : num)}
+          key={id}
+          onClick={() => setSelectedTooth(isSelected ? null : id)}
           style={{
             width: 40,
-            height: 48,
+            height: 56,
             display: "flex",
             flexDirection: "column",
             alignItems: "center",
             justifyContent: "center",
+            gap: 1,
             cursor: "pointer",
             borderRadius: 6,
             border: isSelected
@@ -184,32 +311,37 @@ export default function PatientChartWidget() {
             transition: "all 0.15s",
           }}
         >
-          <div
-            style={{
-              width: 22,
-              height: 22,
-              borderRadius: condition === "missing" ? 4 : "50%",
-              backgroundColor: color,
-              opacity: condition === "missing" ? 0.4 : 1,
-              border:
-                condition === "missing" ? `2px dashed ${c.missing}` : "none",
-            }}
+          {!isUpper && label}
+          <ToothDiagram
+            id={id}
+            marks={marks[id]}
+            upper={isUpper}
+            mesialRight={tooth?.mesialRight ?? false}
+            colors={c}
           />
-          <span
-            style={{
-              fontSize: 10,
-              fontWeight: 600,
-              marginTop: 2,
-              color: c.textSecondary,
-            }}
-          >
-            {num}
-          </span>
+          {isUpper && label}
         </div>
       );
     };
 
     const selectedData = selectedTooth ? toothMap[selectedTooth] : null;
+    const selectedMarks = selectedTooth ? marks[selectedTooth] : undefined;
+    const selected = parseTooth(selectedTooth);
+
+    const renderRow = (ids: string[]) => (
+      <div
+        key={ids[0]}
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          gap: 2,
+          flexWrap: "wrap",
+          marginTop: 2,
+        }}
+      >
+        {ids.map(renderTooth)}
+      </div>
+    );
 
     return (
       <div>
@@ -223,17 +355,9 @@ export default function PatientChartWidget() {
           }}
         >
           Upper Arch
+          {layout !== "permanent" && <> · {LAYOUT_LABELS[layout]}</>}
         </div>
-        <div
-          style={{
-            display: "flex",
-            justifyContent: "center",
-            gap: 2,
-            flexWrap: "wrap",
-          }}
-        >
-          {upper.map(renderTooth)}
-        </div>
+        {rows.upper.map(renderRow)}
 
         <div
           style={{
@@ -243,16 +367,7 @@ export default function PatientChartWidget() {
         />
 
         {/* Lower arch */}
-        <div
-          style={{
-            display: "flex",
-            justifyContent: "center",
-            gap: 2,
-            flexWrap: "wrap",
-          }}
-        >
-          {lower.map(renderTooth)}
-        </div>
+        {rows.lower.map(renderRow)}
         <div
           style={{
             textAlign: "center",
@@ -264,6 +379,23 @@ export default function PatientChartWidget() {
           Lower Arch
         </div>
 
+        {/* Supernumerary teeth */}
+        {supernumerary.length > 0 && (
+          <>
+            <div
+              style={{
+                textAlign: "center",
+                fontSize: 12,
+                color: c.textSecondary,
+                marginTop: 12,
+              }}
+            >
+              Supernumerary
+            </div>
+            {renderRow(supernumerary)}
+          </>
+        )}
+
         {/* Legend */}
         <div
           style={{
@@ -271,37 +403,56 @@ export default function PatientChartWidget() {
             gap: 12,
             flexWrap: "wrap",
             justifyContent: "center",
+            alignItems: "center",
             marginTop: 16,
             fontSize: 12,
           }}
         >
-          {[
-            { label: "Healthy", color: c.healthy },
-            { label: "Missing", color: c.missing },
-            { label: "Crown", color: c.crown },
-            { label: "Filling", color: c.filling },
-            { label: "Decay", color: c.decay },
-            { label: "Root Canal", color: c.rootCanal },
-          ].map((item) => (
+          {(
+            [
+              ["filling", { surfaces: { O: { kind: "filling", status: "existing" } } }],
+              ["decay", { surfaces: { O: { kind: "decay", status: "existing" } } }],
+              ["sealant", { surfaces: { O: { kind: "sealant", status: "existing" } } }],
+              ["crown", { glyphs: { crown: "existing" } }],
+              ["rootCanal", { glyphs: { rootCanal: "existing" } }],
+              ["implant", { glyphs: { implant: "existing" } }],
+              ["missing", { glyphs: { missing: "existing" } }],
+              ...(Object.keys(STATUS_LABELS) as WorkStatus[]).map(
+                (status) =>
+                  [
+                    status,
+                    {
+                      surfaces: {
+                        M: { kind: "filling", status },
+                        O: { kind: "filling", status },
+                        D: { kind: "filling", status },
+                      },
+                    },
+                  ] as const,
+              ),
+            ] as [string, Partial<ToothMarks>][]
+          ).map(([key, sample]) => (
             <div
-              key={item.label}
+              key={key}
               style={{ display: "flex", alignItems: "center", gap: 4 }}
             >
-              <div
-                style={{
-                  width: 12,
-                  height: 12,
-                  borderRadius: "50%",
-                  backgroundColor: item.color,
-                }}
+              <ToothDiagram
+                id={`legend-${key}`}
+                marks={{ surfaces: {}, glyphs: {}, procedures: [], ...sample }}
+                upper
+                mesialRight
+                scale={0.6}
+                colors={c}
               />
-              <span style={{ color: c.textSecondary }}>{item.label}</span>
+              <span style={{ color: c.textSecondary }}>
+                {KIND_LABELS[key] ?? STATUS_LABELS[key as WorkStatus]}
+              </span>
             </div>
           ))}
         </div>
 
         {/* Selected tooth detail */}
-        {selectedData && (
+        {selectedTooth != null && (
           <div
             style={{
               marginTop: 16,
@@ -309,14 +460,81 @@ export default function PatientChartWidget() {
               borderRadius: 8,
               backgroundColor: c.card,
               border: `1px solid ${c.border}`,
+              display: "flex",
+              gap: 16,
+              alignItems: "flex-start",
             }}
           >
-            <strong>Tooth #{selectedTooth}</strong>
-            <div style={{ fontSize: 13, color: c.textSecondary, marginTop: 4 }}>
-              Condition: {selectedData.condition}
-              {selectedData.surface && <> · Surface: {selectedData.surface}</>}
-              {selectedData.notes && (
-                <div style={{ marginTop: 4 }}>{selectedData.notes}</div>
+            <ToothDiagram
+              id={`detail-${selectedTooth}`}
+              marks={selectedMarks}
+              upper={selected?.upper ?? true}
+              mesialRight={selected?.mesialRight ?? false}
+              scale={2}
+              colors={c}
+            />
+            <div style={{ flex: 1, fontSize: 13 }}>
+              <strong>Tooth {toothRef(selectedTooth, numbering)}</strong>
+              {selected?.supernumerary ? (
+                <span style={{ color: c.textSecondary }}>
+                  {" "}
+                  · supernumerary beside {toothRef(selected.base, numbering)}
+                </span>
+              ) : (
+                selected?.dentition === "primary" && (
+                  <span style={{ color: c.textSecondary }}> · primary</span>
+                )
+              )}
+              {selectedData && (
+                <div style={{ color: c.textSecondary, marginTop: 4 }}>
+                  Condition: {selectedData.condition}
+                  {selectedData.surface && (
+                    <> · Surface: {selectedData.surface}</>
+                  )}
+                  {selectedData.notes && (
+                    <div style={{ marginTop: 4 }}>
+                      {renumberText(selectedData.notes, numbering)}
+                    </div>
+                  )}
+                </div>
+              )}
+              {SURFACES.filter((sf) => selectedMarks?.surfaces[sf]).map(
+                (sf) => {
+                  const m = selectedMarks!.surfaces[sf]!;
+                  return (
+                    <div key={sf} style={{ marginTop: 4 }}>
+                      {SURFACE_NAMES[sf]} ({sf}): {KIND_LABELS[m.kind]} ·{" "}
+                      <span style={{ color: c.textSecondary }}>
+                        {STATUS_LABELS[m.status]}
+                      </span>
+                    </div>
+                  );
+                },
+              )}
+              {Object.entries(selectedMarks?.glyphs ?? {}).map(
+                ([kind, status]) => (
+                  <div key={kind} style={{ marginTop: 4 }}>
+                    {KIND_LABELS[kind]} ·{" "}
+                    <span style={{ color: c.textSecondary }}>
+                      {STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                ),
+              )}
+              {selectedMarks?.procedures.map((p, i) => (
+                <div
+                  key={i}
+                  style={{ marginTop: 4, fontSize: 12, color: c.textSecondary }}
+                >
+                  {[p.date, p.ada_code, p.surface, p.description, p.status]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </div>
+              ))}
+              {!selectedData && !selectedMarks && (
+                <div style={{ color: c.textSecondary, marginTop: 4 }}>
+                  No charted work on this tooth.
+                </div>
               )}
             </div>
           </div>
@@ -333,10 +551,10 @@ export default function PatientChartWidget() {
             }}
           >
             {[
-              { label: "Upper Right (Q1)", val: quadrants.upper_right },
-              { label: "Upper Left (Q2)", val: quadrants.upper_left },
-              { label: "Lower Left (Q3)", val: quadrants.lower_left },
-              { label: "Lower Right (Q4)", val: quadrants.lower_right },
+              { label: quadrantLabel(1, numbering), val: quadrants.upper_right },
+              { label: quadrantLabel(2, numbering), val: quadrants.upper_left },
+              { label: quadrantLabel(3, numbering), val: quadrants.lower_left },
+              { label: quadrantLabel(4, numbering), val: quadrants.lower_right },
             ].map((q) => (
               <div
                 key={q.label}
@@ -350,7 +568,7 @@ export default function PatientChartWidget() {
               >
                 <strong>{q.label}</strong>
                 <div style={{ color: c.textSecondary, marginTop: 2 }}>
-                  {q.val || "No data"}
+                  {renumberText(q.val, numbering) || "No data"}
                 </div>
               </div>
             ))}
@@ -471,10 +689,12 @@ export default function PatientChartWidget() {
                 </td>
               </tr>
             ) : (
-              filteredProcs.map((p: any, i: number) => (
+              filteredProcs.map((p: ChartProcedure, i: number) => (
                 <tr key={i}>
                   <td style={tdStyle}>{p.date || "—"}</td>
-                  <td style={tdStyle}>{p.tooth || "—"}</td>
+                  <td style={tdStyle}>
+                    {p.tooth ? formatTooth(p.tooth, numbering) : "—"}
+                  </td>
                   <td style={tdStyle}>{p.surface || "—"}</td>
                   <td
                     style={{
@@ -560,7 +780,7 @@ export default function PatientChartWidget() {
                 color: c.text,
               }}
             >
-              {s.text}
+              {renumberText(s.text, numbering)}
             </p>
           </div>
         ))}
@@ -598,6 +818,15 @@ export default function PatientChartWidget() {
             <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
               Dental Chart — {patientName}
             </h2>
+            <div style={{ marginTop: 6 }}>
+              <DataStamp
+                asOf={asOf}
+                onRefresh={refresh}
+                isRefreshing={isRefreshing}
+                error={refreshError}
+                colors={c}
+              />
+            </div>
             <div
               style={{
                 display: "flex",
@@ -0,0 +1,203 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { useConfirmation } from "./shared/useConfirmation";
+import { ConfirmBar } from "./shared/ConfirmBar";
+import { infoChangeSchema } from "../src/schemas/patients";
+
+const propsSchema = z.object({
+  changes: z.array(infoChangeSchema).optional(),
+  patientName: z.string(),
+  patientId: z.number().optional(),
+  job: jobSchema.optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Before/after comparison of a patient's demographic and contact changes, saved only when the user confirms",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    red: dark ? "#dc2626" : "#dc3545",
+    redBg: dark ? "#3d1515" : "#fdecea",
+    greenText: dark ? "#95d5b2" : "#155724",
+    greenBg: dark ? "#1b3a2a" : "#e6f4ea",
+  };
+}
+
+export default function PatientInfoUpdateWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const { job, data, metadata, error, cancel, isCancelling } = useJob<Props>(
+    props?.job
+  );
+  const source = data ?? props;
+  const { action, status, confirm, discard, isBusy, ...commit } =
+    useConfirmation<Props>(metadata);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Preparing patient update…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const changes = source.changes;
+
+  if (!changes) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Reading ${source.patientName}'s current record`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const thStyle: React.CSSProperties = {
+    padding: "6px 10px",
+    textAlign: "left",
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const tdStyle: React.CSSProperties = {
+    padding: "8px 10px",
+    fontSize: 14,
+    borderBottom: `1px solid ${c.border}`,
+    verticalAlign: "top",
+  };
+  const blank = <span style={{ color: c.textSecondary }}>—</span>;
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+          }}
+        >
+          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+            Update {source.patientName}
+          </h2>
+          <span style={{ fontSize: 13, color: c.textSecondary }}>
+            {source.patientId != null && `Patient #${source.patientId} · `}
+            {changes.length} field(s) changing
+          </span>
+        </div>
+
+        {changes.length === 0 ? (
+          <div style={{ padding: 24, textAlign: "center", color: c.textSecondary }}>
+            The record already has these values. Nothing to change.
+          </div>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Field</th>
+                <th style={thStyle}>On file</th>
+                <th style={thStyle}>New</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.field}>
+                  <td style={{ ...tdStyle, color: c.textSecondary, width: 150 }}>
+                    {change.label}
+                  </td>
+                  <td style={tdStyle}>
+                    {change.before ? (
+                      <span
+                        style={{
+                          backgroundColor: c.redBg,
+                          textDecoration: "line-through",
+                          padding: "1px 4px",
+                          borderRadius: 3,
+                        }}
+                      >
+                        {change.before}
+                      </span>
+                    ) : (
+                      blank
+                    )}
+                  </td>
+                  <td style={tdStyle}>
+                    {change.after ? (
+                      <span
+                        style={{
+                          backgroundColor: c.greenBg,
+                          color: c.greenText,
+                          padding: "1px 4px",
+                          borderRadius: 3,
+                        }}
+                      >
+                        {change.after}
+                      </span>
+                    ) : (
+                      <em style={{ color: c.red }}>cleared</em>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {action && (
+          <ConfirmBar
+            status={status}
+            onConfirm={confirm}
+            onDiscard={discard}
+            isBusy={isBusy}
+            job={commit.job}
+            error={commit.error}
+            doneLabel="Patient record updated."
+            confirmLabel="Save changes"
+            colors={c}
+          />
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
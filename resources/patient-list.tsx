@@ -5,24 +5,37 @@ import {
   type WidgetMetadata,
 } from "mcp-use/react";
 import { z } from "zod";
-import { useState, useMemo } from "react";
+import { useCallTool } from "mcp-use/react";
+import { useEffect, useState, useMemo } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import { patientSchema, type Patient } from "../src/schemas/patients";
 
-const patientSchema = z.object({
-  patient_id: z.number().nullable().optional(),
-  first_name: z.string(),
-  last_name: z.string(),
-  age: z.number().nullable().optional(),
-  wireless_phone: z.string().nullable().optional(),
-  home_phone: z.string().nullable().optional(),
-  work_phone: z.string().nullable().optional(),
-  address: z.string().nullable().optional(),
-  city: z.string().nullable().optional(),
-  status: z.string().nullable().optional(),
+// Mirrors the get-patients search arguments
+const filtersSchema = z.object({
+  name_prefix: z.string().optional(),
+  status: z.string().optional(),
+  city: z.string().optional(),
+  min_age: z.number().optional(),
+  max_age: z.number().optional(),
+  provider: z.string().optional(),
+  sort: z
+    .enum(["last_name", "first_name", "age", "city", "status"])
+    .optional(),
+  sort_dir: z.enum(["asc", "desc"]).optional(),
 });
 
 const propsSchema = z.object({
-  patients: z.array(patientSchema),
-  totalCount: z.number(),
+  patients: z.array(patientSchema).optional(),
+  totalCount: z.number().optional(),
+  page: z.number().optional(),
+  pageSize: z.number().optional(),
+  filters: filtersSchema.optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
 });
 
 export const widgetMetadata: WidgetMetadata = {
@@ -32,7 +45,6 @@ export const widgetMetadata: WidgetMetadata = {
 };
 
 type Props = z.infer<typeof propsSchema>;
-type Patient = z.infer<typeof patientSchema>;
 type SortKey = "last_name" | "first_name" | "age" | "city" | "status";
 type SortDir = "asc" | "desc";
 
@@ -64,56 +76,122 @@ const PAGE_SIZE = 10;
 export default function PatientListWidget() {
   const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
   const c = useColors();
+  // The latest get-patients result the widget asked for itself, after a
+  // sort, search or refresh; until then, the one it was opened with
+  const [queried, setQueried] = useState<Props>();
+  const source = queried ?? props;
+  const filters = source?.filters ?? {};
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-patients",
+    { ...filters, page: source?.page, page_size: source?.pageSize }
+  );
+  useEffect(() => {
+    if (latest) setQueried(latest);
+  }, [latest]);
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const firstPage = data?.patients ?? source?.patients;
+  const firstPageNumber = source?.page ?? 1;
+  const pageSize = source?.pageSize ?? 25;
+  const totalCount = data?.totalCount ?? source?.totalCount ?? 0;
+  const asOf = data?.asOf ?? source?.asOf;
 
-  const [search, setSearch] = useState("");
-  const [sortKey, setSortKey] = useState<SortKey>("last_name");
-  const [sortDir, setSortDir] = useState<SortDir>("asc");
+  // Later pages are fetched on demand, each as its own get-patients call
+  const { callToolAsync: callGetPatients } = useCallTool("get-patients");
+  const [pageCall, setPageCall] = useState<Props>();
+  const nextJob = useJob<Props>(pageCall?.job);
+  const [morePages, setMorePages] = useState<Record<number, Patient[]>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
 
-  const filtered = useMemo(() => {
-    if (!props?.patients) return [];
-    const q = search.toLowerCase();
-    return props.patients.filter((p) => {
-      const phone = p.wireless_phone || p.home_phone || p.work_phone || "";
-      return (
-        !q ||
-        `${p.first_name} ${p.last_name}`.toLowerCase().includes(q) ||
-        (p.city ?? "").toLowerCase().includes(q) ||
-        phone.toLowerCase().includes(q)
-      );
-    });
-  }, [props?.patients, search]);
+  useEffect(() => {
+    const result = nextJob.data ?? pageCall;
+    if (!result?.patients || result.page == null) return;
+    setMorePages((prev) => ({ ...prev, [result.page!]: result.patients! }));
+  }, [nextJob.data, pageCall]);
 
-  const sorted = useMemo(() => {
-    return [...filtered].sort((a, b) => {
-      let av: string | number = "";
-      let bv: string | number = "";
-      if (sortKey === "age") {
-        av = a.age ?? 0;
-        bv = b.age ?? 0;
-      } else {
-        av = (a[sortKey] ?? "").toString().toLowerCase();
-        bv = (b[sortKey] ?? "").toString().toLowerCase();
-      }
-      if (av < bv) return sortDir === "asc" ? -1 : 1;
-      if (av > bv) return sortDir === "asc" ? 1 : -1;
-      return 0;
-    });
-  }, [filtered, sortKey, sortDir]);
+  useEffect(() => {
+    setMorePages({});
+    setPageCall(undefined);
+    setPage(1);
+  }, [queried]);
+
+  const patients = useMemo(() => {
+    if (!firstPage) return undefined;
+    const later = Object.keys(morePages)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .flatMap((n) => morePages[n]);
+    return [...firstPage, ...later];
+  }, [firstPage, morePages]);
 
-  const totalPages = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const nextPageNumber = firstPageNumber + Object.keys(morePages).length + 1;
+  const loadedThrough =
+    (firstPageNumber - 1) * pageSize + (patients?.length ?? 0);
+  const hasMore = loadedThrough < totalCount;
+  const isLoadingMore =
+    pageCall?.page != null &&
+    !morePages[pageCall.page] &&
+    !nextJob.error &&
+    !loadError;
+
+  const loadMore = async () => {
+    setLoadError(null);
+    try {
+      const res = await callGetPatients({
+        ...filters,
+        page: nextPageNumber,
+        page_size: pageSize,
+      });
+      if (res.isError) setLoadError(res.result);
+      else setPageCall(res.structuredContent as Props);
+    } catch (e: any) {
+      setLoadError(String(e?.message ?? e));
+    }
+  };
+
+  // Sorting and searching run in OpenDental over the whole list, so both
+  // start the search again from page 1 rather than reorder what is loaded
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const requery = async (next: Props["filters"]) => {
+    setQueryError(null);
+    try {
+      const res = await callGetPatients({
+        ...next,
+        page: 1,
+        page_size: pageSize,
+      });
+      if (res.isError) setQueryError(res.result);
+      else setQueried(res.structuredContent as Props);
+    } catch (e: any) {
+      setQueryError(String(e?.message ?? e));
+    }
+  };
+
+  const [search, setSearch] = useState(filters.name_prefix ?? "");
+  const sortKey: SortKey = filters.sort ?? "last_name";
+  const sortDir: SortDir = filters.sort_dir ?? "asc";
+
+  const totalPages = Math.max(
+    1,
+    Math.ceil((patients?.length ?? 0) / PAGE_SIZE)
+  );
   const safePage = Math.min(page, totalPages);
-  const pageData = sorted.slice(
+  const pageData = (patients ?? []).slice(
     (safePage - 1) * PAGE_SIZE,
     safePage * PAGE_SIZE
   );
 
-  const toggleSort = (key: SortKey) => {
-    if (sortKey === key) {
-      setSortDir(sortDir === "asc" ? "desc" : "asc");
-    } else {
-      setSortKey(key);
-      setSortDir("asc");
+  const toggleSort = (key: SortKey) =>
+    requery({
+      ...filters,
+      sort: key,
+      sort_dir: sortKey === key && sortDir === "asc" ? "desc" : "asc",
+    });
+
+  const submitSearch = () => {
+    const name_prefix = search.trim() || undefined;
+    if (name_prefix !== filters.name_prefix) {
+      requery({ ...filters, name_prefix });
     }
   };
 
@@ -127,6 +205,32 @@ export default function PatientListWidget() {
     );
   }
 
+  if (!patients) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Fetching patient list"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const activeFilters = [
+    filters.name_prefix && `name starts with "${filters.name_prefix}"`,
+    filters.status,
+    filters.city,
+    filters.provider,
+    (filters.min_age != null || filters.max_age != null) &&
+      `age ${filters.min_age ?? 0}–${filters.max_age ?? "+"}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
   const getPhone = (p: Patient) =>
     p.wireless_phone || p.home_phone || p.work_phone || "—";
 
@@ -223,17 +327,29 @@ export default function PatientListWidget() {
               Patients
             </h2>
             <span style={{ fontSize: 13, color: c.textSecondary }}>
-              {props.totalCount} total · {filtered.length} shown
+              {totalCount} total · {patients.length} loaded
+              {activeFilters && <> · {activeFilters}</>}
+              {queryError && <> · Search failed: {queryError}</>}
             </span>
+            <div style={{ marginTop: 6 }}>
+              <DataStamp
+                asOf={asOf}
+                onRefresh={refresh}
+                isRefreshing={isRefreshing}
+                error={refreshError}
+                colors={c}
+              />
+            </div>
           </div>
           <input
             type="text"
-            placeholder="Search name, city, phone…"
+            placeholder="Search by name, then Enter…"
             value={search}
-            onChange={(e) => {
-              setSearch(e.target.value);
-              setPage(1);
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submitSearch();
             }}
+            onBlur={submitSearch}
             style={{
               padding: "8px 14px",
               fontSize: 14,
@@ -318,7 +434,7 @@ export default function PatientListWidget() {
                         style={btnStyle}
                         onClick={() =>
                           sendFollowUpMessage(
-                            `Show the dental chart for ${p.first_name} ${p.last_name}`
+                            `Show the dental chart for ${patientRef(p)}`
                           )
                         }
                       >
@@ -333,7 +449,7 @@ export default function PatientListWidget() {
                         }}
                         onClick={() =>
                           sendFollowUpMessage(
-                            `Show the full report for ${p.first_name} ${p.last_name}`
+                            `Show the full report for ${patientRef(p)}`
                           )
                         }
                       >
@@ -348,7 +464,7 @@ export default function PatientListWidget() {
         </div>
 
         {/* Pagination */}
-        {totalPages > 1 && (
+        {(totalPages > 1 || hasMore) && (
           <div
             style={{
               padding: "12px 20px",
@@ -363,8 +479,28 @@ export default function PatientListWidget() {
           >
             <span>
               Page {safePage} of {totalPages}
+              {(nextJob.error || loadError) && (
+                <> · Could not load more: {nextJob.error ?? loadError}</>
+              )}
             </span>
             <div style={{ display: "flex", gap: 4 }}>
+              {hasMore && (
+                <button
+                  disabled={isLoadingMore}
+                  onClick={loadMore}
+                  style={{
+                    ...btnStyle,
+                    backgroundColor: "transparent",
+                    color: c.accent,
+                    border: `1px solid ${c.accent}`,
+                    cursor: isLoadingMore ? "not-allowed" : "pointer",
+                  }}
+                >
+                  {isLoadingMore
+                    ? "Loading…"
+                    : `Load ${Math.min(pageSize, totalCount - loadedThrough)} more`}
+                </button>
+              )}
               <button
                 disabled={safePage <= 1}
                 onClick={() => setPage(safePage - 1)}
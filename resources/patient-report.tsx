@@ -6,11 +6,27 @@ import {
 } from "mcp-use/react";
 import { z } from "zod";
 import { useState, useMemo } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { appointmentStatusColor } from "./shared/appointmentStatus";
+import {
+  patientReportSchema,
+  type Appointment,
+  type InsurancePlan,
+  type PatientReport,
+} from "../src/schemas/report";
+import { NUMBERING_SYSTEMS, formatTooth } from "../src/teeth";
 
 // ── Schema ────────────────────────────────────────────────────────────
 const propsSchema = z.object({
-  report: z.any(),
+  report: patientReportSchema.optional(),
   patientName: z.string(),
+  patientId: z.number().optional(),
+  numbering: z.enum(NUMBERING_SYSTEMS).optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
 });
 
 export const widgetMetadata: WidgetMetadata = {
@@ -21,6 +37,7 @@ export const widgetMetadata: WidgetMetadata = {
 };
 
 type Props = z.infer<typeof propsSchema>;
+type Section<K extends keyof PatientReport> = NonNullable<PatientReport[K]>;
 type Tab =
   | "overview"
   | "family"
@@ -64,6 +81,13 @@ export default function PatientReportWidget() {
   const c = useColors();
   const [tab, setTab] = useState<Tab>("overview");
   const [acctPage, setAcctPage] = useState(1);
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-reports",
+    { patient_name: props?.patientName, patient_id: props?.patientId }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const numbering = data?.numbering ?? source?.numbering ?? "universal";
 
   if (isPending) {
     return (
@@ -75,15 +99,33 @@ export default function PatientReportWidget() {
     );
   }
 
-  const { report, patientName } = props;
-  const info = report?.patient_info ?? {};
-  const family = report?.family_members ?? [];
-  const insurance = report?.insurance ?? {};
-  const recall = report?.recall ?? {};
-  const account = report?.account ?? {};
-  const treatments = report?.treatment_plans ?? {};
-  const appointments = report?.appointments ?? {};
-  const summary = report?.summary ?? {};
+  const patientName = data?.patientName ?? source.patientName;
+  const report = data?.report ?? source.report;
+  const asOf = data?.asOf ?? source.asOf;
+
+  if (!report) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Generating report for ${patientName}`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const info: Section<"patient_info"> = report.patient_info ?? {};
+  const family = report.family_members ?? [];
+  const insurance: Section<"insurance"> = report.insurance ?? {};
+  const recall: Section<"recall"> = report.recall ?? {};
+  const account: Section<"account"> = report.account ?? {};
+  const treatments: Section<"treatment_plans"> = report.treatment_plans ?? {};
+  const appointments: Section<"appointments"> = report.appointments ?? {};
+  const summary: Section<"summary"> = report.summary ?? {};
 
   const tabStyle = (t: Tab): React.CSSProperties => ({
     padding: "8px 16px",
@@ -256,7 +298,7 @@ export default function PatientReportWidget() {
             </tr>
           </thead>
           <tbody>
-            {family.map((m: any, i: number) => (
+            {family.map((m, i) => (
               <tr key={i}>
                 <td style={{ ...tdStyle, fontWeight: 600 }}>{m.name}</td>
                 <td style={tdStyle}>{m.position || "—"}</td>
@@ -274,7 +316,10 @@ export default function PatientReportWidget() {
 
   // ── Tab: Insurance ────────────────────────────────────────────────
   const renderInsurance = () => {
-    const renderPlan = (plan: any, label: string) => {
+    const renderPlan = (
+      plan: InsurancePlan | null | undefined,
+      label: string
+    ) => {
       if (!plan || !plan.carrier) return null;
       const cov = plan.coverage_percentages ?? {};
       return sectionCard(label, (
@@ -325,9 +370,10 @@ export default function PatientReportWidget() {
 
   // ── Tab: Account ──────────────────────────────────────────────────
   const renderAccount = () => {
-    const transactions: any[] = account.transactions ?? [];
-    const claims: any[] = account.claims ?? [];
+    const transactions = account.transactions ?? [];
+    const claims = account.claims ?? [];
     const balances = account.balances ?? {};
+    const familyBalances = balances.family_balances ?? [];
     const perPage = 15;
     const totalPages = Math.max(1, Math.ceil(transactions.length / perPage));
     const safePage = Math.min(acctPage, totalPages);
@@ -345,10 +391,10 @@ export default function PatientReportWidget() {
         </div>
 
         {/* Family balances */}
-        {balances.family_balances?.length > 0 &&
+        {familyBalances.length > 0 &&
           sectionCard("Family Balances", (
             <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
-              {balances.family_balances.map((fb: any, i: number) => (
+              {familyBalances.map((fb, i) => (
                 <div
                   key={i}
                   style={{
@@ -390,7 +436,7 @@ export default function PatientReportWidget() {
                       </td>
                     </tr>
                   ) : (
-                    pageTx.map((t: any, i: number) => (
+                    pageTx.map((t, i) => (
                       <tr key={i}>
                         <td style={tdStyle}>{t.date}</td>
                         <td style={tdStyle}>{t.patient}</td>
@@ -398,7 +444,7 @@ export default function PatientReportWidget() {
                         <td style={{ ...tdStyle, fontFamily: "monospace", fontSize: 12 }}>
                           {t.code || "—"}
                         </td>
-                        <td style={tdStyle}>{t.tooth || "—"}</td>
+                        <td style={tdStyle}>{t.tooth ? formatTooth(t.tooth, numbering) : "—"}</td>
                         <td style={tdStyle}>{t.description}</td>
                         <td style={{ ...tdStyle, textAlign: "right" }}>{fmt(t.charges)}</td>
                         <td style={{ ...tdStyle, textAlign: "right" }}>{fmt(t.credits)}</td>
@@ -479,7 +525,7 @@ export default function PatientReportWidget() {
                   </tr>
                 </thead>
                 <tbody>
-                  {claims.map((cl: any, i: number) => (
+                  {claims.map((cl, i) => (
                     <tr key={i}>
                       <td style={tdStyle}>{cl.date}</td>
                       <td style={tdStyle}>{cl.carrier}</td>
@@ -499,8 +545,8 @@ export default function PatientReportWidget() {
 
   // ── Tab: Treatment Plans ──────────────────────────────────────────
   const renderTreatment = () => {
-    const plans: any[] = treatments.active_plans ?? [];
-    const procs: any[] = treatments.procedures ?? [];
+    const plans = treatments.active_plans ?? [];
+    const procs = treatments.procedures ?? [];
     const totals = treatments.totals ?? {};
     const benefits = treatments.insurance_benefits ?? {};
 
@@ -510,7 +556,7 @@ export default function PatientReportWidget() {
         {plans.length > 0 &&
           sectionCard("Active Plans", (
             <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-              {plans.map((p: any, i: number) => (
+              {plans.map((p, i) => (
                 <div
                   key={i}
                   style={{
@@ -553,7 +599,7 @@ export default function PatientReportWidget() {
                     </td>
                   </tr>
                 ) : (
-                  procs.map((p: any, i: number) => (
+                  procs.map((p, i) => (
                     <tr key={i}>
                       <td style={tdStyle}>
                         {p.done === "Yes" ? (
@@ -563,7 +609,7 @@ export default function PatientReportWidget() {
                         )}
                       </td>
                       <td style={tdStyle}>{p.priority || "—"}</td>
-                      <td style={tdStyle}>{p.tooth || "—"}</td>
+                      <td style={tdStyle}>{p.tooth ? formatTooth(p.tooth, numbering) : "—"}</td>
                       <td style={tdStyle}>{p.surface || "—"}</td>
                       <td style={{ ...tdStyle, fontFamily: "monospace", fontSize: 12 }}>
                         {p.code}
@@ -635,23 +681,11 @@ export default function PatientReportWidget() {
 
   // ── Tab: Appointments ─────────────────────────────────────────────
   const renderAppointments = () => {
-    const past: any[] = appointments.past_appointments ?? [];
-    const scheduled: any[] = appointments.scheduled_appointments ?? [];
+    const past = appointments.past_appointments ?? [];
+    const scheduled = appointments.scheduled_appointments ?? [];
     const next = appointments.next_appointment;
 
-    const statusColor = (status: string | null) => {
-      const s = (status ?? "").toLowerCase();
-      if (s.includes("complet")) return { bg: c.greenBg, color: c.greenText };
-      if (s.includes("broken") || s.includes("cancel"))
-        return { bg: c.redBg, color: c.red };
-      if (s.includes("confirm"))
-        return { bg: c.blueBg, color: c.blue };
-      if (s.includes("schedul"))
-        return { bg: c.yellowBg, color: c.yellow };
-      return { bg: c.card, color: c.textSecondary };
-    };
-
-    const apptTable = (rows: any[], columns: string[]) => (
+    const apptTable = (rows: Appointment[], columns: string[]) => (
       <div style={{ overflowX: "auto" }}>
         <table style={{ width: "100%", borderCollapse: "collapse" }}>
           <thead>
@@ -674,8 +708,8 @@ export default function PatientReportWidget() {
                 </td>
               </tr>
             ) : (
-              rows.map((a: any, i: number) => {
-                const sc = statusColor(a.status);
+              rows.map((a, i) => {
+                const sc = appointmentStatusColor(a.status, c);
                 return (
                   <tr key={i}>
                     <td style={tdStyle}>{a.date}</td>
@@ -752,9 +786,26 @@ export default function PatientReportWidget() {
             backgroundColor: c.card,
           }}
         >
-          <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
-            Patient Report — {patientName}
-          </h2>
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              flexWrap: "wrap",
+              gap: 8,
+            }}
+          >
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Patient Report — {patientName}
+            </h2>
+            <DataStamp
+              asOf={asOf}
+              onRefresh={refresh}
+              isRefreshing={isRefreshing}
+              error={refreshError}
+              colors={c}
+            />
+          </div>
 
           {/* Summary cards */}
           <div
@@ -0,0 +1,502 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useMemo, useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import {
+  perioChangesSchema,
+  perioExamSchema,
+  perioStatsSchema,
+  type PerioSide,
+  type PerioTooth,
+} from "../src/schemas/perio";
+import { NUMBERING_SYSTEMS, formatTooth, toothRef } from "../src/teeth";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  current: perioExamSchema.optional(),
+  previous: perioExamSchema.optional(),
+  stats: perioStatsSchema.optional(),
+  previousStats: perioStatsSchema.optional(),
+  changes: perioChangesSchema.optional(),
+  patientName: z.string(),
+  patientId: z.number().optional(),
+  numbering: z.enum(NUMBERING_SYSTEMS).optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Periodontal chart on the permanent tooth grid with six-site pocket depths, recession, bleeding, mobility and furcation, compared with the previous exam",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+type Side = "facial" | "lingual";
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    pocket: dark ? "#ca8a04" : "#ffc107",
+    severe: dark ? "#dc2626" : "#dc3545",
+    bleeding: dark ? "#f87171" : "#dc3545",
+    better: dark ? "#95d5b2" : "#28a745",
+    missing: dark ? "#4a4a6a" : "#d0d0d0",
+  };
+}
+
+// Mirrors POCKET_DEPTH and SEVERE_DEPTH in src/perio.ts
+const POCKET_DEPTH = 4;
+const SEVERE_DEPTH = 6;
+const SITES = [0, 1, 2];
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function PerioChartWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const [selectedTooth, setSelectedTooth] = useState<number | null>(null);
+  const [compare, setCompare] = useState(true);
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-perio-chart",
+    { patient_name: props?.patientName, patient_id: props?.patientId }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const done = data ?? (source?.job ? undefined : source);
+  const current = done?.current;
+  const previous = done?.previous;
+
+  const byNumber = (teeth: PerioTooth[] | null | undefined) => {
+    const m: Record<number, PerioTooth> = {};
+    for (const t of teeth ?? []) m[t.tooth_number] = t;
+    return m;
+  };
+  const teeth = useMemo(() => byNumber(current?.teeth), [current]);
+  const before = useMemo(() => byNumber(previous?.teeth), [previous]);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Loading perio chart…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const patientName = done?.patientName ?? source.patientName;
+
+  if (!done) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Loading perio chart for ${patientName}`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const { stats, previousStats, changes, asOf } = done;
+  const numbering = done.numbering ?? "universal";
+  const comparing = compare && !!previous;
+
+  const depthColor = (d: number | null | undefined) =>
+    d == null ? "transparent" : d >= SEVERE_DEPTH ? c.severe : d >= POCKET_DEPTH ? c.pocket : "transparent";
+
+  // One side's three depths; bleeding sites get a red dot underneath
+  const renderDepths = (tooth: PerioTooth | undefined, side: Side) => {
+    const values: PerioSide | null | undefined = tooth?.[side];
+    const old = before[tooth?.tooth_number ?? 0]?.[side]?.depths;
+    return (
+      <div style={{ display: "flex", justifyContent: "center", gap: 1 }}>
+        {SITES.map((i) => {
+          const d = values?.depths?.[i];
+          const delta = comparing && d != null && old?.[i] != null ? d - old[i]! : 0;
+          const deep = d != null && d >= POCKET_DEPTH;
+          return (
+            <div key={i} style={{ width: 12, textAlign: "center" }}>
+              <div
+                style={{
+                  fontSize: 10,
+                  fontWeight: deep ? 700 : 400,
+                  borderRadius: 2,
+                  backgroundColor: depthColor(d),
+                  color: d != null && d >= SEVERE_DEPTH ? "#fff" : c.text,
+                }}
+              >
+                {tooth?.missing ? "" : (d ?? "·")}
+              </div>
+              <div style={{ height: 9, fontSize: 7, lineHeight: "9px" }}>
+                {values?.bleeding?.[i] && (
+                  <span style={{ color: c.bleeding }}>●</span>
+                )}
+                {delta !== 0 && (
+                  <span
+                    style={{
+                      color: delta > 0 ? c.severe : c.better,
+                      fontWeight: Math.abs(delta) >= 2 ? 700 : 400,
+                    }}
+                  >
+                    {delta > 0 ? `+${delta}` : delta}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderTooth = (num: number, upper: boolean) => {
+    const tooth = teeth[num];
+    const missing = !tooth || !!tooth.missing;
+    const isSelected = selectedTooth === num;
+    const label = (
+      <div
+        style={{
+          fontSize: 10,
+          fontWeight: 600,
+          color: missing ? c.missing : c.textSecondary,
+          padding: "2px 0",
+        }}
+      >
+        {formatTooth(num, numbering)}
+        {!!tooth?.mobility && (
+          <span style={{ color: c.severe }} title={`Mobility ${tooth.mobility}`}>
+            {" "}M{tooth.mobility}
+          </span>
+        )}
+        {tooth?.furcation && (
+          <span style={{ color: c.pocket }} title={`Furcation ${tooth.furcation}`}>
+            {" "}F{tooth.furcation}
+          </span>
+        )}
+      </div>
+    );
+    // Facial readings sit on the outside of each arch
+    const [outer, inner]: Side[] = ["facial", "lingual"];
+    return (
+      <div
+        key={num}
+        onClick={() => !missing && setSelectedTooth(isSelected ? null : num)}
+        style={{
+          width: 40,
+          textAlign: "center",
+          cursor: missing ? "default" : "pointer",
+          borderRadius: 6,
+          padding: "2px 0",
+          border: isSelected ? `2px solid ${c.accent}` : `1px solid ${c.border}`,
+          backgroundColor: missing ? c.card : isSelected ? c.card : "transparent",
+          opacity: missing ? 0.5 : 1,
+        }}
+      >
+        {renderDepths(tooth, upper ? outer : inner)}
+        {label}
+        {renderDepths(tooth, upper ? inner : outer)}
+      </div>
+    );
+  };
+
+  const upper = Array.from({ length: 16 }, (_, i) => i + 1);
+  const lower = Array.from({ length: 16 }, (_, i) => 32 - i);
+
+  const statCard = (
+    label: string,
+    value: number | undefined,
+    was: number | undefined,
+    suffix = ""
+  ) => {
+    const delta = comparing && value != null && was != null ? value - was : 0;
+    return (
+      <div
+        style={{
+          flex: "1 1 110px",
+          padding: "10px 14px",
+          borderRadius: 8,
+          backgroundColor: c.card,
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div style={{ fontSize: 11, color: c.textSecondary }}>{label}</div>
+        <div style={{ fontSize: 18, fontWeight: 700, marginTop: 2 }}>
+          {value ?? "—"}
+          {suffix}
+          {delta !== 0 && (
+            <span
+              style={{
+                fontSize: 12,
+                marginLeft: 6,
+                color: delta > 0 ? c.severe : c.better,
+              }}
+            >
+              {delta > 0 ? "▲" : "▼"} {Math.abs(delta)}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDetail = (num: number) => {
+    const tooth = teeth[num];
+    const old = before[num];
+    const rows = (["facial", "lingual"] as Side[]).flatMap((side) =>
+      SITES.map((i) => {
+        const d = tooth?.[side]?.depths?.[i];
+        const r = tooth?.[side]?.recession?.[i];
+        return {
+          key: `${side}-${i}`,
+          site: `${side === "facial" ? "Facial" : "Lingual"} ${i + 1}`,
+          depth: d,
+          prev: old?.[side]?.depths?.[i],
+          recession: r,
+          cal: d != null ? d + (r ?? 0) : null,
+          bleeding: !!tooth?.[side]?.bleeding?.[i],
+        };
+      })
+    );
+    const cell: React.CSSProperties = {
+      padding: "4px 10px",
+      fontSize: 12,
+      borderBottom: `1px solid ${c.border}`,
+      textAlign: "center",
+    };
+    return (
+      <div
+        style={{
+          marginTop: 16,
+          padding: 14,
+          borderRadius: 8,
+          backgroundColor: c.card,
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div style={{ fontWeight: 700, marginBottom: 8 }}>
+          Tooth {toothRef(num, numbering)}
+          <span style={{ fontWeight: 400, fontSize: 12, color: c.textSecondary }}>
+            {" "}
+            · Mobility {tooth?.mobility ?? 0} · Furcation{" "}
+            {tooth?.furcation ?? "none"}
+          </span>
+        </div>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              {["Site", "Depth", previous ? `Was (${previous.exam_date})` : null, "Recession", "CAL", "BOP"]
+                .filter(Boolean)
+                .map((h) => (
+                  <th key={h} style={{ ...cell, color: c.textSecondary, fontWeight: 600 }}>
+                    {h}
+                  </th>
+                ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td style={{ ...cell, textAlign: "left" }}>{row.site}</td>
+                <td style={cell}>
+                  <span
+                    style={{
+                      padding: "0 6px",
+                      borderRadius: 3,
+                      backgroundColor: depthColor(row.depth),
+                      fontWeight: 600,
+                    }}
+                  >
+                    {row.depth ?? "—"}
+                  </span>
+                </td>
+                {previous && <td style={cell}>{row.prev ?? "—"}</td>}
+                <td style={cell}>{row.recession ?? "—"}</td>
+                <td style={cell}>{row.cal ?? "—"}</td>
+                <td style={{ ...cell, color: row.bleeding ? c.bleeding : c.textSecondary }}>
+                  {row.bleeding ? "Yes" : "No"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const legendItem = (color: string, label: string) => (
+    <span key={label} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+      <span
+        style={{
+          width: 12,
+          height: 12,
+          borderRadius: 2,
+          backgroundColor: color,
+          display: "inline-block",
+        }}
+      />
+      {label}
+    </span>
+  );
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Perio chart · {patientName}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {current
+                ? [
+                    `Exam ${current.exam_date ?? "—"}`,
+                    current.provider,
+                    previous && `previous ${previous.exam_date}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")
+                : "No perio exams on file"}
+            </span>
+          </div>
+          <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+            {previous && (
+              <label style={{ fontSize: 12, color: c.textSecondary, cursor: "pointer" }}>
+                <input
+                  type="checkbox"
+                  checked={compare}
+                  onChange={(e) => setCompare(e.target.checked)}
+                  style={{ marginRight: 6 }}
+                />
+                Compare with previous
+              </label>
+            )}
+            <DataStamp
+              asOf={asOf}
+              onRefresh={refresh}
+              isRefreshing={isRefreshing}
+              error={refreshError}
+              colors={c}
+            />
+          </div>
+        </div>
+
+        {!current && (
+          <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+            {patientName} has no periodontal exams charted yet.
+          </div>
+        )}
+        {current && (
+          <div style={{ padding: 20 }}>
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginBottom: 16 }}>
+              {statCard(`Sites ≥${POCKET_DEPTH}mm`, stats?.sites_4mm, previousStats?.sites_4mm)}
+              {statCard(`Sites ≥${SEVERE_DEPTH}mm`, stats?.sites_6mm, previousStats?.sites_6mm)}
+              {statCard("Bleeding on probing", stats?.bop_percent, previousStats?.bop_percent, "%")}
+              {comparing && changes && (
+                <div
+                  style={{
+                    flex: "1 1 110px",
+                    padding: "10px 14px",
+                    borderRadius: 8,
+                    backgroundColor: c.card,
+                    border: `1px solid ${c.border}`,
+                  }}
+                >
+                  <div style={{ fontSize: 11, color: c.textSecondary }}>
+                    Since last exam (±2mm)
+                  </div>
+                  <div style={{ fontSize: 14, fontWeight: 700, marginTop: 4 }}>
+                    <span style={{ color: c.severe }}>{changes.worse_sites} worse</span>
+                    {" · "}
+                    <span style={{ color: c.better }}>{changes.better_sites} better</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div style={{ textAlign: "center", fontSize: 12, color: c.textSecondary, marginBottom: 4 }}>
+              Upper Arch · facial above, lingual below
+            </div>
+            <div style={{ display: "flex", justifyContent: "center", gap: 2, flexWrap: "wrap" }}>
+              {upper.map((n) => renderTooth(n, true))}
+            </div>
+            <div style={{ borderTop: `2px dashed ${c.border}`, margin: "12px 0" }} />
+            <div style={{ display: "flex", justifyContent: "center", gap: 2, flexWrap: "wrap" }}>
+              {lower.map((n) => renderTooth(n, false))}
+            </div>
+            <div style={{ textAlign: "center", fontSize: 12, color: c.textSecondary, marginTop: 4 }}>
+              Lower Arch · lingual above, facial below
+            </div>
+
+            <div
+              style={{
+                display: "flex",
+                gap: 12,
+                flexWrap: "wrap",
+                justifyContent: "center",
+                marginTop: 16,
+                fontSize: 12,
+              }}
+            >
+              {legendItem(c.pocket, `${POCKET_DEPTH}–${SEVERE_DEPTH - 1}mm`)}
+              {legendItem(c.severe, `≥${SEVERE_DEPTH}mm`)}
+              <span>
+                <span style={{ color: c.bleeding }}>●</span> Bleeding
+              </span>
+              <span>M Mobility · F Furcation</span>
+              {comparing && (
+                <span>
+                  <span style={{ color: c.severe }}>+n</span> /{" "}
+                  <span style={{ color: c.better }}>−n</span> mm since last exam
+                </span>
+              )}
+            </div>
+
+            {selectedTooth != null && renderDetail(selectedTooth)}
+          </div>
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,396 @@
+import {
+  McpUseProvider,
+  useCallTool,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob, type JobSnapshot } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import { recallItemSchema, type RecallItem } from "../src/schemas/recall";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  recalls: z.array(recallItemSchema).optional(),
+  range: z.object({ start: z.string(), end: z.string() }).optional(),
+  filters: z
+    .object({
+      recall_type: z.string().optional(),
+      provider: z.string().optional(),
+      include_scheduled: z.boolean().optional(),
+    })
+    .optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Recall worklist of patients overdue or due soon, with phone numbers, last visit, days overdue and a mark-contacted action",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+type Colors = ReturnType<typeof useColors>;
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    rowHover: dark ? "#1e2d4a" : "#f5f8ff",
+    greenText: dark ? "#95d5b2" : "#155724",
+    greenBg: dark ? "#1b4332" : "#d4edda",
+    red: dark ? "#dc2626" : "#dc3545",
+    redBg: dark ? "#3d1f1f" : "#f8d7da",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    yellowText: dark ? "#fde68a" : "#856404",
+    badgeGray: dark ? "#2d2d2d" : "#e9ecef",
+    badgeGrayText: dark ? "#adb5bd" : "#495057",
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+function formatDay(date: string | null | undefined) {
+  if (!date) return "—";
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function overdueBadge(days: number | null, c: Colors) {
+  const [label, bg, fg] =
+    days == null
+      ? ["No due date", c.badgeGray, c.badgeGrayText]
+      : days > 90
+        ? [`${days} days overdue`, c.redBg, c.red]
+        : days > 0
+          ? [`${days} days overdue`, c.yellowBg, c.yellowText]
+          : days === 0
+            ? ["Due today", c.yellowBg, c.yellowText]
+            : [`Due in ${-days} days`, c.badgeGray, c.badgeGrayText];
+  return (
+    <span
+      style={{
+        padding: "2px 8px",
+        borderRadius: 12,
+        fontSize: 11,
+        fontWeight: 600,
+        whiteSpace: "nowrap",
+        backgroundColor: bg,
+        color: fg,
+      }}
+    >
+      {label}
+    </span>
+  );
+}
+
+// ── Row ───────────────────────────────────────────────────────────────
+// Each row logs its own contact, so several can be marked at once
+function RecallRow({
+  recall: r,
+  onOpen,
+  colors: c,
+}: {
+  recall: RecallItem;
+  onOpen: () => void;
+  colors: Colors;
+}) {
+  const { callToolAsync: markContacted, isPending } = useCallTool(
+    "mark-recall-contacted"
+  );
+  const [contactJob, setContactJob] = useState<JobSnapshot>();
+  const [callError, setCallError] = useState<string | null>(null);
+  const { data, error } = useJob<{ lastContacted: string }>(contactJob);
+  const lastContacted = data?.lastContacted ?? r.last_contacted;
+  const saving = (isPending || !!contactJob) && !data && !error;
+  const failed = callError ?? error;
+
+  const mark = async () => {
+    if (r.patient_id == null) return;
+    setCallError(null);
+    try {
+      const res = await markContacted({
+        patient_id: r.patient_id,
+        recall_type: r.recall_type ?? undefined,
+        method: "phone",
+      });
+      if (res.isError) setCallError(res.result);
+      else setContactJob((res.structuredContent as { job: JobSnapshot }).job);
+    } catch (e: any) {
+      setCallError(String(e?.message ?? e));
+    }
+  };
+
+  const phones = [
+    r.wireless_phone && ["Cell", r.wireless_phone],
+    r.home_phone && ["Home", r.home_phone],
+    r.work_phone && ["Work", r.work_phone],
+  ].filter(Boolean) as [string, string][];
+
+  const td: React.CSSProperties = {
+    padding: "10px 12px",
+    fontSize: 13,
+    borderBottom: `1px solid ${c.border}`,
+    verticalAlign: "top",
+  };
+
+  return (
+    <tr
+      onMouseEnter={(e) => (e.currentTarget.style.background = c.rowHover)}
+      onMouseLeave={(e) => (e.currentTarget.style.background = "transparent")}
+    >
+      <td style={td}>
+        <button
+          onClick={onOpen}
+          style={{
+            padding: 0,
+            border: "none",
+            background: "none",
+            color: c.accent,
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: "pointer",
+            textAlign: "left",
+          }}
+        >
+          {r.patient_name}
+        </button>
+        <div style={{ fontSize: 12, color: c.textSecondary, marginTop: 2 }}>
+          {[r.recall_type, r.provider].filter(Boolean).join(" · ")}
+        </div>
+      </td>
+      <td style={td}>
+        {overdueBadge(r.days_overdue, c)}
+        <div style={{ fontSize: 12, color: c.textSecondary, marginTop: 4 }}>
+          Due {formatDay(r.due_date)}
+        </div>
+        {r.scheduled_date && (
+          <div style={{ fontSize: 12, color: c.greenText, marginTop: 2 }}>
+            Scheduled {formatDay(r.scheduled_date)}
+          </div>
+        )}
+      </td>
+      <td style={td}>{formatDay(r.previous_date)}</td>
+      <td style={td}>
+        {phones.length === 0 ? (
+          <span style={{ color: c.textSecondary }}>No phone on file</span>
+        ) : (
+          phones.map(([label, phone]) => (
+            <div key={label} style={{ whiteSpace: "nowrap" }}>
+              <span style={{ fontSize: 11, color: c.textSecondary }}>
+                {label}{" "}
+              </span>
+              <a href={`tel:${phone}`} style={{ color: c.text }}>
+                {phone}
+              </a>
+            </div>
+          ))
+        )}
+      </td>
+      <td style={{ ...td, whiteSpace: "nowrap" }}>
+        {lastContacted && (
+          <div style={{ fontSize: 12, color: c.greenText, marginBottom: 4 }}>
+            Contacted {formatDay(lastContacted)}
+          </div>
+        )}
+        {!data && (
+          <button
+            onClick={mark}
+            disabled={saving || r.patient_id == null}
+            style={{
+              padding: "4px 10px",
+              fontSize: 12,
+              fontWeight: 600,
+              borderRadius: 4,
+              cursor: saving ? "not-allowed" : "pointer",
+              backgroundColor: "transparent",
+              color: c.accent,
+              border: `1px solid ${c.accent}`,
+            }}
+          >
+            {saving ? "Saving…" : "Mark contacted"}
+          </button>
+        )}
+        {failed && (
+          <div
+            style={{ fontSize: 11, color: c.red, marginTop: 4 }}
+            title={failed}
+          >
+            Not saved
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function RecallListWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const range = props?.range;
+  const filters = props?.filters;
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-recall-list",
+    {
+      start_date: range?.start,
+      end_date: range?.end,
+      recall_type: filters?.recall_type,
+      provider: filters?.provider,
+      include_scheduled: filters?.include_scheduled,
+    }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const recalls = data?.recalls ?? source?.recalls;
+  const asOf = data?.asOf ?? source?.asOf;
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Loading recall list…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  if (!recalls) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Reading the recall list"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const overdue = recalls.filter((r) => (r.days_overdue ?? 0) > 0).length;
+  const subtitle = [
+    range && `Due ${formatDay(range.start)} – ${formatDay(range.end)}`,
+    filters?.recall_type,
+    filters?.provider,
+    !filters?.include_scheduled && "nothing scheduled",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const th: React.CSSProperties = {
+    padding: "8px 12px",
+    textAlign: "left",
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    borderBottom: `1px solid ${c.border}`,
+    backgroundColor: c.card,
+  };
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Recall worklist · {recalls.length} patient
+              {recalls.length === 1 ? "" : "s"}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {overdue} overdue · {subtitle}
+            </span>
+          </div>
+          <DataStamp
+            asOf={asOf}
+            onRefresh={refresh}
+            isRefreshing={isRefreshing}
+            error={refreshError}
+            colors={c}
+          />
+        </div>
+        {recalls.length === 0 ? (
+          <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+            No recalls due in this range.
+          </div>
+        ) : (
+          <div style={{ overflowX: "auto", maxHeight: 560, overflowY: "auto" }}>
+            <table
+              style={{ width: "100%", borderCollapse: "collapse", minWidth: 720 }}
+            >
+              <thead style={{ position: "sticky", top: 0 }}>
+                <tr>
+                  {["Patient", "Due", "Last visit", "Phone", "Contact"].map(
+                    (h) => (
+                      <th key={h} style={th}>
+                        {h}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {recalls.map((r, i) => (
+                  <RecallRow
+                    key={`${r.patient_id ?? i}-${r.recall_type}`}
+                    recall={r}
+                    colors={c}
+                    onOpen={() =>
+                      sendFollowUpMessage(
+                        `Show the full report for ${patientRef({
+                          patient_name: r.patient_name ?? "",
+                          patient_id: r.patient_id,
+                        })}`
+                      )
+                    }
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,510 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useMemo, useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import { appointmentStatusColor } from "./shared/appointmentStatus";
+import {
+  scheduleSchema,
+  type ScheduledAppointment,
+} from "../src/schemas/schedule";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  schedule: scheduleSchema.optional(),
+  range: z.object({ start: z.string(), end: z.string() }).optional(),
+  filters: z
+    .object({
+      provider: z.string().optional(),
+      operatory: z.string().optional(),
+    })
+    .optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Practice appointment book as a day or week grid by operatory; click an appointment to open the patient's report",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+type View = "day" | "week";
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    headerBg: dark ? "#0f3460" : "#f0f4f8",
+    tabActive: dark ? "#4a9eff" : "#0066cc",
+    greenText: dark ? "#95d5b2" : "#155724",
+    greenBg: dark ? "#1b4332" : "#d4edda",
+    red: dark ? "#dc2626" : "#dc3545",
+    redBg: dark ? "#3d1f1f" : "#f8d7da",
+    yellow: dark ? "#ca8a04" : "#ffc107",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    blue: dark ? "#2563eb" : "#007bff",
+    blueBg: dark ? "#1e3a5f" : "#d1ecf1",
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+const PX_PER_MINUTE = 1.1;
+const DEFAULT_LENGTH = 30;
+
+// "08:30", "8:30 AM" and "2:15 PM" → minutes after midnight
+function parseTime(time: string | null | undefined) {
+  const m = (time ?? "").trim().match(/^(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?/i);
+  if (!m) return null;
+  let hours = Number(m[1]) % 24;
+  const pm = m[3]?.toLowerCase().startsWith("p");
+  if (m[3] && pm && hours < 12) hours += 12;
+  if (m[3] && !pm && hours === 12) hours = 0;
+  return hours * 60 + Number(m[2]);
+}
+
+function formatMinutes(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const suffix = h >= 12 ? "PM" : "AM";
+  return `${((h + 11) % 12) + 1}:${String(minutes % 60).padStart(2, "0")} ${suffix}`;
+}
+
+function daysInRange(start: string, end: string) {
+  const days: string[] = [];
+  const d = new Date(`${start}T12:00:00Z`);
+  while (d.toISOString().slice(0, 10) <= end && days.length < 31) {
+    days.push(d.toISOString().slice(0, 10));
+    d.setUTCDate(d.getUTCDate() + 1);
+  }
+  return days;
+}
+
+function formatDay(date: string, long = false) {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: long ? "long" : "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function ScheduleWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const range = props?.range;
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-schedule",
+    {
+      start_date: range?.start,
+      end_date: range?.end,
+      provider: props?.filters?.provider,
+      operatory: props?.filters?.operatory,
+    }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const schedule = data?.schedule ?? source?.schedule;
+  const asOf = data?.asOf ?? source?.asOf;
+
+  const days = useMemo(
+    () => (range ? daysInRange(range.start, range.end) : []),
+    [range?.start, range?.end]
+  );
+  const [view, setView] = useState<View | null>(null);
+  const [day, setDay] = useState<string | null>(null);
+  const currentView = view ?? (days.length > 1 ? "week" : "day");
+  const currentDay = day ?? days[0];
+
+  const appointments = schedule?.appointments ?? [];
+  const operatories = useMemo(() => {
+    const listed = schedule?.operatories ?? [];
+    const extra = appointments
+      .map((a) => a.operatory ?? "Unassigned")
+      .filter((op, i, all) => !listed.includes(op) && all.indexOf(op) === i);
+    return [...listed, ...extra];
+  }, [schedule]);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Loading schedule…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  if (!schedule) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Reading the appointment book"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const openReport = (a: ScheduledAppointment) => {
+    if (!a.patient_name) return;
+    sendFollowUpMessage(
+      `Show the full report for ${patientRef({
+        patient_name: a.patient_name,
+        patient_id: a.patient_id,
+      })}`
+    );
+  };
+
+  const byOperatory = (rows: ScheduledAppointment[], op: string) =>
+    rows
+      .filter((a) => (a.operatory ?? "Unassigned") === op)
+      .sort((a, b) => (parseTime(a.time) ?? 0) - (parseTime(b.time) ?? 0));
+
+  const btnStyle = (active: boolean): React.CSSProperties => ({
+    padding: "4px 12px",
+    fontSize: 12,
+    fontWeight: 600,
+    borderRadius: 6,
+    cursor: "pointer",
+    border: `1px solid ${c.accent}`,
+    backgroundColor: active ? c.accent : "transparent",
+    color: active ? "#fff" : c.accent,
+  });
+
+  // ── Day view: time axis down, one column per operatory ──────────────
+  const renderDay = () => {
+    const rows = appointments.filter((a) => a.date === currentDay);
+    const starts = rows.map((a) => parseTime(a.time) ?? 8 * 60);
+    const ends = rows.map(
+      (a, i) => starts[i] + (a.length_minutes ?? DEFAULT_LENGTH)
+    );
+    const from = Math.floor(Math.min(8 * 60, ...starts) / 60) * 60;
+    const to = Math.ceil(Math.max(17 * 60, ...ends) / 60) * 60;
+    const hours = Array.from(
+      { length: (to - from) / 60 },
+      (_, i) => from + i * 60
+    );
+    const height = (to - from) * PX_PER_MINUTE;
+
+    return (
+      <div style={{ display: "flex", overflowX: "auto", padding: "0 12px 12px" }}>
+        <div style={{ width: 64, flexShrink: 0, paddingTop: 28 }}>
+          <div style={{ position: "relative", height }}>
+            {hours.map((h) => (
+              <div
+                key={h}
+                style={{
+                  position: "absolute",
+                  top: (h - from) * PX_PER_MINUTE - 7,
+                  fontSize: 11,
+                  color: c.textSecondary,
+                }}
+              >
+                {formatMinutes(h)}
+              </div>
+            ))}
+          </div>
+        </div>
+        {operatories.map((op) => (
+          <div key={op} style={{ flex: 1, minWidth: 150 }}>
+            <div
+              style={{
+                height: 28,
+                lineHeight: "28px",
+                textAlign: "center",
+                fontSize: 12,
+                fontWeight: 700,
+                color: c.textSecondary,
+              }}
+            >
+              {op}
+            </div>
+            <div
+              style={{
+                position: "relative",
+                height,
+                borderLeft: `1px solid ${c.border}`,
+                backgroundImage: `repeating-linear-gradient(to bottom, ${c.border} 0, ${c.border} 1px, transparent 1px, transparent ${60 * PX_PER_MINUTE}px)`,
+              }}
+            >
+              {byOperatory(rows, op).map((a, i) => {
+                const start = parseTime(a.time) ?? from;
+                const length = a.length_minutes ?? DEFAULT_LENGTH;
+                const sc = appointmentStatusColor(a.status, c);
+                return (
+                  <div
+                    key={a.appointment_id ?? i}
+                    onClick={() => openReport(a)}
+                    title={[a.procedures, a.status, a.notes]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    style={{
+                      position: "absolute",
+                      top: (start - from) * PX_PER_MINUTE,
+                      height: length * PX_PER_MINUTE - 2,
+                      left: 3,
+                      right: 3,
+                      padding: "3px 6px",
+                      borderRadius: 4,
+                      overflow: "hidden",
+                      fontSize: 11,
+                      cursor: a.patient_name ? "pointer" : "default",
+                      backgroundColor: sc.bg,
+                      borderLeft: `3px solid ${sc.color}`,
+                      color: c.text,
+                    }}
+                  >
+                    <div style={{ fontWeight: 700 }}>
+                      {a.patient_name || "—"}
+                    </div>
+                    <div style={{ color: c.textSecondary }}>
+                      {formatMinutes(start)} · {length}m
+                      {a.provider && <> · {a.provider}</>}
+                    </div>
+                    {a.procedures && <div>{a.procedures}</div>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // ── Week view: one row per operatory, one column per day ────────────
+  const renderWeek = () => {
+    const thStyle: React.CSSProperties = {
+      padding: "8px 10px",
+      textAlign: "left",
+      fontSize: 12,
+      fontWeight: 700,
+      borderBottom: `2px solid ${c.border}`,
+      backgroundColor: c.headerBg,
+      color: c.textSecondary,
+      whiteSpace: "nowrap",
+    };
+    const tdStyle: React.CSSProperties = {
+      padding: 6,
+      verticalAlign: "top",
+      borderBottom: `1px solid ${c.border}`,
+      borderLeft: `1px solid ${c.border}`,
+      minWidth: 120,
+    };
+
+    return (
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Operatory</th>
+              {days.map((d) => (
+                <th
+                  key={d}
+                  style={{ ...thStyle, cursor: "pointer" }}
+                  onClick={() => {
+                    setDay(d);
+                    setView("day");
+                  }}
+                >
+                  {formatDay(d)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {operatories.map((op) => (
+              <tr key={op}>
+                <td
+                  style={{
+                    ...tdStyle,
+                    minWidth: 70,
+                    fontSize: 12,
+                    fontWeight: 700,
+                    color: c.textSecondary,
+                    borderLeft: "none",
+                  }}
+                >
+                  {op}
+                </td>
+                {days.map((d) => (
+                  <td key={d} style={tdStyle}>
+                    {byOperatory(
+                      appointments.filter((a) => a.date === d),
+                      op
+                    ).map((a, i) => {
+                      const sc = appointmentStatusColor(a.status, c);
+                      const start = parseTime(a.time);
+                      return (
+                        <div
+                          key={a.appointment_id ?? i}
+                          onClick={() => openReport(a)}
+                          title={[a.procedures, a.status]
+                            .filter(Boolean)
+                            .join(" · ")}
+                          style={{
+                            marginBottom: 3,
+                            padding: "2px 6px",
+                            borderRadius: 4,
+                            fontSize: 11,
+                            whiteSpace: "nowrap",
+                            overflow: "hidden",
+                            textOverflow: "ellipsis",
+                            cursor: a.patient_name ? "pointer" : "default",
+                            backgroundColor: sc.bg,
+                            borderLeft: `3px solid ${sc.color}`,
+                            color: c.text,
+                          }}
+                        >
+                          {start != null ? formatMinutes(start) : a.time}{" "}
+                          {a.patient_name || "—"}
+                        </div>
+                      );
+                    })}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const dayIndex = days.indexOf(currentDay);
+  const title =
+    currentView === "day" && currentDay
+      ? formatDay(currentDay, true)
+      : range
+        ? `${formatDay(range.start)} – ${formatDay(range.end)}`
+        : "";
+  const filterLabel = [props?.filters?.provider, props?.filters?.operatory]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            flexWrap: "wrap",
+            gap: 12,
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Schedule — {title}
+            </h2>
+            <div
+              style={{
+                display: "flex",
+                gap: 12,
+                alignItems: "center",
+                marginTop: 6,
+                fontSize: 13,
+                color: c.textSecondary,
+              }}
+            >
+              <span>
+                {appointments.length} appointment
+                {appointments.length === 1 ? "" : "s"}
+                {filterLabel && <> · {filterLabel}</>}
+              </span>
+              <DataStamp
+                asOf={asOf}
+                onRefresh={refresh}
+                isRefreshing={isRefreshing}
+                error={refreshError}
+                colors={c}
+              />
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            {currentView === "day" && days.length > 1 && (
+              <>
+                <button
+                  style={btnStyle(false)}
+                  disabled={dayIndex <= 0}
+                  onClick={() => setDay(days[dayIndex - 1])}
+                >
+                  ‹
+                </button>
+                <button
+                  style={btnStyle(false)}
+                  disabled={dayIndex >= days.length - 1}
+                  onClick={() => setDay(days[dayIndex + 1])}
+                >
+                  ›
+                </button>
+              </>
+            )}
+            <button
+              style={btnStyle(currentView === "day")}
+              onClick={() => setView("day")}
+            >
+              Day
+            </button>
+            <button
+              style={btnStyle(currentView === "week")}
+              disabled={days.length < 2}
+              onClick={() => setView("week")}
+            >
+              Week
+            </button>
+          </div>
+        </div>
+
+        {appointments.length === 0 ? (
+          <div
+            style={{ padding: 40, textAlign: "center", color: c.textSecondary }}
+          >
+            No appointments in this range.
+          </div>
+        ) : currentView === "day" ? (
+          renderDay()
+        ) : (
+          renderWeek()
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
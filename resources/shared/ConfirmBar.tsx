@@ -0,0 +1,97 @@
+import type { JobSnapshot } from "./useJob";
+import type { ConfirmationStatus } from "./useConfirmation";
+
+interface Colors {
+  text: string;
+  textSecondary: string;
+  border: string;
+  accent: string;
+  red: string;
+  greenText: string;
+}
+
+// Footer of a confirmation widget: Confirm / Cancel while the write is
+// pending, then its progress and outcome
+export function ConfirmBar({
+  status,
+  onConfirm,
+  onDiscard,
+  isBusy,
+  job,
+  error,
+  doneLabel,
+  confirmLabel = "Confirm",
+  disabled = false,
+  colors: c,
+}: {
+  status: ConfirmationStatus;
+  onConfirm: () => void;
+  onDiscard: () => void;
+  isBusy: boolean;
+  job: JobSnapshot | undefined;
+  error: string | null;
+  doneLabel: string;
+  confirmLabel?: string;
+  // Holds Confirm back until the widget's own checks pass
+  disabled?: boolean;
+  colors: Colors;
+}) {
+  const message: Record<ConfirmationStatus, React.ReactNode> = {
+    pending: "Nothing is saved until you confirm.",
+    committing: (
+      <>
+        Saving to OpenDental…
+        {job?.queuedAhead != null && <> waiting behind {job.queuedAhead}</>}
+        {job?.step && <> {job.step}</>}
+      </>
+    ),
+    done: <span style={{ color: c.greenText, fontWeight: 600 }}>{doneLabel}</span>,
+    failed: <span style={{ color: c.red }}>Not saved: {error}</span>,
+    discarded: "Cancelled. Nothing was changed.",
+    expired: "This preview has expired. Ask for the change again.",
+  };
+
+  const button = (primary: boolean): React.CSSProperties => ({
+    padding: "8px 18px",
+    fontSize: 13,
+    fontWeight: 600,
+    borderRadius: 6,
+    cursor: isBusy || (primary && disabled) ? "not-allowed" : "pointer",
+    border: `1px solid ${c.accent}`,
+    backgroundColor: primary ? c.accent : "transparent",
+    color: primary ? "#fff" : c.accent,
+    opacity: primary && disabled ? 0.5 : 1,
+  });
+
+  return (
+    <div
+      style={{
+        padding: "12px 20px",
+        borderTop: `1px solid ${c.border}`,
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        gap: 12,
+        flexWrap: "wrap",
+        fontSize: 13,
+        color: c.textSecondary,
+      }}
+    >
+      <span>{message[status]}</span>
+      {status === "pending" && (
+        <div style={{ display: "flex", gap: 8 }}>
+          <button style={button(false)} disabled={isBusy} onClick={onDiscard}>
+            Cancel
+          </button>
+          <button
+            style={button(true)}
+            disabled={isBusy || disabled}
+            onClick={() => onConfirm()}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+interface Colors {
+  textSecondary: string;
+  accent: string;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// "Data as of 14:05 · Refresh" line for widgets whose results may be cached
+export function DataStamp({
+  asOf,
+  onRefresh,
+  isRefreshing,
+  error,
+  colors: c,
+}: {
+  asOf: string | undefined;
+  onRefresh: () => void;
+  isRefreshing: boolean;
+  error: string | null;
+  colors: Colors;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+        fontSize: 12,
+        color: c.textSecondary,
+      }}
+    >
+      {asOf && <span>Data as of {formatTime(asOf)}</span>}
+      <button
+        onClick={onRefresh}
+        disabled={isRefreshing}
+        style={{
+          padding: "3px 10px",
+          fontSize: 12,
+          fontWeight: 600,
+          borderRadius: 6,
+          cursor: isRefreshing ? "not-allowed" : "pointer",
+          backgroundColor: "transparent",
+          color: c.accent,
+          border: `1px solid ${c.accent}`,
+        }}
+      >
+        {isRefreshing ? "Refreshing…" : "Refresh"}
+      </button>
+      {error && <span title={error}>Refresh failed</span>}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { formatElapsed, type JobSnapshot } from "./useJob";
+
+interface Colors {
+  text: string;
+  textSecondary: string;
+  border: string;
+  card: string;
+  accent: string;
+}
+
+// "Still working" / failure panel shown while a widget waits on a backend job
+export function JobProgress({
+  label,
+  job,
+  error,
+  onCancel,
+  isCancelling,
+  colors: c,
+}: {
+  label: string;
+  job: JobSnapshot | undefined;
+  error: string | null;
+  onCancel: () => void;
+  isCancelling: boolean;
+  colors: Colors;
+}) {
+  const running = !error && job?.status === "running";
+
+  return (
+    <div
+      style={{
+        padding: 32,
+        textAlign: "center",
+        color: c.textSecondary,
+        fontFamily:
+          '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+      }}
+    >
+      {error ? (
+        <>
+          <div style={{ fontSize: 15, fontWeight: 600, color: c.text }}>
+            {label} did not finish
+          </div>
+          <div style={{ fontSize: 13, marginTop: 6 }}>{error}</div>
+        </>
+      ) : (
+        <>
+          <div style={{ fontSize: 15, fontWeight: 600, color: c.text }}>
+            {label}…
+          </div>
+          {job?.queuedAhead != null && (
+            <div style={{ fontSize: 14, marginTop: 8, color: c.accent }}>
+              Waiting for the OpenDental session ·{" "}
+              {job.queuedAhead === 1
+                ? "1 request ahead of you"
+                : `${job.queuedAhead} requests ahead of you`}
+            </div>
+          )}
+          {job?.step && (
+            <div style={{ fontSize: 14, marginTop: 8, color: c.accent }}>
+              {job.step.charAt(0).toUpperCase() + job.step.slice(1)}
+              {job.totalSteps != null && (
+                <>
+                  {" "}
+                  ({job.stepIndex} of {job.totalSteps})
+                </>
+              )}
+            </div>
+          )}
+          <div style={{ fontSize: 13, marginTop: 6 }}>
+            Still working
+            {job && <> · {formatElapsed(job.elapsedSeconds)} elapsed</>}
+          </div>
+        </>
+      )}
+      {running && (
+        <button
+          onClick={onCancel}
+          disabled={isCancelling}
+          style={{
+            marginTop: 16,
+            padding: "6px 14px",
+            fontSize: 12,
+            fontWeight: 600,
+            borderRadius: 6,
+            cursor: isCancelling ? "not-allowed" : "pointer",
+            backgroundColor: "transparent",
+            color: c.accent,
+            border: `1px solid ${c.accent}`,
+          }}
+        >
+          {isCancelling ? "Cancelling…" : "Cancel"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import type {
+  GlyphKind,
+  Surface,
+  SurfaceKind,
+  ToothMarks,
+  WorkStatus,
+} from "./odontogram";
+
+export interface OdontogramColors {
+  bg: string;
+  border: string;
+  missing: string;
+  crown: string;
+  filling: string;
+  decay: string;
+  sealant: string;
+  rootCanal: string;
+  implant: string;
+  other: string;
+}
+
+const W = 30;
+const H = 38;
+const BOX = 26;
+const INSET = 8;
+
+// Solid for existing work, hatched for planned, faded with a dotted edge for
+// work done elsewhere
+function surfaceStyle(
+  color: string,
+  status: WorkStatus,
+  pattern: string
+): React.SVGAttributes<SVGElement> {
+  if (status === "planned")
+    return { fill: `url(#${pattern})`, stroke: color, strokeWidth: 1.2 };
+  if (status === "elsewhere")
+    return {
+      fill: color,
+      fillOpacity: 0.35,
+      stroke: color,
+      strokeWidth: 1.2,
+      strokeDasharray: "1.5 1.5",
+    };
+  return { fill: color, stroke: color, strokeWidth: 0.6 };
+}
+
+function lineStyle(
+  color: string,
+  status: WorkStatus
+): React.SVGAttributes<SVGElement> {
+  if (status === "planned") return { stroke: color, strokeDasharray: "3 2" };
+  if (status === "elsewhere")
+    return { stroke: color, strokeOpacity: 0.5, strokeDasharray: "1 2" };
+  return { stroke: color };
+}
+
+// One tooth as a five-surface odontogram: occlusal in the middle, buccal on
+// the side facing out of the mouth and mesial toward the midline. Roots sit
+// above the crown on the upper arch and below it on the lower.
+export function ToothDiagram({
+  id,
+  marks,
+  upper,
+  mesialRight,
+  scale = 1,
+  colors: c,
+}: {
+  id: string;
+  marks: ToothMarks | undefined;
+  upper: boolean;
+  mesialRight: boolean;
+  scale?: number;
+  colors: OdontogramColors;
+}) {
+  const kindColor: Record<SurfaceKind | GlyphKind, string> = {
+    filling: c.filling,
+    decay: c.decay,
+    sealant: c.sealant,
+    other: c.other,
+    crown: c.crown,
+    implant: c.implant,
+    rootCanal: c.rootCanal,
+    missing: c.missing,
+  };
+  const glyphs = marks?.glyphs ?? {};
+  const missing = glyphs.missing === "existing";
+
+  const x0 = (W - BOX) / 2;
+  const y0 = upper ? H - BOX - 1 : 1;
+  const x1 = x0 + BOX;
+  const y1 = y0 + BOX;
+  const [ix0, iy0] = [x0 + INSET, y0 + INSET];
+  const [ix1, iy1] = [x1 - INSET, y1 - INSET];
+  const rootTop = upper ? 0 : y1 + 1;
+  const rootBottom = upper ? y0 - 1 : H;
+  const mid = W / 2;
+
+  const pts = (...p: [number, number][]) =>
+    p.map((xy) => xy.join(",")).join(" ");
+  const regions = {
+    top: pts([x0, y0], [x1, y0], [ix1, iy0], [ix0, iy0]),
+    right: pts([x1, y0], [x1, y1], [ix1, iy1], [ix1, iy0]),
+    bottom: pts([x1, y1], [x0, y1], [ix0, iy1], [ix1, iy1]),
+    left: pts([x0, y1], [x0, y0], [ix0, iy0], [ix0, iy1]),
+    center: pts([ix0, iy0], [ix1, iy0], [ix1, iy1], [ix0, iy1]),
+  };
+  const regionOf: Record<Surface, keyof typeof regions> = {
+    B: upper ? "top" : "bottom",
+    L: upper ? "bottom" : "top",
+    M: mesialRight ? "right" : "left",
+    D: mesialRight ? "left" : "right",
+    O: "center",
+  };
+
+  const surfaceMarks = Object.entries(marks?.surfaces ?? {}) as [
+    Surface,
+    NonNullable<ToothMarks["surfaces"][Surface]>,
+  ][];
+  const hatchKinds = [
+    ...new Set(
+      surfaceMarks
+        .filter(([, m]) => m.status === "planned")
+        .map(([, m]) => m.kind)
+    ),
+  ];
+  const patternId = (kind: string) => `odo-${id}-${kind}`;
+
+  // Thread marks along an implant post
+  const threads = [];
+  for (let y = rootTop + 1.5; y < rootBottom - 1; y += 2.5)
+    threads.push(
+      <line key={y} x1={mid - 3} y1={y} x2={mid + 3} y2={y + 1} />
+    );
+
+  return (
+    <svg
+      width={W * scale}
+      height={H * scale}
+      viewBox={`0 0 ${W} ${H}`}
+      style={{ display: "block", opacity: missing ? 0.45 : 1 }}
+    >
+      <defs>
+        {hatchKinds.map((kind) => (
+          <pattern
+            key={kind}
+            id={patternId(kind)}
+            width={3}
+            height={3}
+            patternUnits="userSpaceOnUse"
+            patternTransform="rotate(45)"
+          >
+            <rect width={3} height={3} fill={c.bg} />
+            <line
+              x1={0}
+              y1={0}
+              x2={0}
+              y2={3}
+              stroke={kindColor[kind]}
+              strokeWidth={2}
+            />
+          </pattern>
+        ))}
+      </defs>
+
+      {Object.values(regions).map((points) => (
+        <polygon
+          key={points}
+          points={points}
+          fill={c.bg}
+          stroke={c.border}
+          strokeWidth={0.8}
+        />
+      ))}
+      {!missing &&
+        surfaceMarks.map(([surface, m]) => (
+          <polygon
+            key={surface}
+            points={regions[regionOf[surface]]}
+            {...surfaceStyle(kindColor[m.kind], m.status, patternId(m.kind))}
+          />
+        ))}
+
+      {glyphs.rootCanal && !glyphs.implant && (
+        <line
+          x1={mid}
+          y1={rootTop + 1}
+          x2={mid}
+          y2={rootBottom - 1}
+          strokeWidth={2.5}
+          strokeLinecap="round"
+          {...lineStyle(c.rootCanal, glyphs.rootCanal)}
+        />
+      )}
+      {glyphs.implant && (
+        <g strokeWidth={1.4} {...lineStyle(c.implant, glyphs.implant)}>
+          <line x1={mid} y1={rootTop} x2={mid} y2={rootBottom} />
+          {threads}
+        </g>
+      )}
+      {glyphs.crown && (
+        <rect
+          x={x0 - 0.5}
+          y={y0 - 0.5}
+          width={BOX + 1}
+          height={BOX + 1}
+          rx={7}
+          fill="none"
+          strokeWidth={2.5}
+          {...lineStyle(c.crown, glyphs.crown)}
+        />
+      )}
+      {glyphs.missing && (
+        <g
+          strokeWidth={2}
+          strokeLinecap="round"
+          {...lineStyle(c.missing, glyphs.missing)}
+        >
+          <line x1={x0 + 2} y1={y0 + 2} x2={x1 - 2} y2={y1 - 2} />
+          <line x1={x1 - 2} y1={y0 + 2} x2={x0 + 2} y2={y1 - 2} />
+        </g>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,27 @@
+interface Colors {
+  card: string;
+  textSecondary: string;
+  greenBg: string;
+  greenText: string;
+  redBg: string;
+  red: string;
+  blueBg: string;
+  blue: string;
+  yellowBg: string;
+  yellow: string;
+}
+
+// Badge colors for an OpenDental appointment status, shared by the patient
+// report's Appointments tab and the schedule
+export function appointmentStatusColor(
+  status: string | null | undefined,
+  c: Colors
+) {
+  const s = (status ?? "").toLowerCase();
+  if (s.includes("complet")) return { bg: c.greenBg, color: c.greenText };
+  if (s.includes("broken") || s.includes("cancel"))
+    return { bg: c.redBg, color: c.red };
+  if (s.includes("confirm")) return { bg: c.blueBg, color: c.blue };
+  if (s.includes("schedul")) return { bg: c.yellowBg, color: c.yellow };
+  return { bg: c.card, color: c.textSecondary };
+}
@@ -0,0 +1,155 @@
+import type { ChartProcedure, ToothCondition } from "../../src/schemas/chart";
+import { parseTooth } from "../../src/teeth";
+
+export const SURFACES = ["M", "O", "D", "B", "L"] as const;
+export type Surface = (typeof SURFACES)[number];
+
+// Existing work was done here, elsewhere work by another office (OpenDental's
+// EO status), planned work is still on the treatment plan
+export type WorkStatus = "existing" | "planned" | "elsewhere";
+export type SurfaceKind = "filling" | "decay" | "sealant" | "other";
+export type GlyphKind = "crown" | "implant" | "rootCanal" | "missing";
+
+export interface Mark<K> {
+  kind: K;
+  status: WorkStatus;
+}
+
+export interface ToothMarks {
+  surfaces: Partial<Record<Surface, Mark<SurfaceKind>>>;
+  glyphs: Partial<Record<GlyphKind, WorkStatus>>;
+  procedures: ChartProcedure[];
+}
+
+// Incisal and facial are how anterior teeth name the occlusal and buccal
+// surfaces; class V restorations sit on the buccal
+const SURFACE_ALIASES: Record<string, Surface> = {
+  M: "M",
+  O: "O",
+  I: "O",
+  D: "D",
+  B: "B",
+  F: "B",
+  V: "B",
+  L: "L",
+};
+
+export function parseSurfaces(surface: string | null | undefined): Surface[] {
+  const found = (surface ?? "")
+    .toUpperCase()
+    .split("")
+    .map((ch) => SURFACE_ALIASES[ch])
+    .filter((s): s is Surface => !!s);
+  return [...new Set(found)];
+}
+
+export function workStatus(
+  status: string | null | undefined
+): WorkStatus | null {
+  const s = (status ?? "").trim().toLowerCase();
+  if (s === "d" || s.includes("delet")) return null;
+  if (s === "tp" || s === "tpi" || s.includes("plan")) return "planned";
+  if (
+    s === "eo" ||
+    s === "r" ||
+    s.includes("other") ||
+    s.includes("elsewhere") ||
+    s.includes("referr")
+  )
+    return "elsewhere";
+  return "existing";
+}
+
+type Kind = SurfaceKind | GlyphKind;
+
+const CODE_KINDS: [RegExp, Kind][] = [
+  [/^D135[12]/, "sealant"],
+  [/^D2[1-6]/, "filling"],
+  [/^D27|^D67/, "crown"],
+  [/^D33/, "rootCanal"],
+  [/^D60/, "implant"],
+  [/^D7[12]/, "missing"],
+];
+
+const TEXT_KINDS: [RegExp, Kind][] = [
+  [/seal/, "sealant"],
+  [/implant/, "implant"],
+  [/crown/, "crown"],
+  [/root ?canal|endo/, "rootCanal"],
+  [/missing|extract/, "missing"],
+  [/decay|caries/, "decay"],
+  [/fill|composite|amalgam|resin|inlay|onlay|restor/, "filling"],
+];
+
+export function workKind(
+  code: string | null | undefined,
+  text: string | null | undefined
+) {
+  const ada = (code ?? "").toUpperCase();
+  const byCode = CODE_KINDS.find(([re]) => re.test(ada));
+  if (byCode) return byCode[1];
+  const words = (text ?? "").toLowerCase();
+  return TEXT_KINDS.find(([re]) => re.test(words))?.[1] ?? null;
+}
+
+const isGlyph = (kind: Kind): kind is GlyphKind =>
+  kind === "crown" ||
+  kind === "implant" ||
+  kind === "rootCanal" ||
+  kind === "missing";
+
+// When two marks land on the same surface the planned one wins, so the chart
+// shows what still needs doing
+const RANK: Record<WorkStatus, number> = { elsewhere: 1, existing: 2, planned: 3 };
+
+// Per-tooth surface and glyph marks from the chart's conditions and its
+// procedure history, keyed by universal tooth id
+export function buildOdontogram(
+  conditions: ToothCondition[],
+  procedures: ChartProcedure[]
+): Record<string, ToothMarks> {
+  const teeth: Record<string, ToothMarks> = {};
+  const tooth = (id: string) =>
+    (teeth[id] ??= { surfaces: {}, glyphs: {}, procedures: [] });
+
+  const mark = (
+    id: string,
+    kind: Kind,
+    status: WorkStatus,
+    surface: string | null | undefined
+  ) => {
+    const t = tooth(id);
+    if (isGlyph(kind)) {
+      const had = t.glyphs[kind];
+      if (!had || RANK[status] >= RANK[had]) t.glyphs[kind] = status;
+      return;
+    }
+    const surfaces = parseSurfaces(surface);
+    for (const s of surfaces.length ? surfaces : (["O"] as Surface[])) {
+      const had = t.surfaces[s];
+      if (!had || RANK[status] >= RANK[had.status])
+        t.surfaces[s] = { kind, status };
+    }
+  };
+
+  for (const c of conditions) {
+    const id = parseTooth(c.tooth_number)?.id;
+    const condition = (c.condition ?? "").toLowerCase();
+    if (!id || !condition || condition === "healthy") continue;
+    const kind = workKind(null, condition);
+    if (kind) mark(id, kind, "existing", c.surface);
+    else if (c.surface) mark(id, "other", "existing", c.surface);
+    else tooth(id);
+  }
+
+  for (const p of procedures) {
+    const id = parseTooth(p.tooth)?.id;
+    if (!id) continue;
+    tooth(id).procedures.push(p);
+    const status = workStatus(p.status);
+    const kind = workKind(p.ada_code, `${p.description ?? ""} ${p.dx ?? ""}`);
+    if (status && kind) mark(id, kind, status, p.surface);
+  }
+
+  return teeth;
+}
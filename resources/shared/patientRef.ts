@@ -0,0 +1,13 @@
+// How widgets name a patient in follow-up messages. The id rides along so
+// the model calls chart and report tools with patient_id, not a name that
+// may match someone else.
+export function patientRef(
+  p: (
+    | { first_name: string; last_name: string }
+    | { patient_name: string }
+  ) & { patient_id?: number | null }
+) {
+  const name =
+    "patient_name" in p ? p.patient_name : `${p.first_name} ${p.last_name}`;
+  return p.patient_id != null ? `${name} (patient_id ${p.patient_id})` : name;
+}
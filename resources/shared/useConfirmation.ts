@@ -0,0 +1,98 @@
+import { useCallTool, useWidget } from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { useJob, type JobSnapshot } from "./useJob";
+
+// Mirrors actionMetadata() in index.ts
+export const actionSchema = z.object({
+  token: z.string(),
+  tool: z.string(),
+  description: z.string(),
+  expiresAt: z.string(),
+});
+
+export type PendingAction = z.infer<typeof actionSchema>;
+
+export type ConfirmationStatus =
+  | "pending"
+  | "committing"
+  | "done"
+  | "failed"
+  | "discarded"
+  | "expired";
+
+// Drives a prepared write from its confirmation widget: Confirm commits it
+// through confirm-action, with any fields the user edited, and follows the
+// resulting job; Cancel discards it.
+//
+// The pending action arrives in result metadata, never in props, so the
+// model never sees its token: in the widget's own tool result, or for
+// writes prepared inside a job, in the job result's metadata passed here.
+export function useConfirmation<T extends object>(
+  jobMetadata?: Record<string, unknown>
+) {
+  const { metadata } = useWidget<
+    Record<string, unknown>,
+    Record<string, unknown>,
+    Record<string, unknown>,
+    { action?: unknown }
+  >();
+  const parsed = actionSchema.safeParse(jobMetadata?.action ?? metadata?.action);
+  const action: PendingAction | undefined = parsed.success
+    ? parsed.data
+    : undefined;
+  const { callToolAsync: confirmAction, isPending: isConfirming } =
+    useCallTool("confirm-action");
+  const { callToolAsync: discardAction, isPending: isDiscarding } =
+    useCallTool("discard-action");
+  const [commitJob, setCommitJob] = useState<JobSnapshot>();
+  const [discarded, setDiscarded] = useState(false);
+  const [callError, setCallError] = useState<string | null>(null);
+  const { job, data, error } = useJob<T>(commitJob);
+
+  const confirm = async (edits?: Record<string, string>) => {
+    if (!action) return;
+    setCallError(null);
+    try {
+      const res = await confirmAction({ token: action.token, edits });
+      if (res.isError) setCallError(res.result);
+      else setCommitJob((res.structuredContent as { job: JobSnapshot }).job);
+    } catch (e: any) {
+      setCallError(String(e?.message ?? e));
+    }
+  };
+
+  const discard = async () => {
+    if (!action) return;
+    try {
+      await discardAction({ token: action.token });
+    } finally {
+      setDiscarded(true);
+    }
+  };
+
+  const expired =
+    !!action && !commitJob && Date.parse(action.expiresAt) <= Date.now();
+  const status: ConfirmationStatus = discarded
+    ? "discarded"
+    : data
+      ? "done"
+      : callError || error
+        ? "failed"
+        : commitJob
+          ? "committing"
+          : expired
+            ? "expired"
+            : "pending";
+
+  return {
+    action,
+    status,
+    confirm,
+    discard,
+    isBusy: isConfirming || isDiscarding,
+    job,
+    result: data,
+    error: callError ?? error,
+  };
+}
@@ -0,0 +1,98 @@
+import { useCallTool } from "mcp-use/react";
+import { z } from "zod";
+import { useEffect, useState } from "react";
+
+// Mirrors JobSnapshot in src/jobs.ts
+export const jobSchema = z.object({
+  id: z.string(),
+  tool: z.string(),
+  status: z.enum(["running", "succeeded", "failed", "cancelled"]),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  elapsedSeconds: z.number(),
+  step: z.string().optional(),
+  stepIndex: z.number().optional(),
+  totalSteps: z.number().optional(),
+  queuedAhead: z.number().optional(),
+  error: z.string().optional(),
+});
+
+export type JobSnapshot = z.infer<typeof jobSchema>;
+
+const POLL_INTERVAL_MS = 5_000;
+
+// Follows a backend job started by a tool call. Polls `get-job-status` while
+// the job runs and fetches the finished props, and any widget-only
+// metadata, from `get-job-result`. Widgets
+// whose tool returned data directly pass no job and nothing is polled.
+export function useJob<T extends object>(job: JobSnapshot | undefined) {
+  const { callToolAsync: getStatus } = useCallTool("get-job-status");
+  const { callToolAsync: getResult } = useCallTool("get-job-result");
+  const { callToolAsync: cancelJob, isPending: isCancelling } =
+    useCallTool("cancel-job");
+  const [current, setCurrent] = useState<JobSnapshot | undefined>(job);
+  const [data, setData] = useState<T | undefined>();
+  const [metadata, setMetadata] = useState<Record<string, unknown>>();
+  const [error, setError] = useState<string | null>(null);
+
+  // A refreshed widget hands over a new job; start following it afresh
+  useEffect(() => {
+    setCurrent(job);
+    setData(undefined);
+    setMetadata(undefined);
+    setError(null);
+  }, [job?.id]);
+
+  useEffect(() => {
+    if (!current || data || error) return;
+    if (current.status === "failed" || current.status === "cancelled") {
+      setError(current.error ?? `Job ${current.status}.`);
+      return;
+    }
+
+    let stopped = false;
+    const fetchResult = async () => {
+      const res = await getResult({ job_id: current.id });
+      if (stopped) return;
+      if (res.isError) return setError(res.result);
+      setMetadata(res._meta);
+      setData(res.structuredContent as T);
+    };
+
+    if (current.status === "succeeded") {
+      fetchResult().catch((e) => setError(String(e?.message ?? e)));
+      return () => {
+        stopped = true;
+      };
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await getStatus({ job_id: current.id });
+        if (stopped) return;
+        if (res.isError) setError(res.result);
+        else setCurrent(res.structuredContent as JobSnapshot);
+      } catch (e: any) {
+        if (!stopped) setError(String(e?.message ?? e));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [current, data, error]);
+
+  const cancel = async () => {
+    if (!current) return;
+    await cancelJob({ job_id: current.id });
+    setCurrent({ ...current, status: "cancelled" });
+  };
+
+  return { job: current, data, metadata, error, cancel, isCancelling };
+}
+
+export function formatElapsed(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return m > 0 ? `${m}m ${s.toString().padStart(2, "0")}s` : `${s}s`;
+}
@@ -0,0 +1,28 @@
+import { useCallTool } from "mcp-use/react";
+import { useState } from "react";
+
+// Re-invokes a widget's tool with `force_refresh` so the server skips its
+// cache. The tool answers with a new job; the widget swaps in the returned
+// props and lets useJob follow that job.
+export function useRefresh<P extends object>(
+  tool: string,
+  args: Record<string, unknown>
+) {
+  const { callToolAsync, isPending } =
+    useCallTool<Record<string, unknown>>(tool);
+  const [latest, setLatest] = useState<P>();
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setError(null);
+    try {
+      const res = await callToolAsync({ ...args, force_refresh: true });
+      if (res.isError) setError(res.result);
+      else setLatest(res.structuredContent as P);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    }
+  };
+
+  return { latest, refresh, isRefreshing: isPending, refreshError: error };
+}
@@ -0,0 +1,329 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { statementSchema } from "../src/schemas/statement";
+
+const propsSchema = z.object({
+  statement: statementSchema.optional(),
+  filename: z.string().optional(),
+  resourceUri: z.string().optional(),
+  downloadUrl: z.string().optional(),
+  letterhead: z.string().optional(),
+  patientName: z.string(),
+  patientId: z.number().optional(),
+  job: jobSchema.optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Summary of a patient or family statement with its balance due and aging, and a download link for the PDF",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    red: dark ? "#dc2626" : "#dc3545",
+    greenText: dark ? "#95d5b2" : "#155724",
+  };
+}
+
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `${v < 0 ? "-" : ""}$${Math.abs(Number(v)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+// Most recent activity shown in the widget; the PDF has all of it
+const RECENT_LINES = 8;
+
+export default function StatementWidget() {
+  const { props, isPending, openExternal } = useWidget<Props>();
+  const c = useColors();
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(props?.job);
+  const source = data ?? props;
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Preparing statement…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const statement = source.statement;
+
+  if (!statement) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Reading ${source.patientName}'s account`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const family = statement.kind === "family";
+  const period = statement.from_date
+    ? `${statement.from_date} – ${statement.to_date}`
+    : `Through ${statement.to_date}`;
+  const recent = statement.lines.slice(-RECENT_LINES);
+  const agingTotal = statement.aging.reduce((s, b) => s + b.amount, 0) || 1;
+
+  const thStyle: React.CSSProperties = {
+    padding: "6px 10px",
+    textAlign: "left",
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const tdStyle: React.CSSProperties = {
+    padding: "6px 10px",
+    fontSize: 13,
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const money: React.CSSProperties = { ...tdStyle, textAlign: "right" };
+  const sectionLabel: React.CSSProperties = {
+    fontSize: 12,
+    fontWeight: 600,
+    color: c.textSecondary,
+    margin: "0 0 6px",
+  };
+
+  const totals: [string, number][] = [
+    ["Previous balance", statement.previous_balance],
+    ["Charges", statement.charges],
+    ["Credits", statement.credits],
+    ["Balance due", statement.balance_due],
+  ];
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              {family ? "Family statement" : "Statement"} ·{" "}
+              {statement.addressee}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {[source.letterhead, period, `dated ${statement.statement_date}`]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </div>
+          {source.downloadUrl && (
+            <button
+              onClick={() => openExternal(source.downloadUrl!)}
+              style={{
+                padding: "8px 14px",
+                fontSize: 13,
+                fontWeight: 600,
+                border: "none",
+                borderRadius: 6,
+                cursor: "pointer",
+                backgroundColor: c.accent,
+                color: "#fff",
+                flexShrink: 0,
+              }}
+            >
+              Download PDF
+            </button>
+          )}
+        </div>
+
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: `repeat(${totals.length}, 1fr)`,
+            borderBottom: `1px solid ${c.border}`,
+          }}
+        >
+          {totals.map(([label, value], i) => (
+            <div key={label} style={{ padding: "12px 20px" }}>
+              <div style={{ fontSize: 11, color: c.textSecondary }}>{label}</div>
+              <div
+                style={{
+                  fontSize: i === totals.length - 1 ? 20 : 15,
+                  fontWeight: i === totals.length - 1 ? 700 : 500,
+                  color:
+                    i === totals.length - 1 && value > 0 ? c.red : undefined,
+                }}
+              >
+                {fmt(value)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ padding: "14px 20px", borderBottom: `1px solid ${c.border}` }}>
+          <p style={sectionLabel}>BALANCE BY AGE (DAYS)</p>
+          <div style={{ display: "flex", gap: 8 }}>
+            {statement.aging.map((b) => (
+              <div key={b.key} style={{ flex: 1 }}>
+                <div
+                  style={{
+                    height: 6,
+                    borderRadius: 3,
+                    backgroundColor: c.border,
+                    overflow: "hidden",
+                  }}
+                >
+                  <div
+                    style={{
+                      width: `${Math.max(0, b.amount / agingTotal) * 100}%`,
+                      height: "100%",
+                      backgroundColor: b.key === "days_over_90" ? c.red : c.accent,
+                    }}
+                  />
+                </div>
+                <div style={{ fontSize: 11, color: c.textSecondary, marginTop: 4 }}>
+                  {b.label}
+                </div>
+                <div style={{ fontSize: 13, fontWeight: 600 }}>{fmt(b.amount)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {(statement.insurance_pending != null ||
+          statement.family_balances.length > 1) && (
+          <div
+            style={{
+              display: "flex",
+              gap: 24,
+              padding: "14px 20px",
+              borderBottom: `1px solid ${c.border}`,
+              fontSize: 13,
+            }}
+          >
+            {statement.family_balances.length > 1 && (
+              <div style={{ flex: 1 }}>
+                <p style={sectionLabel}>FAMILY BALANCES</p>
+                {statement.family_balances.map((m) => (
+                  <div
+                    key={m.name}
+                    style={{ display: "flex", justifyContent: "space-between", padding: "2px 0" }}
+                  >
+                    <span>{m.name}</span>
+                    <span>{fmt(m.balance)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {statement.insurance_pending != null && (
+              <div style={{ flex: 1 }}>
+                <p style={sectionLabel}>INSURANCE</p>
+                <div style={{ display: "flex", justifyContent: "space-between", padding: "2px 0" }}>
+                  <span>Insurance pending</span>
+                  <span>{fmt(statement.insurance_pending)}</span>
+                </div>
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    padding: "2px 0",
+                    fontWeight: 600,
+                  }}
+                >
+                  <span>Estimated patient portion</span>
+                  <span>{fmt(statement.estimated_patient_portion)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {recent.length === 0 ? (
+          <div style={{ padding: 20, textAlign: "center", color: c.textSecondary, fontSize: 13 }}>
+            No activity in this period.
+          </div>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Date</th>
+                {family && <th style={thStyle}>Patient</th>}
+                <th style={thStyle}>Description</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>Charges</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>Credits</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((line, i) => (
+                <tr key={i}>
+                  <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>{line.date}</td>
+                  {family && <td style={tdStyle}>{line.patient}</td>}
+                  <td style={tdStyle}>
+                    {line.code && (
+                      <span style={{ fontFamily: "monospace", fontSize: 12, marginRight: 6 }}>
+                        {line.code}
+                      </span>
+                    )}
+                    {line.description}
+                  </td>
+                  <td style={money}>{line.charges ? fmt(line.charges) : ""}</td>
+                  <td style={{ ...money, color: c.greenText }}>
+                    {line.credits ? fmt(line.credits) : ""}
+                  </td>
+                  <td style={{ ...money, fontWeight: 600 }}>{fmt(line.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ padding: "10px 20px", fontSize: 12, color: c.textSecondary }}>
+          {statement.lines.length > recent.length &&
+            `Showing the latest ${recent.length} of ${statement.lines.length} transactions. `}
+          {source.filename && `The PDF (${source.filename}) has the full statement.`}
+        </div>
+      </div>
+    </McpUseProvider>
+  );
+}
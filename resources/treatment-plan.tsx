@@ -0,0 +1,411 @@
+import {
+  McpUseProvider,
+  useCallTool,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useState } from "react";
+import { jobSchema, useJob, type JobSnapshot } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import {
+  treatmentPhaseSchema,
+  treatmentPlanSchema,
+  type PhasedProcedure,
+  type TreatmentPhase,
+} from "../src/schemas/treatment";
+import { NUMBERING_SYSTEMS, formatTooth } from "../src/teeth";
+
+const propsSchema = z.object({
+  plan: treatmentPlanSchema.optional(),
+  phases: z.array(treatmentPhaseSchema).optional(),
+  patientName: z.string(),
+  patientId: z.number().optional(),
+  numbering: z.enum(NUMBERING_SYSTEMS).optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Treatment plan grouped by phase with out-of-pocket costs against remaining benefits, for recording which procedures the patient accepts",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    headerBg: dark ? "#0f3460" : "#f0f4f8",
+    red: dark ? "#dc2626" : "#dc3545",
+    greenText: dark ? "#95d5b2" : "#155724",
+    yellowBg: dark ? "#3d3200" : "#fff3cd",
+    yellowText: dark ? "#fde68a" : "#856404",
+  };
+}
+
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `$${Number(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+export default function TreatmentPlanWidget() {
+  const { props, isPending } = useWidget<Props>();
+  const c = useColors();
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "present-treatment-plan",
+    { patient_name: props?.patientName, patient_id: props?.patientId }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const numbering = data?.numbering ?? source?.numbering ?? "universal";
+  const [picked, setPicked] = useState<Set<number>>();
+  const { callToolAsync: acceptTreatment, isPending: isSending } =
+    useCallTool("accept-treatment");
+  const [acceptJob, setAcceptJob] = useState<JobSnapshot>();
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+  const accept = useJob<{ accepted: number[] }>(acceptJob);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Loading treatment plan…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  const patientName = data?.patientName ?? source.patientName;
+  const patientId = data?.patientId ?? source.patientId;
+  const plan = data?.plan ?? source.plan;
+  const phases = data?.phases ?? source.phases;
+  const asOf = data?.asOf ?? source.asOf;
+
+  if (!plan || !phases) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label={`Loading treatment plan for ${patientName}`}
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const procedures = phases.flatMap((phase) => phase.procedures);
+  // Until staff change anything, the ticks show what OpenDental has on file
+  const selected =
+    picked ??
+    new Set(
+      procedures
+        .filter((p) => p.accepted && p.procedure_id != null)
+        .map((p) => p.procedure_id!)
+    );
+  const chosen = procedures.filter(
+    (p) => p.procedure_id != null && selected.has(p.procedure_id)
+  );
+  const benefits = plan.insurance_benefits?.primary;
+  const recorded = accept.data?.accepted;
+  const locked = !!acceptJob && !accept.error;
+
+  const toggle = (ids: number[], on: boolean) => {
+    const next = new Set(selected);
+    for (const id of ids) {
+      if (on) next.add(id);
+      else next.delete(id);
+    }
+    setPicked(next);
+  };
+
+  const sendAccepted = async () => {
+    setAcceptError(null);
+    try {
+      const res = await acceptTreatment({
+        patient_name: patientName,
+        patient_id: patientId,
+        procedure_ids: chosen.map((p) => p.procedure_id!),
+      });
+      if (res.isError) setAcceptError(res.result);
+      else setAcceptJob((res.structuredContent as { job: JobSnapshot }).job);
+    } catch (e: any) {
+      setAcceptError(String(e?.message ?? e));
+    }
+  };
+
+  const thStyle: React.CSSProperties = {
+    padding: "6px 10px",
+    textAlign: "left",
+    fontSize: 11,
+    fontWeight: 600,
+    color: c.textSecondary,
+    textTransform: "uppercase",
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const tdStyle: React.CSSProperties = {
+    padding: "8px 10px",
+    fontSize: 13,
+    borderBottom: `1px solid ${c.border}`,
+  };
+  const money: React.CSSProperties = { ...tdStyle, textAlign: "right" };
+
+  const stat = (label: string, value: string) => (
+    <div
+      style={{
+        flex: "1 1 120px",
+        padding: "10px 14px",
+        borderRadius: 8,
+        backgroundColor: c.card,
+        border: `1px solid ${c.border}`,
+      }}
+    >
+      <div style={{ fontSize: 11, color: c.textSecondary }}>{label}</div>
+      <div style={{ fontSize: 17, fontWeight: 700, marginTop: 2 }}>{value}</div>
+    </div>
+  );
+
+  const renderProcedure = (p: PhasedProcedure, i: number) => {
+    const id = p.procedure_id;
+    return (
+      <tr key={id ?? i}>
+        <td style={tdStyle}>
+          <input
+            type="checkbox"
+            disabled={id == null || locked}
+            checked={id != null && selected.has(id)}
+            onChange={(e) => id != null && toggle([id], e.target.checked)}
+          />
+        </td>
+        <td style={tdStyle}>{p.priority ?? "—"}</td>
+        <td style={tdStyle}>
+          {p.tooth ? formatTooth(p.tooth, numbering) : "—"}
+          {p.surface && (
+            <span style={{ color: c.textSecondary }}> {p.surface}</span>
+          )}
+        </td>
+        <td style={{ ...tdStyle, fontFamily: "monospace", fontSize: 12 }}>
+          {p.code}
+        </td>
+        <td style={tdStyle}>{p.description}</td>
+        <td style={money}>{fmt(p.fee)}</td>
+        <td style={money}>{fmt(p.insurance_applied)}</td>
+        <td style={{ ...money, fontWeight: 600 }}>{fmt(p.out_of_pocket)}</td>
+      </tr>
+    );
+  };
+
+  const renderPhase = (phase: TreatmentPhase) => {
+    const ids = phase.procedures
+      .map((p) => p.procedure_id)
+      .filter((id): id is number => id != null);
+    const all = ids.length > 0 && ids.every((id) => selected.has(id));
+    return (
+      <div key={phase.name} style={{ marginBottom: 16 }}>
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            flexWrap: "wrap",
+            gap: 8,
+            padding: "8px 10px",
+            backgroundColor: c.headerBg,
+            borderRadius: "8px 8px 0 0",
+          }}
+        >
+          <label style={{ fontWeight: 700, fontSize: 14, cursor: "pointer" }}>
+            <input
+              type="checkbox"
+              disabled={ids.length === 0 || locked}
+              checked={all}
+              onChange={(e) => toggle(ids, e.target.checked)}
+              style={{ marginRight: 8 }}
+            />
+            {phase.name}
+          </label>
+          <span style={{ fontSize: 12, color: c.textSecondary }}>
+            Fee {fmt(phase.fee)} · Insurance {fmt(phase.insurance)} ·{" "}
+            <strong style={{ color: c.text }}>
+              Out of pocket {fmt(phase.out_of_pocket)}
+            </strong>
+          </span>
+        </div>
+        {phase.over_max && (
+          <div
+            style={{
+              padding: "6px 10px",
+              fontSize: 12,
+              backgroundColor: c.yellowBg,
+              color: c.yellowText,
+            }}
+          >
+            The annual max runs out in this phase; the rest is out of pocket
+            unless it waits for next year's benefits.
+          </div>
+        )}
+        <div style={{ overflowX: "auto" }}>
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", minWidth: 640 }}
+          >
+            <thead>
+              <tr>
+                {["", "Pri", "Tooth", "Code", "Description"].map((h) => (
+                  <th key={h} style={thStyle}>
+                    {h}
+                  </th>
+                ))}
+                {["Fee", "Insurance", "Patient"].map((h) => (
+                  <th key={h} style={{ ...thStyle, textAlign: "right" }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>{phase.procedures.map(renderProcedure)}</tbody>
+          </table>
+        </div>
+        <div style={{ fontSize: 12, color: c.textSecondary, padding: "6px 10px" }}>
+          Left after this phase: {fmt(phase.max_remaining_after)} annual max
+          {phase.deductible_remaining_after != null &&
+            ` · ${fmt(phase.deductible_remaining_after)} deductible`}
+        </div>
+      </div>
+    );
+  };
+
+  const totals = phases.reduce(
+    (t, p) => ({ fee: t.fee + p.fee, oop: t.oop + p.out_of_pocket }),
+    { fee: 0, oop: 0 }
+  );
+  const chosenFee = chosen.reduce((t, p) => t + (p.fee ?? 0), 0);
+  const chosenOop = chosen.reduce((t, p) => t + p.out_of_pocket, 0);
+
+  const footerMessage = recorded
+    ? (
+        <span style={{ color: c.greenText, fontWeight: 600 }}>
+          Recorded {recorded.length} accepted procedure(s) in OpenDental.
+        </span>
+      )
+    : accept.error || acceptError
+      ? <span style={{ color: c.red }}>Not saved: {accept.error ?? acceptError}</span>
+      : acceptJob
+        ? `Saving to OpenDental…${accept.job?.step ? ` ${accept.job.step}` : ""}`
+        : `Accepted: ${chosen.length} procedure(s) · fee ${fmt(chosenFee)} · est. out of pocket ${fmt(chosenOop)}`;
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Treatment plan · {patientName}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {[plan.heading, plan.date, plan.signed && `Signed: ${plan.signed}`]
+                .filter(Boolean)
+                .join(" · ")}
+            </span>
+          </div>
+          <DataStamp
+            asOf={asOf}
+            onRefresh={refresh}
+            isRefreshing={isRefreshing}
+            error={refreshError}
+            colors={c}
+          />
+        </div>
+
+        <div style={{ padding: "16px 20px" }}>
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginBottom: 16 }}>
+            {stat("Annual max remaining", fmt(benefits?.remaining))}
+            {stat("Deductible remaining", fmt(benefits?.deductible_remaining))}
+            {stat("Total fee", fmt(totals.fee))}
+            {stat("Est. out of pocket", fmt(totals.oop))}
+          </div>
+          {phases.length === 0 ? (
+            <div style={{ padding: 30, textAlign: "center", color: c.textSecondary }}>
+              No open treatment-planned procedures.
+            </div>
+          ) : (
+            phases.map(renderPhase)
+          )}
+        </div>
+
+        {phases.length > 0 && (
+          <div
+            style={{
+              padding: "12px 20px",
+              borderTop: `1px solid ${c.border}`,
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              gap: 12,
+              flexWrap: "wrap",
+              fontSize: 13,
+              color: c.textSecondary,
+            }}
+          >
+            <span>{footerMessage}</span>
+            {!locked && (
+              <button
+                onClick={sendAccepted}
+                disabled={chosen.length === 0 || isSending}
+                style={{
+                  padding: "8px 18px",
+                  fontSize: 13,
+                  fontWeight: 600,
+                  borderRadius: 6,
+                  border: "none",
+                  cursor:
+                    chosen.length === 0 || isSending ? "not-allowed" : "pointer",
+                  backgroundColor: c.accent,
+                  color: "#fff",
+                  opacity: chosen.length === 0 ? 0.5 : 1,
+                }}
+              >
+                Record acceptance
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
@@ -0,0 +1,359 @@
+import {
+  McpUseProvider,
+  useWidget,
+  useWidgetTheme,
+  type WidgetMetadata,
+} from "mcp-use/react";
+import { z } from "zod";
+import { useMemo, useState } from "react";
+import { jobSchema, useJob } from "./shared/useJob";
+import { JobProgress } from "./shared/JobProgress";
+import { DataStamp } from "./shared/DataStamp";
+import { useRefresh } from "./shared/useRefresh";
+import { patientRef } from "./shared/patientRef";
+import {
+  unscheduledRowSchema,
+  type UnscheduledRow,
+} from "../src/schemas/unscheduled";
+import { NUMBERING_SYSTEMS, toothRef } from "../src/teeth";
+
+// ── Schema ────────────────────────────────────────────────────────────
+const propsSchema = z.object({
+  rows: z.array(unscheduledRowSchema).optional(),
+  filters: z
+    .object({
+      provider: z.string().optional(),
+      code_from: z.string().optional(),
+      code_to: z.string().optional(),
+    })
+    .optional(),
+  sort: z.string().optional(),
+  numbering: z.enum(NUMBERING_SYSTEMS).optional(),
+  job: jobSchema.optional(),
+  asOf: z.string().optional(),
+});
+
+export const widgetMetadata: WidgetMetadata = {
+  description:
+    "Practice-wide list of patients with planned but unscheduled treatment, sortable by value, plan age, patient or provider",
+  props: propsSchema,
+  exposeAsTool: false,
+};
+
+type Props = z.infer<typeof propsSchema>;
+type SortKey = "patient" | "procedures" | "value" | "age" | "provider";
+
+// ── Colors ────────────────────────────────────────────────────────────
+function useColors() {
+  const theme = useWidgetTheme();
+  const dark = theme === "dark";
+  return {
+    bg: dark ? "#1a1a2e" : "#ffffff",
+    card: dark ? "#16213e" : "#f8f9fa",
+    text: dark ? "#e0e0e0" : "#1a1a1a",
+    textSecondary: dark ? "#a0a0a0" : "#666666",
+    border: dark ? "#2a2a4a" : "#e0e0e0",
+    accent: dark ? "#4a9eff" : "#0066cc",
+    rowHover: dark ? "#1e2d4a" : "#f5f8ff",
+    red: dark ? "#dc2626" : "#dc3545",
+    yellowText: dark ? "#fde68a" : "#856404",
+  };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────
+const fmt = (v: number | null | undefined) =>
+  v != null
+    ? `$${Number(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : "—";
+
+function formatAge(days: number | null) {
+  if (days == null) return "—";
+  if (days < 60) return `${days} days`;
+  if (days < 730) return `${Math.round(days / 30)} months`;
+  return `${(days / 365).toFixed(1)} years`;
+}
+
+const SORTS: Record<SortKey, (a: UnscheduledRow, b: UnscheduledRow) => number> =
+  {
+    patient: (a, b) =>
+      (a.patient_name ?? "").localeCompare(b.patient_name ?? ""),
+    procedures: (a, b) => a.procedures.length - b.procedures.length,
+    value: (a, b) => a.total_value - b.total_value,
+    age: (a, b) => (a.plan_age_days ?? -1) - (b.plan_age_days ?? -1),
+    provider: (a, b) => (a.provider ?? "").localeCompare(b.provider ?? ""),
+  };
+
+// ── Component ─────────────────────────────────────────────────────────
+export default function UnscheduledTreatmentWidget() {
+  const { props, isPending, sendFollowUpMessage } = useWidget<Props>();
+  const c = useColors();
+  const { latest, refresh, isRefreshing, refreshError } = useRefresh<Props>(
+    "get-unscheduled-treatment",
+    { ...props?.filters, sort: props?.sort }
+  );
+  const source = latest ?? props;
+  const { job, data, error, cancel, isCancelling } = useJob<Props>(source?.job);
+  const rows = data?.rows ?? source?.rows;
+  const numbering = data?.numbering ?? source?.numbering ?? "universal";
+  const asOf = data?.asOf ?? source?.asOf;
+  const filters = props?.filters;
+  const [sortKey, setSortKey] = useState<SortKey>(
+    props?.sort === "plan_age" ? "age" : "value"
+  );
+  const [descending, setDescending] = useState(true);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const sorted = useMemo(() => {
+    if (!rows) return [];
+    const compare = SORTS[sortKey];
+    return [...rows].sort((a, b) => (descending ? -1 : 1) * compare(a, b));
+  }, [rows, sortKey, descending]);
+
+  if (isPending) {
+    return (
+      <McpUseProvider autoSize>
+        <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+          Finding unscheduled treatment…
+        </div>
+      </McpUseProvider>
+    );
+  }
+
+  if (!rows) {
+    return (
+      <McpUseProvider autoSize>
+        <JobProgress
+          label="Finding unscheduled treatment"
+          job={job}
+          error={error}
+          onCancel={cancel}
+          isCancelling={isCancelling}
+          colors={c}
+        />
+      </McpUseProvider>
+    );
+  }
+
+  const total = rows.reduce((t, r) => t + r.total_value, 0);
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setDescending(!descending);
+    else {
+      setSortKey(key);
+      setDescending(key !== "patient" && key !== "provider");
+    }
+  };
+
+  const th = (key: SortKey, label: string, right = false) => (
+    <th
+      key={key}
+      onClick={() => sortBy(key)}
+      style={{
+        padding: "8px 12px",
+        textAlign: right ? "right" : "left",
+        fontSize: 11,
+        fontWeight: 600,
+        color: sortKey === key ? c.accent : c.textSecondary,
+        textTransform: "uppercase",
+        borderBottom: `1px solid ${c.border}`,
+        backgroundColor: c.card,
+        cursor: "pointer",
+        userSelect: "none",
+        whiteSpace: "nowrap",
+      }}
+    >
+      {label}
+      {sortKey === key && (descending ? " ▼" : " ▲")}
+    </th>
+  );
+
+  const td: React.CSSProperties = {
+    padding: "10px 12px",
+    fontSize: 13,
+    borderBottom: `1px solid ${c.border}`,
+  };
+
+  const btnStyle: React.CSSProperties = {
+    padding: "4px 10px",
+    fontSize: 12,
+    fontWeight: 600,
+    border: `1px solid ${c.accent}`,
+    borderRadius: 4,
+    cursor: "pointer",
+    backgroundColor: "transparent",
+    color: c.accent,
+  };
+
+  const renderRow = (r: UnscheduledRow, i: number) => {
+    const id = r.patient_id ?? -i;
+    const open = expanded === id;
+    const ref = patientRef({
+      patient_name: r.patient_name ?? "",
+      patient_id: r.patient_id,
+    });
+    return [
+      <tr
+        key={id}
+        onClick={() => setExpanded(open ? null : id)}
+        style={{ cursor: "pointer" }}
+        onMouseEnter={(e) => (e.currentTarget.style.background = c.rowHover)}
+        onMouseLeave={(e) => (e.currentTarget.style.background = "transparent")}
+      >
+        <td style={td}>
+          <div style={{ fontWeight: 600 }}>
+            {open ? "▾ " : "▸ "}
+            {r.patient_name}
+          </div>
+          {r.phone && (
+            <div style={{ fontSize: 12, color: c.textSecondary }}>{r.phone}</div>
+          )}
+        </td>
+        <td style={td}>
+          {r.procedures
+            .map((p) => p.ada_code)
+            .filter(Boolean)
+            .join(", ")}
+        </td>
+        <td style={{ ...td, textAlign: "right", fontWeight: 600 }}>
+          {fmt(r.total_value)}
+        </td>
+        <td
+          style={{
+            ...td,
+            textAlign: "right",
+            color: (r.plan_age_days ?? 0) > 365 ? c.yellowText : c.text,
+          }}
+        >
+          {formatAge(r.plan_age_days)}
+        </td>
+        <td style={td}>{r.provider ?? "—"}</td>
+      </tr>,
+      open && (
+        <tr key={`${id}-detail`}>
+          <td colSpan={5} style={{ ...td, backgroundColor: c.card }}>
+            {r.procedures.map((p, k) => (
+              <div
+                key={p.procedure_id ?? k}
+                style={{ display: "flex", gap: 12, padding: "3px 0" }}
+              >
+                <span style={{ fontFamily: "monospace", width: 52 }}>
+                  {p.ada_code}
+                </span>
+                <span style={{ flex: 1 }}>
+                  {p.description}
+                  {p.tooth && (
+                    <span style={{ color: c.textSecondary }}>
+                      {" "}
+                      · {toothRef(p.tooth, numbering)}
+                      {p.surface ? ` ${p.surface}` : ""}
+                    </span>
+                  )}
+                </span>
+                <span style={{ color: c.textSecondary }}>
+                  planned {p.date_planned ?? "—"}
+                </span>
+                <span style={{ width: 90, textAlign: "right" }}>
+                  {fmt(p.fee)}
+                </span>
+              </div>
+            ))}
+            <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+              <button
+                style={btnStyle}
+                onClick={() =>
+                  sendFollowUpMessage(`Present the treatment plan for ${ref}`)
+                }
+              >
+                Treatment plan
+              </button>
+              <button
+                style={btnStyle}
+                onClick={() =>
+                  sendFollowUpMessage(`Show the full report for ${ref}`)
+                }
+              >
+                Report
+              </button>
+            </div>
+          </td>
+        </tr>
+      ),
+    ];
+  };
+
+  const subtitle = [
+    filters?.code_from &&
+      filters.code_to &&
+      `${filters.code_from}–${filters.code_to}`,
+    filters?.provider,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <McpUseProvider autoSize>
+      <div
+        style={{
+          fontFamily:
+            '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          backgroundColor: c.bg,
+          color: c.text,
+          borderRadius: 12,
+          overflow: "hidden",
+          border: `1px solid ${c.border}`,
+        }}
+      >
+        <div
+          style={{
+            padding: "16px 20px",
+            borderBottom: `1px solid ${c.border}`,
+            backgroundColor: c.card,
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12,
+            flexWrap: "wrap",
+          }}
+        >
+          <div>
+            <h2 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
+              Unscheduled treatment · {fmt(total)}
+            </h2>
+            <span style={{ fontSize: 13, color: c.textSecondary }}>
+              {rows.length} patient{rows.length === 1 ? "" : "s"}
+              {subtitle && ` · ${subtitle}`}
+            </span>
+          </div>
+          <DataStamp
+            asOf={asOf}
+            onRefresh={refresh}
+            isRefreshing={isRefreshing}
+            error={refreshError}
+            colors={c}
+          />
+        </div>
+        {rows.length === 0 ? (
+          <div style={{ padding: 40, textAlign: "center", color: c.textSecondary }}>
+            No unscheduled treatment matches these filters.
+          </div>
+        ) : (
+          <div style={{ overflowX: "auto", maxHeight: 560, overflowY: "auto" }}>
+            <table
+              style={{ width: "100%", borderCollapse: "collapse", minWidth: 640 }}
+            >
+              <thead style={{ position: "sticky", top: 0 }}>
+                <tr>
+                  {th("patient", "Patient")}
+                  {th("procedures", "Procedures")}
+                  {th("value", "Value", true)}
+                  {th("age", "Planned", true)}
+                  {th("provider", "Provider")}
+                </tr>
+              </thead>
+              <tbody>{sorted.flatMap(renderRow)}</tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </McpUseProvider>
+  );
+}
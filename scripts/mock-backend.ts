@@ -0,0 +1,966 @@
+// Local stand-in for the OpenDental CUA backend. Serves canned data and
+// streams fake progress so the MCP server and widgets can be exercised
+// without a desktop session:
+//
+//   npm run mock-backend
+//   OPENDENTAL_API_URL=http://localhost:8000 npm run dev
+//
+// MOCK_STEP_MS sets the delay between progress steps (default 1500) and
+// MOCK_STREAM=sse switches from NDJSON to server-sent events.
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+
+const PORT = process.env.MOCK_PORT ? parseInt(process.env.MOCK_PORT) : 8000;
+const STEP_MS = process.env.MOCK_STEP_MS
+  ? parseInt(process.env.MOCK_STEP_MS)
+  : 1500;
+const SSE = process.env.MOCK_STREAM === "sse";
+
+const patients = [
+  { patient_id: 1, first_name: "Maria", last_name: "Lopez", age: 42, birthdate: "1982-04-17", wireless_phone: "(503) 555-0142", address: "12 Oak St", city: "Portland", status: "Patient" },
+  { patient_id: 2, first_name: "John", last_name: "Smith", age: 35, birthdate: "1989-09-02", home_phone: "(503) 555-0199", address: "48 Elm Ave", city: "Beaverton", status: "Patient" },
+  { patient_id: 3, first_name: "John", last_name: "Smith", age: 67, birthdate: "1957-01-23", wireless_phone: "(971) 555-0110", address: "7 Pine Rd", city: "Portland", status: "Inactive" },
+  { patient_id: 4, first_name: "Ava", last_name: "Chen", age: 9, birthdate: "2015-06-30", wireless_phone: "(503) 555-0177", address: "301 Birch Ln", city: "Tigard", status: "Patient" },
+];
+
+// Filler patients so the patient list has several pages
+const FIRST = ["Liam", "Olivia", "Noah", "Emma", "Elijah", "Sophia", "James", "Mia"];
+const LAST = ["Nguyen", "Patel", "Garcia", "Kim", "Brown", "Davis", "Wilson", "Moore"];
+const CITIES = ["Portland", "Beaverton", "Tigard", "Gresham"];
+for (let i = 0; i < 56; i++) {
+  patients.push({
+    patient_id: 100 + i,
+    first_name: FIRST[i % FIRST.length],
+    last_name: LAST[Math.floor(i / FIRST.length) % LAST.length],
+    age: 5 + ((i * 7) % 80),
+    birthdate: `${2019 - ((i * 7) % 80)}-0${(i % 9) + 1}-1${i % 10}`,
+    wireless_phone: `(503) 555-${String(1000 + i)}`,
+    address: `${10 + i} Main St`,
+    city: CITIES[i % CITIES.length],
+    status: i % 9 === 0 ? "Inactive" : "Patient",
+  });
+}
+const providerOf = (p: { patient_id: number }) => (p.patient_id % 2 ? "DOC1" : "DOC2");
+
+function listPatients(q: URLSearchParams) {
+  const prefix = q.get("name_prefix")?.toLowerCase();
+  const num = (k: string) => (q.get(k) != null ? Number(q.get(k)) : undefined);
+  const [minAge, maxAge] = [num("min_age"), num("max_age")];
+  const sort = (q.get("sort") ?? "last_name") as "last_name";
+  const dir = q.get("sort_dir") === "desc" ? -1 : 1;
+  const matches = patients
+    .map((p) => ({ ...p, primary_provider: providerOf(p) }))
+    .filter(
+      (p) =>
+        (!prefix || p.last_name.toLowerCase().startsWith(prefix) || p.first_name.toLowerCase().startsWith(prefix)) &&
+        (!q.get("status") || p.status.toLowerCase() === q.get("status")!.toLowerCase()) &&
+        (!q.get("city") || p.city.toLowerCase() === q.get("city")!.toLowerCase()) &&
+        (!q.get("provider") || p.primary_provider === q.get("provider")) &&
+        (minAge == null || p.age >= minAge) &&
+        (maxAge == null || p.age <= maxAge)
+    )
+    .sort((a, b) => (a[sort] < b[sort] ? -dir : a[sort] > b[sort] ? dir : 0));
+  const page = num("page") ?? 1;
+  const size = num("page_size") ?? 25;
+  return { patients: matches.slice((page - 1) * size, page * size), total_count: matches.length };
+}
+
+// Ava Chen is 9: primary molars alongside her first permanent molars and
+// incisors, plus a mesiodens
+function pediatricChart(name: string) {
+  return {
+    patient_info: { name, age: 9, allergies: "none", medications: "none", problems: "none" },
+    tooth_chart: {
+      teeth_with_conditions: [
+        { tooth_number: 3, condition: "Sealant", surface: "O", notes: null },
+        { tooth_number: 14, condition: "Sealant", surface: "O", notes: null },
+        { tooth_number: 8, condition: "Healthy", surface: null, notes: null },
+        { tooth_number: 9, condition: "Healthy", surface: null, notes: null },
+        { tooth_number: "A", condition: "Decay", surface: "DO", notes: null },
+        { tooth_number: "J", condition: "Filling", surface: "O", notes: null },
+        { tooth_number: "K", condition: "Decay", surface: "MO", notes: "Large, near pulp" },
+        { tooth_number: "T", condition: "Crown", surface: null, notes: "Stainless steel crown" },
+        { tooth_number: 58, condition: "Supernumerary", surface: null, notes: "Mesiodens, monitor" },
+      ],
+      quadrant_summary: {
+        upper_right: "#A DO decay, #3 sealed",
+        upper_left: "#J O composite, #14 sealed",
+        lower_left: "#K MO decay",
+        lower_right: "#T SSC",
+      },
+    },
+    procedures: [
+      { date: "2024-01-10", tooth: "3", surface: "O", ada_code: "D1351", description: "Sealant - per tooth", status: "Complete", provider: "HYG1", amount: 48 },
+      { date: "2024-01-10", tooth: "14", surface: "O", ada_code: "D1351", description: "Sealant - per tooth", status: "Complete", provider: "HYG1", amount: 48 },
+      { date: "2024-01-10", tooth: "T", surface: null, ada_code: "D2930", description: "Prefabricated stainless steel crown - primary tooth", status: "Complete", provider: "DOC1", amount: 280 },
+      { date: "2024-07-15", tooth: "A", surface: "DO", ada_code: "D2391", description: "Resin composite, one surface, posterior", status: "TP", provider: "DOC1", amount: 165 },
+      { date: "2024-07-15", tooth: "K", surface: "MO", ada_code: "D3220", description: "Therapeutic pulpotomy", status: "TP", provider: "DOC1", amount: 210 },
+    ],
+    procedure_summary: {
+      total_procedures: 5,
+      completed_procedures: 3,
+      treatment_planned_procedures: 2,
+      total_charges: 751,
+      procedures_by_type: { exams: 0, cleanings: 0, fillings: 1, crowns: 1 },
+    },
+    clinical_explanation: {
+      overall_dental_health: "Mixed dentition developing normally apart from an unerupted mesiodens between #8 and #9.",
+      treatment_needs: "#A DO composite; #K pulpotomy.",
+      recommendations: "Sealants on #19 and #30 once erupted; panoramic film to follow the mesiodens.",
+    },
+    summary: {
+      total_teeth_with_work: 5,
+      missing_teeth_count: 0,
+      primary_provider: "DOC1",
+      last_visit_date: "2024-07-15",
+    },
+  };
+}
+
+function patientChart(name: string) {
+  if (name === "Ava Chen") return pediatricChart(name);
+  return {
+    patient_info: { name, age: 42, allergies: "Penicillin", medications: "none", problems: "none" },
+    tooth_chart: {
+      teeth_with_conditions: [
+        { tooth_number: 3, condition: "Crown", surface: null, notes: "PFM crown, 2019" },
+        { tooth_number: 14, condition: "Filling", surface: "MO", notes: null },
+        { tooth_number: 19, condition: "Decay", surface: "DO", notes: "Watch" },
+        { tooth_number: 30, condition: "Root Canal", surface: null, notes: null },
+        { tooth_number: 1, condition: "Missing", surface: null, notes: "Extracted" },
+      ],
+      quadrant_summary: {
+        upper_right: "#1 missing, #3 crown",
+        upper_left: "#14 MO composite",
+        lower_left: "#19 DO decay",
+        lower_right: "#30 RCT",
+      },
+    },
+    procedures: [
+      { date: "2024-03-12", tooth: "14", surface: "MO", ada_code: "D2392", description: "Resin composite, two surfaces", status: "Complete", provider: "DOC1", amount: 210 },
+      { date: "2024-03-12", tooth: null, surface: null, ada_code: "D1110", description: "Prophylaxis - adult", status: "Complete", provider: "HYG1", amount: 95 },
+      { date: "2024-06-02", tooth: "19", surface: "DO", ada_code: "D2392", description: "Resin composite, two surfaces", status: "Treatment Planned", provider: "DOC1", amount: 210 },
+      { date: "2024-06-02", tooth: "30", surface: null, ada_code: "D2740", description: "Crown - porcelain/ceramic", status: "TP", provider: "DOC1", amount: 1150 },
+      { date: "2015-08-20", tooth: "2", surface: "O", ada_code: "D1351", description: "Sealant - per tooth", status: "Existing Other Prov", provider: null, amount: 0 },
+    ],
+    procedure_summary: {
+      total_procedures: 5,
+      completed_procedures: 2,
+      treatment_planned_procedures: 2,
+      total_charges: 1665,
+      procedures_by_type: { exams: 0, cleanings: 1, fillings: 2, crowns: 1 },
+    },
+    clinical_explanation: {
+      overall_dental_health: "Fair. One active carious lesion and a tooth needing full coverage after endodontic treatment.",
+      treatment_needs: "#19 DO composite; #30 crown.",
+      periodontal_status: "Generalized 2-3mm pockets, localized bleeding on lower molars.",
+      recommendations: "Complete planned restorative work; 6-month recall.",
+    },
+    summary: {
+      total_teeth_with_work: 4,
+      missing_teeth_count: 1,
+      primary_provider: "DOC1",
+      last_visit_date: "2024-06-02",
+    },
+  };
+}
+
+// Saved demographic edits per patient, laid over the canned report
+const infoEdits = new Map<string, Record<string, string>>();
+const ADDRESS_FIELDS = ["street", "street2", "city", "state", "zip"];
+const CONTACT_FIELDS = ["home_phone", "work_phone", "wireless_phone", "email", "preferred_contact_method"];
+
+function patientInfo(name: string) {
+  const [first_name, ...rest] = name.split(" ");
+  const info: Record<string, any> = {
+    patient_id: patients.find((p) => `${p.first_name} ${p.last_name}` === name)?.patient_id ?? 1,
+    first_name,
+    last_name: rest.join(" "),
+    gender: "Female",
+    birthdate: "1982-04-17",
+    age: 42,
+    billing_type: "Standard Account",
+    primary_provider: "DOC1",
+    address: { street: "12 Oak St", city: "Portland", state: "OR", zip: "97205" },
+    contact: { wireless_phone: "(503) 555-0142", email: "maria@example.com", preferred_contact_method: "Text" },
+  };
+  for (const [field, value] of Object.entries(infoEdits.get(name) ?? {})) {
+    const section = ADDRESS_FIELDS.includes(field) ? info.address : CONTACT_FIELDS.includes(field) ? info.contact : info;
+    section[field] = value || null;
+  }
+  return info;
+}
+
+function updatePatientInfo(q: URLSearchParams, body: Body) {
+  const name = resolvePatient(q);
+  const fields = (body.fields ?? {}) as Record<string, string>;
+  infoEdits.set(name, { ...infoEdits.get(name), ...fields });
+  return { patient_info: patientInfo(name) };
+}
+
+interface LedgerRow {
+  date: string;
+  patient: string;
+  provider: string | null;
+  code: string | null;
+  tooth: string | null;
+  description: string;
+  charges: number;
+  credits: number;
+}
+
+// Payments and adjustments posted through the mock, per guarantor
+const ledger = new Map<string, LedgerRow[]>();
+const dependant = (name: string) => `Leo ${name.split(" ").slice(1).join(" ")}`;
+const round = (v: number) => Math.round(v * 100) / 100;
+
+function account(name: string) {
+  const rows: LedgerRow[] = [
+    { date: "2024-03-12", patient: name, provider: "DOC1", code: "D2392", tooth: "14", description: "Resin composite", charges: 210, credits: 0 },
+    { date: "2024-03-12", patient: name, provider: "HYG1", code: "D1110", tooth: null, description: "Prophylaxis", charges: 95, credits: 0 },
+    { date: "2024-04-01", patient: name, provider: null, code: null, tooth: null, description: "Insurance payment", charges: 0, credits: 95 },
+    { date: "2024-05-20", patient: dependant(name), provider: "HYG1", code: "D1120", tooth: null, description: "Prophylaxis - child", charges: 70, credits: 0 },
+    ...(ledger.get(name) ?? []),
+  ];
+  let running = 0;
+  const owed = new Map<string, number>();
+  const transactions = rows.map((row) => {
+    running += row.charges - row.credits;
+    owed.set(row.patient, (owed.get(row.patient) ?? 0) + row.charges - row.credits);
+    return { ...row, balance: round(running) };
+  });
+  return {
+    balances: {
+      patient_balance: round(owed.get(name) ?? 0),
+      total_family_balance: round(running),
+      family_balances: [...owed].map(([member, balance]) => ({ name: member, balance: round(balance) })),
+    },
+    transactions,
+    claims: [
+      { date: "2024-03-12", carrier: "Delta Dental", amount: 305, status: "Received", estimated_payment: 263, patient_portion: 42 },
+      { date: "2024-05-20", carrier: "Delta Dental", amount: 70, status: "Sent", estimated_payment: 56, patient_portion: 14 },
+    ],
+  };
+}
+
+// Posts one ledger row per split; payments credit, adjustments move the
+// balance by their signed amount
+function postEntry(q: URLSearchParams, body: Body, kind: "payment" | "adjustment") {
+  const name = resolvePatient(q);
+  const amount = Number(q.get("amount"));
+  const type = q.get(kind === "payment" ? "payment_type" : "adjustment_type") ?? "";
+  const splits = (body.splits ?? [{ patient_name: name, amount }]) as {
+    patient_name: string;
+    amount: number;
+    procedure_code?: string;
+  }[];
+  const rows = ledger.get(name) ?? [];
+  for (const split of splits) {
+    const signed = kind === "payment" ? -split.amount : split.amount;
+    rows.push({
+      date: q.get("date") ?? new Date().toISOString().slice(0, 10),
+      patient: split.patient_name,
+      provider: null,
+      code: null,
+      tooth: null,
+      description: `${type} ${kind}${q.get("reference") ? ` #${q.get("reference")}` : ""}${split.procedure_code ? ` (${split.procedure_code})` : ""}`,
+      charges: Math.max(signed, 0),
+      credits: Math.max(-signed, 0),
+    });
+  }
+  ledger.set(name, rows);
+  const { balances } = account(name);
+  return {
+    entry: {
+      entry_id: 5000 + saved.size,
+      date: q.get("date"),
+      amount,
+      patient_balance: balances.patient_balance,
+      total_family_balance: balances.total_family_balance,
+    },
+  };
+}
+
+function patientReport(name: string) {
+  return {
+    patient_info: patientInfo(name),
+    family_members: [
+      { name, position: "Guarantor", gender: "Female", status: "Patient", age: "42", recall_due: "2024-12-02" },
+      { name: dependant(name), position: "Child", gender: "Male", status: "Patient", age: "11", recall_due: "2024-11-20" },
+    ],
+    insurance: {
+      primary: {
+        carrier: "Delta Dental",
+        group_name: "Acme Corp",
+        group_number: "G-1001",
+        subscriber_name: name,
+        subscriber_id: "DD123456",
+        relationship_to_subscriber: "Self",
+        plan_type: "PPO",
+        annual_max: 1500,
+        insurance_used: 420,
+        deductible_remaining: 0,
+        coverage_percentages: { diagnostic: "100%", preventive: "100%", basic: "80%", major: "50%" },
+      },
+    },
+    recall: { type: "Prophy", interval: "6m", previous_date: "2024-06-02", due_date: "2024-12-02", scheduled_date: null },
+    account: account(name),
+    treatment_plans: {
+      active_plans: [{ heading: "Restorative", date: "2024-06-02", status: "Active", signed: "No" }],
+      procedures: [
+        { done: "No", priority: "1", tooth: "19", surface: "DO", code: "D2392", description: "Resin composite, two surfaces", fee: 210, insurance_estimate: 168, patient_portion: 42 },
+        { done: "No", priority: "2", tooth: "30", surface: null, code: "D2740", description: "Crown - porcelain/ceramic", fee: 1150, insurance_estimate: 575, patient_portion: 575 },
+      ],
+      totals: { total_fee: 1360, total_insurance_estimate: 743, total_patient_portion: 617 },
+      insurance_benefits: {
+        primary: { annual_max: 1500, deductible_remaining: 0, insurance_used: 420, pending: 0, remaining: 1080 },
+      },
+    },
+    appointments: {
+      next_appointment: { date: "2024-12-02", time: "09:00", provider: "HYG1", procedures: "Prophy, BWX" },
+      scheduled_appointments: [
+        { date: "2024-12-02", time: "09:00", provider: "HYG1", status: "Scheduled", procedures: "Prophy, BWX", operatory: "OP 2" },
+      ],
+      past_appointments: [
+        { date: "2024-06-02", time: "10:30", provider: "DOC1", status: "Complete", procedures: "Exam", notes: null },
+      ],
+    },
+    summary: {
+      total_outstanding_balance: account(name).balances.total_family_balance,
+      pending_insurance_claims: 1,
+      pending_treatment_value: 1360,
+      next_recall_due: "2024-12-02",
+      insurance_benefits_remaining: 1080,
+    },
+  };
+}
+
+class HttpError {
+  constructor(public status: number, public detail: unknown) {}
+}
+
+// Mirrors the backend's patient lookup so not-found and ambiguous-patient
+// failures can be exercised ("John Smith" matches two patients)
+function resolvePatient(q: URLSearchParams) {
+  const id = q.get("patient_id");
+  if (id) {
+    const p = patients.find((p) => String(p.patient_id) === id);
+    if (!p) throw new HttpError(404, { code: "patient_not_found", message: `No patient with id ${id}` });
+    return `${p.first_name} ${p.last_name}`;
+  }
+  const name = q.get("patient_name") ?? "Maria Lopez";
+  const matches = patients.filter((p) =>
+    `${p.first_name} ${p.last_name}`.toLowerCase().includes(name.trim().toLowerCase())
+  );
+  if (matches.length === 0) {
+    throw new HttpError(404, { code: "patient_not_found", message: `No patient named "${name}"` });
+  }
+  if (matches.length > 1) {
+    throw new HttpError(409, {
+      code: "ambiguous_patient",
+      message: `${matches.length} patients match "${name}"`,
+      candidates: matches.map((p) => ({ patient_id: p.patient_id, name: `${p.first_name} ${p.last_name}`, age: p.age })),
+    });
+  }
+  return `${matches[0].first_name} ${matches[0].last_name}`;
+}
+
+// A plausible appointment book: three operatories, a few visits each per
+// weekday, completed or broken in the past and scheduled or confirmed ahead
+const OPERATORIES = [
+  { name: "OP1", provider: "DOC1" },
+  { name: "OP2", provider: "DOC2" },
+  { name: "HYG1", provider: "HYG1" },
+];
+const VISITS = ["Comp Ex, 4BW", "Pro, Fl", "MOD-C", "Crown Prep #19", "Perio Maint", "Extraction #32"];
+
+function schedule(q: URLSearchParams) {
+  const start = q.get("start_date") ?? new Date().toISOString().slice(0, 10);
+  const end = q.get("end_date") ?? start;
+  const today = new Date().toISOString().slice(0, 10);
+  const ops = OPERATORIES.filter(
+    (op) =>
+      (!q.get("operatory") || op.name === q.get("operatory")) &&
+      (!q.get("provider") || op.provider === q.get("provider"))
+  );
+  const appointments = [];
+  let id = 1;
+  for (let d = new Date(`${start}T12:00:00Z`); d.toISOString().slice(0, 10) <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+    const date = d.toISOString().slice(0, 10);
+    if (d.getUTCDay() === 0 || d.getUTCDay() === 6) continue;
+    for (const [o, op] of OPERATORIES.entries()) {
+      let minutes = 8 * 60 + o * 20;
+      for (let k = 0; k < 5; k++) {
+        const seed = d.getUTCDate() * 7 + o * 3 + k;
+        const p = patients[seed % patients.length];
+        const length = [30, 60, 90][seed % 3];
+        if (ops.includes(op)) {
+          appointments.push({
+            appointment_id: id,
+            date,
+            time: `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`,
+            length_minutes: length,
+            patient_id: p.patient_id,
+            patient_name: `${p.first_name} ${p.last_name}`,
+            provider: op.provider,
+            operatory: op.name,
+            status: date < today ? (seed % 6 === 0 ? "Broken" : "Complete") : seed % 2 ? "Confirmed" : "Scheduled",
+            procedures: VISITS[seed % VISITS.length],
+            notes: seed % 5 === 0 ? "Prefers morning reminders" : null,
+          });
+        }
+        id++;
+        minutes += length + (seed % 2) * 30;
+      }
+    }
+  }
+  return { schedule: { appointments, operatories: ops.map((op) => op.name) } };
+}
+
+// One recall per active patient, spread from ten months overdue to three
+// months ahead; every fourth one already has an appointment
+const contacted = new Map<number, string>();
+
+function recalls(q: URLSearchParams) {
+  const day = (offset: number) => {
+    const d = new Date();
+    d.setUTCDate(d.getUTCDate() + offset);
+    return d.toISOString().slice(0, 10);
+  };
+  const start = q.get("start_date") ?? "0000-01-01";
+  const end = q.get("end_date") ?? "9999-12-31";
+  const list = patients
+    .filter((p) => p.status === "Patient")
+    .map((p) => {
+      const offset = ((p.patient_id * 37) % 400) - 300;
+      return {
+        patient_id: p.patient_id,
+        patient_name: `${p.first_name} ${p.last_name}`,
+        recall_type: p.patient_id % 5 === 0 ? "Perio" : "Prophy",
+        due_date: day(offset),
+        previous_date: day(offset - 183),
+        scheduled_date: p.patient_id % 4 === 0 ? day(Math.max(offset, 0) + 14) : null,
+        provider: p.patient_id % 3 === 0 ? "HYG2" : "HYG1",
+        home_phone: "home_phone" in p ? p.home_phone : null,
+        wireless_phone: "wireless_phone" in p ? p.wireless_phone : null,
+        last_contacted: contacted.get(p.patient_id) ?? null,
+      };
+    })
+    .filter(
+      (r) =>
+        r.due_date >= start &&
+        r.due_date <= end &&
+        (!q.get("recall_type") || r.recall_type.toLowerCase() === q.get("recall_type")!.toLowerCase()) &&
+        (!q.get("provider") || r.provider === q.get("provider"))
+    );
+  return { recalls: list };
+}
+
+// Planned procedures nobody has booked: most active patients have one or
+// two, planned between a few weeks and two years ago
+const PLANNED = [
+  { ada_code: "D2392", description: "Resin composite, two surfaces", fee: 210 },
+  { ada_code: "D2740", description: "Crown - porcelain/ceramic", fee: 1150 },
+  { ada_code: "D3330", description: "Root canal, molar", fee: 1100 },
+  { ada_code: "D4341", description: "Scaling and root planing, per quad", fee: 260 },
+  { ada_code: "D6010", description: "Implant body, endosteal", fee: 2100 },
+  { ada_code: "D7140", description: "Extraction, erupted tooth", fee: 180 },
+];
+
+function unscheduledTreatment(q: URLSearchParams) {
+  const list = patients
+    .filter((p) => p.status === "Patient" && p.patient_id % 3 !== 0)
+    .map((p) => {
+      const provider = providerOf(p);
+      const count = (p.patient_id % 2) + 1;
+      const procedures = Array.from({ length: count }, (_, k) => {
+        const item = PLANNED[(p.patient_id + k * 4) % PLANNED.length];
+        const planned = new Date();
+        planned.setUTCDate(planned.getUTCDate() - ((p.patient_id * 53 + k * 17) % 700) - 14);
+        return {
+          procedure_id: p.patient_id * 10 + k,
+          ...item,
+          tooth: String(((p.patient_id + k * 5) % 32) + 1),
+          surface: item.ada_code === "D2392" ? "MO" : null,
+          date_planned: planned.toISOString().slice(0, 10),
+          provider,
+        };
+      });
+      return {
+        patient_id: p.patient_id,
+        patient_name: `${p.first_name} ${p.last_name}`,
+        provider,
+        phone: "wireless_phone" in p ? p.wireless_phone : p.home_phone,
+        procedures,
+      };
+    })
+    .filter((p) => !q.get("provider") || p.provider === q.get("provider"));
+  return { patients: list };
+}
+
+// Families share a last name; the first member found is the guarantor.
+// About half the families carry a balance, some of it long overdue.
+const BILLING_TYPES = ["Standard Account", "Insurance Only", "Payment Plan"];
+
+function arAging(q: URLSearchParams) {
+  const families = new Map<string, typeof patients>();
+  for (const p of patients) {
+    families.set(p.last_name, [...(families.get(p.last_name) ?? []), p]);
+  }
+  const cents = (v: number) => Math.round(v * 100) / 100;
+  const amount = (seed: number, scale: number) =>
+    seed % 3 === 0 ? 0 : cents(((seed * 7919) % 1000) * scale);
+  const list = [...families.values()]
+    .filter((members) => members[0].patient_id % 2 === 0 || members.length > 1)
+    .map((members) => {
+      const g = members[0];
+      const seed = g.patient_id;
+      const split = (k: number, insuranceShare: number) => {
+        const total = amount(seed + k, 1 / (k + 1));
+        const insurance = Math.round(total * insuranceShare);
+        return { patient: cents(total - insurance), insurance };
+      };
+      return {
+        guarantor_id: g.patient_id,
+        guarantor_name: `${g.first_name} ${g.last_name}`,
+        billing_type: BILLING_TYPES[seed % BILLING_TYPES.length],
+        provider: providerOf(g),
+        phone: "wireless_phone" in g ? g.wireless_phone : g.home_phone,
+        last_payment_date: seed % 4 ? "2026-08-14" : null,
+        members: members.map((m, i) => ({
+          patient_id: m.patient_id,
+          name: `${m.first_name} ${m.last_name}`,
+          balance: i === 0 ? amount(seed, 1) : amount(m.patient_id, 0.3),
+        })),
+        aging: {
+          days_0_30: split(0, 0.6),
+          days_31_60: split(1, 0.4),
+          days_61_90: split(2, 0.2),
+          days_over_90: split(3, 0),
+        },
+      };
+    })
+    .filter(
+      (f) =>
+        (!q.get("billing_type") || f.billing_type.toLowerCase() === q.get("billing_type")!.toLowerCase()) &&
+        (!q.get("provider") || f.provider === q.get("provider"))
+    );
+  return { families: list };
+}
+
+// Claims for the last four months; older ones have mostly been paid
+const CARRIERS = ["Delta Dental", "MetLife", "Cigna", "Aetna"];
+
+function claims(q: URLSearchParams) {
+  const day = (offset: number) => {
+    const d = new Date();
+    d.setUTCDate(d.getUTCDate() - offset);
+    return d.toISOString().slice(0, 10);
+  };
+  const list = patients
+    .filter((p) => p.status === "Patient")
+    .map((p, i) => {
+      const age = (p.patient_id * 29) % 120;
+      const status =
+        age < 3 ? "Unsent" : i % 11 === 0 ? "Rejected" : age > 45 && i % 3 ? "Received" : "Sent";
+      const amount = 150 + ((p.patient_id * 97) % 1200);
+      return {
+        claim_id: 7000 + p.patient_id,
+        patient_id: p.patient_id,
+        patient_name: `${p.first_name} ${p.last_name}`,
+        provider: providerOf(p),
+        date: day(age),
+        carrier: CARRIERS[p.patient_id % CARRIERS.length],
+        amount,
+        status,
+        date_sent: status === "Unsent" ? null : day(Math.max(age - 2, 0)),
+        date_received: status === "Received" ? day(age - 30) : null,
+        estimated_payment: Math.round(amount * 0.7),
+        patient_portion: amount - Math.round(amount * 0.7),
+      };
+    })
+    .filter(
+      (c) =>
+        (!q.get("status") || c.status.toLowerCase() === q.get("status")) &&
+        (!q.get("carrier") || c.carrier.toLowerCase().includes(q.get("carrier")!.toLowerCase()))
+    );
+  return { claims: list };
+}
+
+// Plan data of uneven quality: some patients have no insurance, some were
+// verified long ago and some are missing coverage or subscriber details
+function coverage(p: (typeof patients)[number], appointment?: { time: string; provider: string }) {
+  const seed = p.patient_id;
+  const verified = new Date();
+  verified.setUTCDate(verified.getUTCDate() - ((seed * 41) % 300));
+  const plan = seed % 7 === 0
+    ? null
+    : {
+        carrier: CARRIERS[seed % CARRIERS.length],
+        group_name: "Acme Corp",
+        group_number: seed % 5 === 0 ? null : `G-${1000 + seed}`,
+        subscriber_name: `${p.first_name} ${p.last_name}`,
+        subscriber_id: `SUB${100000 + seed * 13}`,
+        relationship_to_subscriber: "Self",
+        plan_type: "PPO",
+        annual_max: 1500,
+        insurance_used: (seed * 173) % 1700,
+        deductible_remaining: seed % 2 ? 0 : 50,
+        coverage_percentages:
+          seed % 6 === 0
+            ? { diagnostic: "100%", preventive: "100%" }
+            : { diagnostic: "100%", preventive: "100%", basic: "80%", major: "50%" },
+        benefits_verified_date: seed % 9 === 0 ? null : verified.toISOString().slice(0, 10),
+        plan_effective_date: "2026-01-01",
+      };
+  return {
+    patient_id: p.patient_id,
+    patient_name: `${p.first_name} ${p.last_name}`,
+    appointment_time: appointment?.time ?? null,
+    provider: appointment?.provider ?? providerOf(p),
+    primary: plan,
+    secondary: null,
+  };
+}
+
+function verifyInsurance(q: URLSearchParams) {
+  if (q.get("patient_id") || q.get("patient_name")) {
+    const name = resolvePatient(q);
+    const p = patients.find((p) => `${p.first_name} ${p.last_name}` === name)!;
+    return { patients: [coverage(p)] };
+  }
+  const date = q.get("date") ?? new Date().toISOString().slice(0, 10);
+  const day = schedule(new URLSearchParams({ start_date: date, end_date: date }));
+  const seen = new Set<number>();
+  const list = [];
+  for (const a of day.schedule.appointments) {
+    if (seen.has(a.patient_id)) continue;
+    seen.add(a.patient_id);
+    const p = patients.find((p) => p.patient_id === a.patient_id)!;
+    list.push(coverage(p, { time: a.time, provider: a.provider }));
+  }
+  return { patients: list };
+}
+
+// Two perio exams six months apart. Mostly healthy 2-3mm pockets, with
+// molars deepening since the last exam.
+const MISSING_TEETH = [1, 16, 17, 32];
+
+function perioExam(seed: number, date: string, worsen: number) {
+  const teeth = Array.from({ length: 32 }, (_, i) => {
+    const n = i + 1;
+    if (MISSING_TEETH.includes(n)) return { tooth_number: n, missing: true };
+    const molar = [2, 3, 14, 15, 18, 19, 30, 31].includes(n);
+    const side = (offset: number) => {
+      const depths = [0, 1, 2].map((k) => {
+        const base = 2 + ((seed + n * 3 + k + offset) % 3 === 0 ? 1 : 0);
+        return base + (molar && k !== 1 ? worsen + ((n + seed) % 3) : 0);
+      });
+      return {
+        depths,
+        recession: [0, 1, 2].map((k) => (molar && (n + k) % 4 === 0 ? 1 : 0)),
+        bleeding: depths.map((d) => d >= 4 || (n + offset) % 7 === 0),
+      };
+    };
+    return {
+      tooth_number: n,
+      facial: side(0),
+      lingual: side(1),
+      mobility: molar && worsen > 1 && n % 2 ? 1 : 0,
+      furcation: molar && worsen > 1 && n === 30 ? "II" : null,
+    };
+  });
+  return { exam_date: date, provider: "HYG1", teeth };
+}
+
+function perioChart(name: string) {
+  const seed = name.length;
+  return {
+    patient_name: name,
+    perio_chart: {
+      exams: [perioExam(seed, "2026-09-15", 2), perioExam(seed, "2026-03-10", 0)],
+    },
+  };
+}
+
+// Accepted procedure ids per patient, as recorded by accept-treatment
+const accepted = new Map<string, Set<number>>();
+
+function treatmentPlan(name: string) {
+  const yes = accepted.get(name) ?? new Set<number>();
+  const proc = (
+    procedure_id: number,
+    phase: string,
+    priority: string,
+    tooth: string | null,
+    surface: string | null,
+    code: string,
+    description: string,
+    fee: number,
+    insurance_estimate: number
+  ) => ({
+    procedure_id,
+    phase,
+    done: "No",
+    priority,
+    tooth,
+    surface,
+    code,
+    description,
+    fee,
+    insurance_estimate,
+    patient_portion: fee - insurance_estimate,
+    accepted: yes.has(procedure_id),
+  });
+  return {
+    patient_name: name,
+    treatment_plan: {
+      heading: "Comprehensive",
+      date: "2024-06-02",
+      signed: "No",
+      procedures: [
+        proc(501, "Phase 1 - Urgent", "1", "19", "DO", "D2392", "Resin composite, two surfaces", 210, 168),
+        proc(502, "Phase 1 - Urgent", "1", "30", null, "D3330", "Root canal, molar", 1100, 880),
+        proc(503, "Phase 2 - Restorative", "2", "30", null, "D2740", "Crown - porcelain/ceramic", 1150, 575),
+        proc(504, "Phase 2 - Restorative", "3", "3", "MOD", "D2393", "Resin composite, three surfaces", 260, 208),
+        proc(505, "Phase 3 - Elective", "4", null, null, "D9972", "External bleaching, per arch", 350, 0),
+      ],
+      insurance_benefits: {
+        primary: { annual_max: 1500, deductible: 50, deductible_remaining: 50, insurance_used: 420, pending: 0, remaining: 1080 },
+      },
+    },
+  };
+}
+
+const saved = new Map<string, unknown>();
+
+function saveOnce(q: URLSearchParams, save: () => unknown) {
+  const key = q.get("idempotency_key");
+  if (key && saved.has(key)) return { ...(saved.get(key) as object), replayed: true };
+  const result = save();
+  saved.set(key ?? String(saved.size), result);
+  return result;
+}
+
+function appointmentFrom(q: URLSearchParams) {
+  const length = q.get("length_minutes");
+  return {
+    date: q.get("date"),
+    time: q.get("time"),
+    length_minutes: length ? Number(length) : 60,
+    provider: q.get("provider") ?? "DOC1",
+    operatory: q.get("operatory") ?? "OP1",
+    procedures: q.get("procedures"),
+    notes: q.get("notes"),
+  };
+}
+
+// Writes send their fields as a JSON body; its text and number fields are
+// merged into the query so routes read them the same way
+type Body = Record<string, unknown>;
+
+const routes: Record<string, { steps: string[]; data: (q: URLSearchParams, body: Body) => unknown }> = {
+  "/api/patients": {
+    steps: ["opened patient selector", "reading patient list"],
+    data: listPatients,
+  },
+  // Loose search like OpenDental's patient select: any token of the name, a
+  // phone suffix, the birthdate or the id
+  "/api/patients/search": {
+    steps: ["opened patient selector", "searching"],
+    data: (q) => {
+      const tokens = (q.get("name") ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+      const phone = (q.get("phone") ?? "").replace(/\D/g, "").slice(-7);
+      const matches = patients.filter(
+        (p) =>
+          tokens.some((t) => `${p.first_name} ${p.last_name}`.toLowerCase().includes(t.slice(0, 3))) ||
+          (phone && [p.wireless_phone, p.home_phone].some((ph) => ph?.replace(/\D/g, "").endsWith(phone))) ||
+          q.get("birthdate") === p.birthdate ||
+          q.get("patient_id") === String(p.patient_id)
+      );
+      return { patients: matches, total_count: matches.length };
+    },
+  },
+  "/api/schedule": {
+    steps: ["opened appointment book", "reading appointments"],
+    data: schedule,
+  },
+  // Writes echo the saved appointment; a repeated idempotency key returns the
+  // first result instead of booking twice
+  "/api/appointments": {
+    steps: ["opened appointment book", "placing appointment", "saving"],
+    data: (q) =>
+      saveOnce(q, () => ({
+        appointment: {
+          ...appointmentFrom(q),
+          appointment_id: 9000 + saved.size,
+          status: "Scheduled",
+        },
+      })),
+  },
+  "/api/appointments/reschedule": {
+    steps: ["opened appointment book", "moving appointment", "saving"],
+    data: (q) =>
+      saveOnce(q, () => ({
+        appointment: {
+          ...appointmentFrom(q),
+          appointment_id: Number(q.get("appointment_id")),
+        },
+      })),
+  },
+  "/api/recalls": {
+    steps: ["opened recall list", "applying filters", "reading recalls"],
+    data: recalls,
+  },
+  "/api/recalls/contacted": {
+    steps: ["opened patient", "adding commlog entry", "saving"],
+    data: (q) => {
+      const date = q.get("date") ?? new Date().toISOString().slice(0, 10);
+      contacted.set(Number(q.get("patient_id")), date);
+      return { last_contacted: date };
+    },
+  },
+  "/api/treatment/unscheduled": {
+    steps: ["opened treatment finder", "applying filters", "reading planned procedures"],
+    data: unscheduledTreatment,
+  },
+  "/api/ar_aging": {
+    steps: ["opened aging of A/R report", "applying filters", "running report", "reading results"],
+    data: arAging,
+  },
+  "/api/claims": {
+    steps: ["opened outstanding claims", "applying filters", "reading claims"],
+    data: claims,
+  },
+  "/api/insurance/verify": {
+    steps: ["reading schedule", "opened insurance plans", "reading benefits", "checking eligibility"],
+    data: verifyInsurance,
+  },
+  "/api/perio_chart": {
+    steps: ["opened patient", "opened perio chart", "reading current exam", "reading previous exam"],
+    data: (q) => perioChart(resolvePatient(q)),
+  },
+  "/api/treatment_plan": {
+    steps: ["opened patient", "opened treatment plan module", "reading procedures", "reading benefits"],
+    data: (q) => treatmentPlan(resolvePatient(q)),
+  },
+  "/api/treatment_plan/accept": {
+    steps: ["opened treatment plan module", "marking procedures accepted", "saving"],
+    data: (q, body) => {
+      const name = resolvePatient(q);
+      const ids = (body.procedure_ids ?? []) as number[];
+      accepted.set(name, new Set([...(accepted.get(name) ?? []), ...ids]));
+      return { accepted: ids };
+    },
+  },
+  "/api/patient_chart": {
+    steps: ["opened patient", "opened chart module", "reading tooth chart", "reading procedures", "parsing perio", "summarizing clinical notes"],
+    data: (q) => ({ patient_chart: patientChart(resolvePatient(q)) }),
+  },
+  "/api/patients/create": {
+    steps: ["opened patient selector", "adding patient", "entering details", "saving"],
+    data: (q) =>
+      saveOnce(q, () => {
+        const patient = {
+          patient_id: 200 + patients.length,
+          first_name: q.get("first_name") ?? "",
+          last_name: q.get("last_name") ?? "",
+          age: new Date().getFullYear() - Number((q.get("birthdate") ?? "").slice(0, 4)),
+          birthdate: q.get("birthdate") ?? "",
+          wireless_phone: q.get("wireless_phone") ?? undefined,
+          home_phone: q.get("home_phone") ?? undefined,
+          address: q.get("street") ?? "",
+          city: q.get("city") ?? "",
+          status: "Patient",
+        };
+        patients.push(patient as (typeof patients)[number]);
+        return { patient: { ...patient, primary_provider: q.get("primary_provider") ?? providerOf(patient) } };
+      }),
+  },
+  "/api/payments": {
+    steps: ["opened account module", "entering payment", "allocating splits", "saving"],
+    data: (q, body) => saveOnce(q, () => postEntry(q, body, "payment")),
+  },
+  "/api/adjustments": {
+    steps: ["opened account module", "entering adjustment", "saving"],
+    data: (q, body) => saveOnce(q, () => postEntry(q, body, "adjustment")),
+  },
+  "/api/patients/update": {
+    steps: ["opened patient", "opened edit patient information", "updating fields", "saving"],
+    data: (q, body) => saveOnce(q, () => updatePatientInfo(q, body)),
+  },
+  "/api/clinical_notes": {
+    steps: ["opened patient", "opened chart module", "adding progress note", "signing note", "saving"],
+    data: (q) =>
+      saveOnce(q, () => ({
+        note: {
+          note_id: 7000 + saved.size,
+          date: q.get("note_date"),
+          provider: q.get("provider") ?? "DOC1",
+          text: q.get("note"),
+        },
+      })),
+  },
+  "/api/reports": {
+    steps: ["opened patient", "reading family module", "reading insurance", "reading account", "reading treatment plans", "reading appointments"],
+    data: (q) => ({ patient_report: patientReport(resolvePatient(q)) }),
+  },
+};
+
+async function readBody(req: IncomingMessage): Promise<Body> {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  return text ? JSON.parse(text) : {};
+}
+
+function send(res: ServerResponse, event: unknown) {
+  const json = JSON.stringify(event);
+  res.write(SSE ? `data: ${json}\n\n` : `${json}\n`);
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const route = routes[url.pathname];
+  if (!route) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ detail: "Not found" }));
+    return;
+  }
+
+  const body = await readBody(req);
+  const q = new URLSearchParams(url.searchParams);
+  for (const [k, v] of Object.entries(body)) {
+    if (typeof v === "string" || typeof v === "number") q.set(k, String(v));
+  }
+
+  let data: unknown;
+  try {
+    data = route.data(q, body);
+  } catch (e) {
+    if (!(e instanceof HttpError)) throw e;
+    res.writeHead(e.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ detail: e.detail }));
+    return;
+  }
+
+  const accept = req.headers.accept ?? "";
+  if (!accept.includes("ndjson") && !accept.includes("event-stream")) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ data }));
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": SSE ? "text/event-stream" : "application/x-ndjson",
+  });
+  let closed = false;
+  res.on("close", () => (closed = true));
+  for (const [i, step] of route.steps.entries()) {
+    if (closed) return;
+    send(res, { type: "progress", step, progress: i + 1, total: route.steps.length });
+    await new Promise((r) => setTimeout(r, STEP_MS));
+  }
+  send(res, { type: "result", data });
+  res.end();
+}).listen(PORT, () => {
+  console.log(`Mock OpenDental backend on http://localhost:${PORT}`);
+});
@@ -0,0 +1,258 @@
+import { CircuitBreaker } from "./circuit-breaker.js";
+import { BackendError, classifyBackendFailure } from "./errors.js";
+import { RequestQueue } from "./queue.js";
+
+export const OPENDENTAL_API_URL =
+  process.env.OPENDENTAL_API_URL || "http://localhost:8000";
+
+// One step reported by the backend while a computer-use run is in flight
+export interface BackendProgress {
+  step: string;
+  progress?: number;
+  total?: number;
+}
+
+export interface BackendRequest {
+  method?: "GET" | "POST";
+  params?: Record<string, string>;
+  // Sent as JSON. Writes put what they write here rather than in params, so
+  // notes and patient details stay out of URLs and the logs that record them.
+  body?: Record<string, unknown>;
+  timeoutMs?: number;
+  // Aborts the request early, e.g. when a job is cancelled
+  signal?: AbortSignal;
+  // Called for each progress event when the backend streams its response
+  onProgress?: (progress: BackendProgress) => void;
+  // Called with the number of requests ahead while this one waits its turn
+  onQueued?: (ahead: number | undefined) => void;
+  // Safe to repeat: transient failures are retried with backoff
+  idempotent?: boolean;
+  // Reads one patient by name or id, so a bare 404 or 409 means the
+  // patient was not found or is ambiguous
+  patientLookup?: boolean;
+}
+
+const MAX_RETRIES = process.env.BACKEND_MAX_RETRIES
+  ? parseInt(process.env.BACKEND_MAX_RETRIES)
+  : 2;
+const RETRY_BASE_MS = 1_000;
+const RETRY_MAX_MS = 30_000;
+
+const breaker = new CircuitBreaker(
+  process.env.BACKEND_BREAKER_THRESHOLD
+    ? parseInt(process.env.BACKEND_BREAKER_THRESHOLD)
+    : 5,
+  60_000
+);
+
+// How many backend requests may drive the OpenDental desktop at once
+const CONCURRENCY = process.env.BACKEND_CONCURRENCY
+  ? parseInt(process.env.BACKEND_CONCURRENCY)
+  : 1;
+
+const queue = new RequestQueue(CONCURRENCY);
+
+// Shared helper to call the FastAPI backend with per-tool timeout. Calls wait
+// their turn in a queue, and identical idempotent calls in flight share one
+// run. Failures are thrown as classified BackendErrors; idempotent calls are
+// retried while the failure is transient, and a circuit breaker fails fast
+// while the backend is down.
+export function callBackend(path: string, req: BackendRequest = {}) {
+  return queue.run<any>(
+    (signal, onProgress) =>
+      callWithRetries(path, { ...req, signal, onProgress }),
+    {
+      key: req.idempotent ? requestKey(path, req) : undefined,
+      signal: req.signal,
+      onProgress: req.onProgress,
+      onQueued: req.onQueued,
+    }
+  );
+}
+
+function requestKey(
+  path: string,
+  { method = "POST", params, body }: BackendRequest
+) {
+  const query = Object.entries(params ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${v.trim().toLowerCase()}`)
+    .join("&");
+  return `${method} ${path}?${query}${body ? ` ${JSON.stringify(body)}` : ""}`;
+}
+
+async function callWithRetries(path: string, req: BackendRequest) {
+  const attempts = req.idempotent ? MAX_RETRIES + 1 : 1;
+  for (let attempt = 1; ; attempt++) {
+    breaker.acquire();
+    try {
+      const result = await attemptCall(path, req);
+      breaker.success();
+      return result;
+    } catch (e) {
+      if (req.signal?.aborted) {
+        breaker.release();
+        throw e;
+      }
+      const err = e instanceof BackendError ? e : toBackendError(e);
+      if (err.kind === "unavailable") breaker.failure();
+      else breaker.success();
+
+      if (!err.retryable || attempt >= attempts) throw err;
+      await sleep(backoff(attempt), req.signal);
+    }
+  }
+}
+
+async function attemptCall(
+  path: string,
+  {
+    method = "POST",
+    params,
+    body,
+    timeoutMs = 5 * 60_000,
+    signal,
+    onProgress,
+    patientLookup,
+  }: BackendRequest
+) {
+  const url = new URL(path, OPENDENTAL_API_URL);
+  if (params) {
+    for (const [k, v] of Object.entries(params)) {
+      url.searchParams.set(k, v);
+    }
+  }
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    const res = await fetch(url.toString(), {
+      method,
+      signal: controller.signal,
+      headers: {
+        Accept: "application/x-ndjson, text/event-stream, application/json",
+        ...(body && { "Content-Type": "application/json" }),
+      },
+      body: body && JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw classifyBackendFailure(
+        res.status,
+        body ?? { detail: `Backend returned ${res.status}: ${res.statusText}` },
+        patientLookup
+      );
+    }
+    const contentType = res.headers.get("content-type") ?? "";
+    const sse = contentType.includes("event-stream");
+    if (sse || contentType.includes("ndjson")) {
+      return await readStream(res, sse, onProgress);
+    }
+    return await res.json();
+  } catch (e) {
+    if (timedOut) {
+      const minutes = Math.round(timeoutMs / 60_000);
+      throw new BackendError(
+        "timeout",
+        `No response from the backend after ${minutes} minute(s)`
+      );
+    }
+    throw e;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Network-level failures (refused connections, dropped streams) mean the
+// backend is unreachable
+function toBackendError(e: any) {
+  if (e instanceof TypeError) {
+    const code = (e.cause as { code?: string } | undefined)?.code;
+    return new BackendError(
+      "unavailable",
+      `Could not reach the backend at ${OPENDENTAL_API_URL}` +
+        (code ? ` (${code})` : "")
+    );
+  }
+  return new BackendError("backend_error", e?.message ?? String(e));
+}
+
+// Full jitter: a random delay up to the exponential cap
+function backoff(attempt: number) {
+  const cap = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return Math.random() * cap;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new Error("Request cancelled"));
+      },
+      { once: true }
+    );
+  });
+}
+
+// Streaming responses are a sequence of JSON events, either one per line
+// (NDJSON) or as SSE `data:` frames:
+//   {"type": "progress", "step": "reading procedures", "progress": 2, "total": 5}
+//   {"type": "result", "data": {...}}
+//   {"type": "error", "code": "automation_failed", "message": "..."}
+async function readStream(
+  res: Response,
+  sse: boolean,
+  onProgress?: (progress: BackendProgress) => void
+) {
+  if (!res.body) throw new Error("Backend returned an empty stream");
+  const decoder = new TextDecoder();
+  const separator = sse ? /\r?\n\r?\n/ : /\r?\n/;
+  let buffer = "";
+  let result: unknown;
+
+  const handle = (chunk: string) => {
+    const payload = sse
+      ? chunk
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n")
+      : chunk;
+    if (!payload.trim()) return;
+
+    const event = JSON.parse(payload);
+    if (event.type === "progress") {
+      onProgress?.({
+        step: event.step ?? event.message ?? "Working",
+        progress: event.progress,
+        total: event.total,
+      });
+    } else if (event.type === "error") {
+      throw classifyBackendFailure(undefined, event);
+    } else if (event.type === "result") {
+      result = event.data ?? event;
+    }
+  };
+
+  for await (const bytes of res.body) {
+    buffer += decoder.decode(bytes, { stream: true });
+    const parts = buffer.split(separator);
+    buffer = parts.pop() ?? "";
+    parts.forEach(handle);
+  }
+  handle(buffer + decoder.decode());
+
+  if (result === undefined) {
+    throw new Error("Backend stream ended without a result");
+  }
+  return result as any;
+}
@@ -0,0 +1,108 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from "node:crypto";
+
+interface Entry {
+  iv: Buffer;
+  tag: Buffer;
+  data: Buffer;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  storedAt: number;
+}
+
+// Cached results hold patient data, so entries are kept encrypted with
+// AES-256-GCM. CACHE_ENCRYPTION_KEY (32 bytes, base64) pins the key;
+// otherwise a random key is generated per process.
+function loadKey() {
+  const configured = process.env.CACHE_ENCRYPTION_KEY;
+  if (!configured) return randomBytes(32);
+  const key = Buffer.from(configured, "base64");
+  if (key.length !== 32) {
+    throw new Error("CACHE_ENCRYPTION_KEY must be 32 bytes, base64-encoded");
+  }
+  return key;
+}
+
+// In-memory TTL cache for backend results. Expired entries are dropped on
+// read and swept periodically.
+//
+// Keys look like `get-reports?patient_name=maria lopez`. The query part
+// names a patient, so the map holds an HMAC of it under the same key; only
+// the part before "?" stays readable, for invalidate().
+export class ResultCache {
+  private entries = new Map<string, Entry>();
+  private key = loadKey();
+
+  private id(key: string) {
+    const split = key.indexOf("?");
+    const scope = split >= 0 ? key.slice(0, split + 1) : "";
+    const mac = createHmac("sha256", this.key).update(key).digest("base64url");
+    return `${scope}${mac}`;
+  }
+
+  constructor(sweepIntervalMs = 60_000) {
+    const sweeper = setInterval(() => this.sweep(), sweepIntervalMs);
+    sweeper.unref();
+  }
+
+  get<T>(key: string): CacheHit<T> | undefined {
+    const id = this.id(key);
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    const decipher = createDecipheriv("aes-256-gcm", this.key, entry.iv);
+    decipher.setAuthTag(entry.tag);
+    const json = Buffer.concat([
+      decipher.update(entry.data),
+      decipher.final(),
+    ]).toString("utf8");
+    return { value: JSON.parse(json), storedAt: entry.storedAt };
+  }
+
+  set(key: string, value: unknown, ttlMs: number) {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(value), "utf8"),
+      cipher.final(),
+    ]);
+    const now = Date.now();
+    this.entries.set(this.id(key), {
+      iv,
+      tag: cipher.getAuthTag(),
+      data,
+      storedAt: now,
+      expiresAt: now + ttlMs,
+    });
+  }
+
+  delete(key: string) {
+    this.entries.delete(this.id(key));
+  }
+
+  // Drops every entry whose key starts with `prefix`, which must end at the
+  // "?", e.g. `get-reports?` after a write
+  invalidate(prefix: string) {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { BackendError } from "./errors.js";
+
+// Stops hammering the CUA backend while it is down. After `threshold`
+// consecutive failures the circuit opens and calls fail fast for
+// `cooldownMs`; then a single trial call is let through to probe it.
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    private threshold: number,
+    private cooldownMs: number
+  ) {}
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt == null) return "closed";
+    const elapsed = Date.now() - this.openedAt;
+    return elapsed >= this.cooldownMs ? "half-open" : "open";
+  }
+
+  // Throws when the call must not go through
+  acquire() {
+    const state = this.state;
+    if (state === "closed") return;
+    if (state === "half-open" && !this.probing) {
+      this.probing = true;
+      return;
+    }
+    const retryAfterMs = Math.max(
+      0,
+      this.cooldownMs - (Date.now() - (this.openedAt ?? 0))
+    );
+    throw new BackendError(
+      "unavailable",
+      `The backend failed ${this.failures} times in a row, so calls are paused`,
+      { retryAfterMs }
+    );
+  }
+
+  success() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  // The call ended without telling us anything about backend health
+  release() {
+    this.probing = false;
+  }
+
+  failure() {
+    this.failures++;
+    if (this.probing || this.failures >= this.threshold) {
+      this.openedAt = Date.now();
+    }
+    this.probing = false;
+  }
+}
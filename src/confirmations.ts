@@ -0,0 +1,75 @@
+import { randomUUID } from "node:crypto";
+import type { JobHooks, JobOutcome } from "./jobs.js";
+
+export type ActionStatus = "pending" | "confirmed" | "discarded";
+
+// A write prepared by a tool but not yet sent to OpenDental. Only the
+// confirmation widget can commit it, by calling confirm-action with the
+// token.
+export interface PendingAction {
+  token: string;
+  tool: string;
+  // What will happen, in words the user and the model both read
+  description: string;
+  status: ActionStatus;
+  createdAt: number;
+  expiresAt: number;
+  // Fields the user may change in the widget before confirming; the edited
+  // values reach commit keyed by field name
+  editable: string[];
+  commit: (
+    hooks: JobHooks,
+    token: string,
+    edits: Record<string, string>
+  ) => Promise<JobOutcome>;
+  // Set once confirmed, so repeating the confirmation returns the same job
+  jobId?: string;
+}
+
+// In-memory store of pending writes. Unconfirmed actions expire after
+// `ttlMs`; confirmed and discarded ones are kept as long again so repeated
+// clicks get a clear answer.
+export class ConfirmationStore {
+  private actions = new Map<string, PendingAction>();
+
+  constructor(private ttlMs: number) {
+    const sweeper = setInterval(() => this.sweep(), Math.min(ttlMs, 60_000));
+    sweeper.unref();
+  }
+
+  create(
+    tool: string,
+    description: string,
+    commit: PendingAction["commit"],
+    editable: string[] = []
+  ): PendingAction {
+    const now = Date.now();
+    const action: PendingAction = {
+      token: randomUUID(),
+      tool,
+      description,
+      status: "pending",
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+      editable,
+      commit,
+    };
+    this.actions.set(action.token, action);
+    return action;
+  }
+
+  get(token: string) {
+    return this.actions.get(token);
+  }
+
+  isExpired(action: PendingAction) {
+    return action.status === "pending" && action.expiresAt <= Date.now();
+  }
+
+  private sweep() {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [token, action] of this.actions) {
+      if (action.expiresAt < cutoff) this.actions.delete(token);
+    }
+  }
+}
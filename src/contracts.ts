@@ -0,0 +1,54 @@
+import type { z } from "zod";
+
+export interface ContractIssue {
+  path: string;
+  message: string;
+}
+
+// Raised when a backend payload does not match its schema, so a changed
+// backend shape surfaces as an error naming the field instead of blank tabs
+export class BackendContractError extends Error {
+  constructor(
+    public what: string,
+    public issues: ContractIssue[]
+  ) {
+    const listed = issues
+      .slice(0, 5)
+      .map((i) => `${i.path}: ${i.message}`)
+      .join("; ");
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : "";
+    super(`Backend returned an unexpected ${what} — ${listed}${more}`);
+    this.name = "BackendContractError";
+  }
+
+  get details() {
+    return { type: "invalid_backend_response", what: this.what, issues: this.issues };
+  }
+}
+
+// "tooth_chart.teeth_with_conditions[2].tooth_number"
+function formatPath(what: string, path: PropertyKey[]) {
+  return path.reduce<string>(
+    (acc, key) =>
+      typeof key === "number" ? `${acc}[${key}]` : `${acc}.${String(key)}`,
+    what
+  );
+}
+
+export function parseBackend<T extends z.ZodType>(
+  schema: T,
+  value: unknown,
+  what: string
+): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new BackendContractError(
+      what,
+      result.error.issues.map((issue) => ({
+        path: formatPath(what, issue.path),
+        message: issue.message,
+      }))
+    );
+  }
+  return result.data;
+}
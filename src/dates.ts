@@ -0,0 +1,55 @@
+// Accepts 1982-04-17, 04/17/1982 and 4/17/1982
+export function normalizeDate(s: string) {
+  const iso = s.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = s.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso
+    ? [iso[1], iso[2], iso[3]]
+    : us
+      ? [us[3], us[1], us[2]]
+      : undefined;
+  if (!parts) return undefined;
+  const [y, m, d] = parts;
+  if (+m < 1 || +m > 12 || +d < 1 || +d > 31) return undefined;
+  return `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+}
+
+// Today's date in the server's local time zone, as YYYY-MM-DD
+export function today() {
+  return formatDate(new Date());
+}
+
+export function formatDate(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, done at noon UTC so daylight
+// saving changes never shift the day
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string) {
+  const ms =
+    new Date(`${to}T12:00:00Z`).getTime() -
+    new Date(`${from}T12:00:00Z`).getTime();
+  return Math.round(ms / 86_400_000);
+}
+
+// Accepts 14:30, 2:30 PM and 2:30pm; returns 24-hour HH:MM
+export function normalizeTime(s: string) {
+  const m = s.trim().match(/^(\d{1,2}):(\d{2})\s*([ap])?\.?m?\.?$/i);
+  if (!m) return undefined;
+  let hours = Number(m[1]);
+  const minutes = Number(m[2]);
+  if (minutes > 59) return undefined;
+  if (m[3]) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (m[3].toLowerCase() === "p" ? 12 : 0);
+  } else if (hours > 23) {
+    return undefined;
+  }
+  return `${String(hours).padStart(2, "0")}:${m[2]}`;
+}
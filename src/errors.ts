@@ -0,0 +1,118 @@
+export type BackendErrorKind =
+  | "timeout"
+  | "unavailable"
+  | "patient_not_found"
+  | "ambiguous_patient"
+  | "automation_failed"
+  | "backend_error";
+
+// What the model (and the user) should do about each kind of failure
+const HINTS: Record<BackendErrorKind, string> = {
+  timeout:
+    "The OpenDental session did not finish in time. It may be stuck on a dialog; check the desktop session and try again.",
+  unavailable:
+    "The OpenDental backend is not reachable. Make sure the CUA backend is running and try again in a minute.",
+  patient_not_found:
+    "Check the spelling of the name, or use find-patient to look the patient up by name, date of birth or phone.",
+  ambiguous_patient:
+    "Use find-patient to list the matches, ask the user which patient they mean, then retry with their patient_id.",
+  automation_failed:
+    "The computer-use run failed while driving the OpenDental UI. Check the desktop session for error dialogs, then retry.",
+  backend_error: "The backend rejected the request.",
+};
+
+const RETRYABLE: BackendErrorKind[] = ["unavailable"];
+
+export interface BackendErrorInit {
+  status?: number;
+  candidates?: unknown[];
+  retryAfterMs?: number;
+}
+
+// A classified backend failure. The message already carries an actionable
+// hint, so tools can pass it straight to the client.
+export class BackendError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    public kind: BackendErrorKind,
+    reason: string,
+    public init: BackendErrorInit = {}
+  ) {
+    super(`${reason}. ${HINTS[kind]}`);
+    this.name = "BackendError";
+    this.retryable = RETRYABLE.includes(kind);
+  }
+
+  get details() {
+    return {
+      type: this.kind,
+      status: this.init.status,
+      candidates: this.init.candidates,
+      retryAfterSeconds:
+        this.init.retryAfterMs != null
+          ? Math.ceil(this.init.retryAfterMs / 1000)
+          : undefined,
+    };
+  }
+}
+
+const KINDS = Object.keys(HINTS) as BackendErrorKind[];
+
+// Error bodies look like FastAPI's `{"detail": "..."}`, optionally with a
+// structured detail: `{"detail": {"code": "ambiguous_patient", "message":
+// "...", "candidates": [...]}}`. Streams send the same fields on an
+// `{"type": "error"}` event. A bare 404 or 409 only says which patient was
+// meant is unclear on patient lookups; from other endpoints (an unknown
+// appointment, a taken slot) it is passed on as the backend's own message.
+export function classifyBackendFailure(
+  status: number | undefined,
+  body: any,
+  patientLookup = false
+): BackendError {
+  const detail = body?.detail ?? body?.error ?? body;
+  const code: string | undefined =
+    typeof detail === "object" ? (detail?.code ?? body?.code) : body?.code;
+  const message: string =
+    (typeof detail === "string" ? detail : detail?.message) ??
+    (status ? `Backend returned ${status}` : "Backend reported an error");
+  const candidates =
+    typeof detail === "object" ? detail?.candidates : undefined;
+
+  let kind: BackendErrorKind;
+  if (code && KINDS.includes(code as BackendErrorKind)) {
+    kind = code as BackendErrorKind;
+  } else if (patientLookup && status === 404) {
+    kind = "patient_not_found";
+  } else if (patientLookup && (status === 300 || status === 409)) {
+    kind = "ambiguous_patient";
+  } else if (status === 502 || status === 503) {
+    kind = "unavailable";
+  } else if (status === 408 || status === 504) {
+    kind = "timeout";
+  } else if (status == null || status === 500) {
+    kind = "automation_failed";
+  } else {
+    kind = "backend_error";
+  }
+
+  let reason = message;
+  if (kind === "ambiguous_patient" && Array.isArray(candidates)) {
+    const names = candidates.map(candidateLabel).filter(Boolean);
+    if (names.length) reason = `${message} (matches: ${names.join("; ")})`;
+  }
+  return new BackendError(kind, reason, { status, candidates });
+}
+
+function candidateLabel(c: any) {
+  if (typeof c === "string") return c;
+  const name =
+    c?.name ?? [c?.first_name, c?.last_name].filter(Boolean).join(" ");
+  const extra = c?.birthdate
+    ? `, born ${c.birthdate}`
+    : c?.age != null
+      ? `, age ${c.age}`
+      : "";
+  const id = c?.patient_id != null ? ` (patient_id ${c.patient_id})` : "";
+  return name ? `${name}${extra}${id}` : "";
+}
@@ -0,0 +1,85 @@
+import { daysBetween } from "./dates.js";
+import type {
+  CoverageEntry,
+  CoverageReview,
+  VerifiedPlan,
+} from "./schemas/insurance.js";
+
+// Categories the front desk quotes to patients; a plan missing any of them
+// cannot be estimated
+const COVERAGE_CATEGORIES = ["preventive", "basic", "major"];
+
+function planFlags(
+  plan: VerifiedPlan,
+  which: string,
+  now: string,
+  staleDays: number
+) {
+  const flags: string[] = [];
+  const verified = plan.benefits_verified_date;
+  if (!verified) {
+    flags.push(`${which}: benefits never verified`);
+  } else if (daysBetween(verified, now) > staleDays) {
+    flags.push(
+      `${which}: benefits last verified ${daysBetween(verified, now)} days ago`
+    );
+  }
+  if (!plan.subscriber_id) flags.push(`${which}: no subscriber ID`);
+  if (!plan.group_number) flags.push(`${which}: no group number`);
+  if (plan.annual_max == null) flags.push(`${which}: annual max unknown`);
+  if (plan.deductible_remaining == null) {
+    flags.push(`${which}: deductible unknown`);
+  }
+  const coverage = Object.keys(plan.coverage_percentages ?? {}).map((k) =>
+    k.toLowerCase()
+  );
+  const missing = COVERAGE_CATEGORIES.filter((k) => !coverage.includes(k));
+  if (missing.length) {
+    flags.push(`${which}: no coverage % for ${missing.join(", ")}`);
+  }
+  if (
+    plan.annual_max != null &&
+    plan.insurance_used != null &&
+    plan.insurance_used >= plan.annual_max
+  ) {
+    flags.push(`${which}: annual max used up`);
+  }
+  return flags;
+}
+
+// Checks one patient's plans for data the front desk should confirm with
+// the carrier before the visit. `status` is "ok", "check" when anything is
+// flagged, or "uninsured" when no plan is on file.
+export function reviewCoverage(
+  entry: CoverageEntry,
+  now: string,
+  staleDays: number
+): CoverageReview {
+  const { primary, secondary } = entry;
+  if (!primary && !secondary) {
+    return {
+      ...entry,
+      remaining: null,
+      flags: ["No insurance on file"],
+      status: "uninsured",
+    };
+  }
+  const flags = [
+    ...(primary ? planFlags(primary, "Primary", now, staleDays) : []),
+    ...(secondary ? planFlags(secondary, "Secondary", now, staleDays) : []),
+  ];
+  const left = (plan: VerifiedPlan | null | undefined) =>
+    plan?.annual_max != null
+      ? Math.max(plan.annual_max - (plan.insurance_used ?? 0), 0)
+      : null;
+  const remaining = [left(primary), left(secondary)].reduce<number | null>(
+    (t, v) => (v == null ? t : (t ?? 0) + v),
+    null
+  );
+  return {
+    ...entry,
+    remaining,
+    flags,
+    status: flags.length ? "check" : "ok",
+  };
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from "node:crypto";
+import type { BackendProgress } from "./backend.js";
+
+export type JobStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+// What a finished job hands back: the widget props plus the text the model
+// sees, and optionally metadata only the widget sees
+export interface JobOutcome {
+  props: Record<string, unknown>;
+  summary: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Job {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  startedAt: number;
+  finishedAt?: number;
+  outcome?: JobOutcome;
+  error?: string;
+  // Machine-readable failure info carried by the thrown error, if any
+  errorDetails?: Record<string, unknown>;
+  // Latest step reported by the backend, numbered in arrival order
+  progress?: BackendProgress & { index: number };
+  // Requests ahead of this one in the backend queue, while it waits
+  queuedAhead?: number;
+  controller: AbortController;
+  listeners: Set<() => void>;
+}
+
+// Serializable view of a job, safe to return from tools and pass to widgets
+export interface JobSnapshot {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  startedAt: string;
+  finishedAt?: string;
+  elapsedSeconds: number;
+  step?: string;
+  stepIndex?: number;
+  totalSteps?: number;
+  queuedAhead?: number;
+  error?: string;
+}
+
+// Passed to a job's work so backend calls can report back and be cancelled;
+// spread straight into callBackend
+export interface JobHooks {
+  signal: AbortSignal;
+  onProgress: (progress: BackendProgress) => void;
+  onQueued: (ahead: number | undefined) => void;
+}
+
+export function snapshot(job: Job): JobSnapshot {
+  const end = job.finishedAt ?? Date.now();
+  return {
+    id: job.id,
+    tool: job.tool,
+    status: job.status,
+    startedAt: new Date(job.startedAt).toISOString(),
+    finishedAt: job.finishedAt
+      ? new Date(job.finishedAt).toISOString()
+      : undefined,
+    elapsedSeconds: Math.round((end - job.startedAt) / 1000),
+    step: job.progress?.step,
+    stepIndex: job.progress?.index,
+    totalSteps: job.progress?.total,
+    queuedAhead: job.status === "running" ? job.queuedAhead : undefined,
+    error: job.error,
+  };
+}
+
+// In-memory registry of long-running backend calls. The work runs detached
+// from the MCP request that started it, so a client or proxy disconnect no
+// longer throws away a computer-use run. Finished jobs are kept for
+// `retentionMs` and then swept.
+export class JobManager {
+  private jobs = new Map<string, Job>();
+
+  constructor(private retentionMs: number) {
+    const sweeper = setInterval(
+      () => this.sweep(),
+      Math.min(retentionMs, 60_000)
+    );
+    sweeper.unref();
+  }
+
+  start(tool: string, run: (hooks: JobHooks) => Promise<JobOutcome>) {
+    const job: Job = {
+      id: randomUUID(),
+      tool,
+      status: "running",
+      startedAt: Date.now(),
+      controller: new AbortController(),
+      listeners: new Set(),
+    };
+    this.jobs.set(job.id, job);
+
+    const hooks: JobHooks = {
+      signal: job.controller.signal,
+      onProgress: (progress) => {
+        if (job.status !== "running") return;
+        job.progress = { ...progress, index: (job.progress?.index ?? 0) + 1 };
+        notify(job);
+      },
+      onQueued: (ahead) => {
+        if (job.status !== "running" || job.queuedAhead === ahead) return;
+        job.queuedAhead = ahead;
+        notify(job);
+      },
+    };
+
+    run(hooks).then(
+      (outcome) => {
+        if (job.status !== "running") return;
+        job.status = "succeeded";
+        job.outcome = outcome;
+        job.finishedAt = Date.now();
+        notify(job);
+      },
+      (e: any) => {
+        if (job.status !== "running") return;
+        job.status = "failed";
+        job.error = e?.message ?? String(e);
+        job.errorDetails = e?.details;
+        job.finishedAt = Date.now();
+        notify(job);
+      }
+    );
+    return job;
+  }
+
+  // Resolves when the job finishes or `timeoutMs` passes, calling
+  // `onUpdate` for every progress step in between
+  wait(job: Job, timeoutMs: number, onUpdate: (job: Job) => void) {
+    return new Promise<void>((resolve) => {
+      if (job.status !== "running") return resolve();
+      const done = () => {
+        clearTimeout(timer);
+        job.listeners.delete(listener);
+        resolve();
+      };
+      const listener = () => {
+        if (job.status !== "running") return done();
+        onUpdate(job);
+      };
+      const timer = setTimeout(done, timeoutMs);
+      job.listeners.add(listener);
+    });
+  }
+
+  get(id: string) {
+    return this.jobs.get(id);
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running") return false;
+    job.status = "cancelled";
+    job.finishedAt = Date.now();
+    job.controller.abort();
+    notify(job);
+    return true;
+  }
+
+  private sweep() {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt != null && job.finishedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+function notify(job: Job) {
+  for (const listener of job.listeners) listener();
+}
@@ -0,0 +1,182 @@
+import { normalizeDate } from "./dates.js";
+import type { Balances, LedgerSplit } from "./schemas/ledger.js";
+import type { PatientReport, Transaction } from "./schemas/report.js";
+
+// Common OpenDental payment and adjustment type definitions; practices
+// rename these, so the backend matches them loosely
+export const PAYMENT_TYPES = [
+  "Cash",
+  "Check",
+  "Credit Card",
+  "Debit Card",
+  "CareCredit",
+  "Electronic",
+  "Other",
+];
+export const ADJUSTMENT_TYPES = [
+  "Discount",
+  "Professional Courtesy",
+  "Write-off",
+  "Finance Charge",
+  "Billing Charge",
+  "Other",
+];
+
+const cents = (v: number) => Math.round(v * 100);
+export const sameName = (a: string | null | undefined, b: string) =>
+  (a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+
+export interface SplitRequest {
+  amount: number;
+  patient_name?: string;
+  procedure_code?: string;
+  procedure_date?: string;
+}
+
+function familyNames(report: PatientReport, patientName: string) {
+  const names = [
+    patientName,
+    ...(report.account?.balances?.family_balances ?? []).map((f) => f.name),
+    ...(report.family_members ?? []).map((f) => f.name),
+  ].filter((n): n is string => !!n);
+  return [...new Set(names)];
+}
+
+// Reads each split against the account on the report: the family member by
+// name (the patient when none is given) and the procedure among that
+// member's charges. Returns every mismatch at once so the caller can fix
+// them together.
+export function resolveSplits(
+  report: PatientReport,
+  patientName: string,
+  total: number,
+  requested: SplitRequest[]
+): LedgerSplit[] | string {
+  const family = familyNames(report, patientName);
+  const charges = (report.account?.transactions ?? []).filter(
+    (t) => (t.charges ?? 0) > 0 && t.code
+  );
+  const problems: string[] = [];
+  const splits: LedgerSplit[] = [];
+
+  for (const split of requested.length ? requested : [{ amount: total }]) {
+    const wanted = split.patient_name ?? patientName;
+    // "Diego" will do for "Diego Lopez" when no one else is called Diego
+    const byFirstName = family.filter((n) => sameName(n.split(" ")[0], wanted));
+    const member =
+      family.find((n) => sameName(n, wanted)) ??
+      (byFirstName.length === 1 ? byFirstName[0] : undefined);
+    if (!member) {
+      problems.push(`${wanted} is not in this family (${family.join(", ")})`);
+      continue;
+    }
+    if (!split.procedure_code) {
+      splits.push({ patient_name: member, amount: split.amount });
+      continue;
+    }
+
+    const code = split.procedure_code.trim().toUpperCase();
+    const date = split.procedure_date
+      ? normalizeDate(split.procedure_date)
+      : undefined;
+    if (split.procedure_date && !date) {
+      problems.push(`Could not read procedure date "${split.procedure_date}"`);
+      continue;
+    }
+    const matches = charges.filter(
+      (t) =>
+        t.code!.toUpperCase() === code &&
+        (!t.patient || sameName(t.patient, member)) &&
+        (!date || t.date === date)
+    );
+    if (matches.length !== 1) {
+      problems.push(
+        matches.length
+          ? `${member} has ${matches.length} ${code} charges; pass procedure_date to pick one`
+          : `No ${code} charge for ${member}${date ? ` on ${date}` : ""} on the account`
+      );
+      continue;
+    }
+    splits.push({
+      patient_name: member,
+      amount: split.amount,
+      procedure_code: code,
+      procedure_date: matches[0].date ?? undefined,
+    });
+  }
+
+  const sum = requested.reduce((s, split) => s + cents(split.amount), 0);
+  if (requested.length && sum !== cents(total)) {
+    problems.push(
+      `The splits add up to $${(sum / 100).toFixed(2)}, not the $${total.toFixed(2)} total`
+    );
+  }
+  return problems.length ? `${problems.join("; ")}.` : splits;
+}
+
+export function currentBalances(
+  report: PatientReport,
+  patientName: string
+): Balances {
+  const balances = report.account?.balances;
+  const patientBalance = balances?.patient_balance ?? 0;
+  const family = (balances?.family_balances ?? []).map((f) => ({
+    name: f.name ?? "",
+    balance: f.balance ?? 0,
+  }));
+  return {
+    patient_balance: patientBalance,
+    total_family_balance: balances?.total_family_balance ?? patientBalance,
+    family_balances: family.length
+      ? family
+      : [{ name: patientName, balance: patientBalance }],
+  };
+}
+
+// Lines already on the account that look like this entry was posted before:
+// one per split, on the same date for the same member and amount. Payments
+// show as credits; adjustments as a charge or a credit by their sign.
+export function matchingEntries(
+  report: PatientReport,
+  date: string,
+  splits: LedgerSplit[],
+  payment: boolean
+): Transaction[] {
+  const unmatched = [...(report.account?.transactions ?? [])];
+  const found: Transaction[] = [];
+  for (const split of splits) {
+    const signed = payment ? -split.amount : split.amount;
+    const i = unmatched.findIndex(
+      (t) =>
+        t.date === date &&
+        (!t.patient || sameName(t.patient, split.patient_name)) &&
+        cents((t.charges ?? 0) - (t.credits ?? 0)) === cents(signed)
+    );
+    if (i < 0) return [];
+    found.push(...unmatched.splice(i, 1));
+  }
+  return found;
+}
+
+// Balances once each split's amount is added to its member's balance;
+// payments pass negative amounts
+export function projectBalances(
+  before: Balances,
+  patientName: string,
+  changes: { patient_name: string; amount: number }[]
+): Balances {
+  const change = (name: string) =>
+    changes
+      .filter((c) => sameName(c.patient_name, name))
+      .reduce((s, c) => s + cents(c.amount), 0);
+  const total = changes.reduce((s, c) => s + cents(c.amount), 0);
+  return {
+    patient_balance:
+      (cents(before.patient_balance) + change(patientName)) / 100,
+    total_family_balance: (cents(before.total_family_balance) + total) / 100,
+    family_balances: before.family_balances.map((f) => ({
+      name: f.name,
+      balance: (cents(f.balance) + change(f.name)) / 100,
+    })),
+  };
+}
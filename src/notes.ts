@@ -0,0 +1,98 @@
+import type { PatientChart } from "./schemas/chart.js";
+import type { NoteSection } from "./schemas/notes.js";
+import { parseTooth, renumberText, toothRef, type NumberingSystem } from "./teeth.js";
+
+export const SOAP_HEADINGS = ["Subjective", "Objective", "Assessment", "Plan"];
+
+type Part = "subjective" | "objective" | "assessment" | "plan";
+
+// Practice templates use their own headings; each is filled from the SOAP
+// part it names, and headings that match none start blank
+const PARTS: [RegExp, Part][] = [
+  [/subjective|complaint|history|reason/i, "subjective"],
+  [/objective|finding|exam|clinical/i, "objective"],
+  [/assessment|diagnos|impression/i, "assessment"],
+  [/plan|treatment|recommend|next/i, "plan"],
+];
+
+export interface NoteInput {
+  chiefComplaint?: string;
+  findings?: string;
+  numbering: NumberingSystem;
+}
+
+const present = (v: string | null | undefined) =>
+  v && v.trim().toLowerCase() !== "none" ? v.trim() : null;
+
+function lines(...values: (string | null | undefined | false)[]) {
+  return values.filter(Boolean).join("\n");
+}
+
+// Drafts a progress note from what the chart already says: medical history
+// under Subjective, charted conditions under Objective, the clinical
+// summary under Assessment, and planned work under Plan
+export function draftNote(
+  chart: PatientChart,
+  headings: string[],
+  { chiefComplaint, findings, numbering }: NoteInput
+): NoteSection[] {
+  const info = chart.patient_info ?? {};
+  const clinical = chart.clinical_explanation ?? {};
+  const renumber = (text: string | null | undefined) =>
+    present(text) && renumberText(text, numbering);
+  const tooth = (value: string | number | null | undefined) =>
+    parseTooth(value) ? toothRef(value, numbering) : null;
+
+  const conditions = (chart.tooth_chart?.teeth_with_conditions ?? [])
+    .filter((t) => present(t.condition) && t.condition !== "Healthy")
+    .map((t) =>
+      [tooth(t.tooth_number), t.condition, t.surface].filter(Boolean).join(" ")
+    );
+  const planned = (chart.procedures ?? [])
+    .filter((p) => /plan|^tp/i.test(p.status ?? ""))
+    .map((p) =>
+      [tooth(p.tooth), p.surface, p.ada_code, p.description]
+        .filter(Boolean)
+        .join(" ")
+    );
+
+  const parts: Record<Part, string> = {
+    subjective: lines(
+      chiefComplaint && `Chief complaint: ${chiefComplaint}`,
+      present(info.allergies) && `Allergies: ${info.allergies}`,
+      present(info.medications) && `Medications: ${info.medications}`,
+      present(info.problems) && `Medical problems: ${info.problems}`
+    ),
+    objective: lines(
+      findings,
+      conditions.length > 0 && `Charted: ${conditions.join("; ")}`,
+      renumber(clinical.periodontal_status) &&
+        `Periodontal: ${renumber(clinical.periodontal_status)}`
+    ),
+    assessment: lines(
+      renumber(clinical.overall_dental_health),
+      renumber(clinical.teeth_assessment),
+      renumber(clinical.risk_factors) &&
+        `Risk factors: ${renumber(clinical.risk_factors)}`
+    ),
+    plan: lines(
+      planned.length > 0 && `Planned: ${planned.join("; ")}`,
+      renumber(clinical.treatment_needs),
+      renumber(clinical.recommendations)
+    ),
+  };
+
+  return headings.map((heading) => {
+    const part = PARTS.find(([re]) => re.test(heading))?.[1];
+    return { heading, text: part ? parts[part] : "" };
+  });
+}
+
+// The note as written to the chart: each heading on its own line followed
+// by its text, blank sections left out
+export function noteText(sections: NoteSection[]) {
+  return sections
+    .filter((s) => s.text.trim())
+    .map((s) => `${s.heading}:\n${s.text.trim()}`)
+    .join("\n\n");
+}
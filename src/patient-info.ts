@@ -0,0 +1,236 @@
+import { normalizeDate } from "./dates.js";
+import type { InfoChange } from "./schemas/patients.js";
+import type { PatientInfo } from "./schemas/report.js";
+
+// As OpenDental's Edit Patient Information window lists them
+export const PREFERRED_CONTACT_METHODS = [
+  "None",
+  "Do Not Call",
+  "Home Phone",
+  "Work Phone",
+  "Wireless Phone",
+  "Email",
+  "Text",
+  "Mail",
+  "See Notes",
+];
+
+type Section = "info" | "address" | "contact";
+
+// Demographic fields staff can change, with the report section each is read
+// from. Keys double as the backend's parameter names.
+export const INFO_FIELDS = {
+  first_name: { label: "First name", section: "info" },
+  middle_name: { label: "Middle name", section: "info" },
+  last_name: { label: "Last name", section: "info" },
+  preferred_name: { label: "Preferred name", section: "info" },
+  title: { label: "Title", section: "info" },
+  birthdate: { label: "Birthdate", section: "info" },
+  billing_type: { label: "Billing type", section: "info" },
+  primary_provider: { label: "Primary provider", section: "info" },
+  secondary_provider: { label: "Secondary provider", section: "info" },
+  street: { label: "Street", section: "address" },
+  street2: { label: "Street 2", section: "address" },
+  city: { label: "City", section: "address" },
+  state: { label: "State", section: "address" },
+  zip: { label: "ZIP", section: "address" },
+  home_phone: { label: "Home phone", section: "contact" },
+  work_phone: { label: "Work phone", section: "contact" },
+  wireless_phone: { label: "Cell phone", section: "contact" },
+  email: { label: "Email", section: "contact" },
+  preferred_contact_method: { label: "Preferred contact", section: "contact" },
+} as const satisfies Record<string, { label: string; section: Section }>;
+
+export type InfoField = keyof typeof INFO_FIELDS;
+
+// A patient can't be saved without these
+const REQUIRED: InfoField[] = ["first_name", "last_name", "birthdate"];
+
+// "(503) 555-0142" from any 10-digit US number, with or without the
+// leading 1
+export function normalizePhone(s: string) {
+  const digits = s.replace(/\D/g, "");
+  const local =
+    digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits;
+  if (local.length !== 10 || /^[01]/.test(local)) return undefined;
+  return `(${local.slice(0, 3)}) ${local.slice(3, 6)}-${local.slice(6)}`;
+}
+
+export function normalizeEmail(s: string) {
+  const email = s.trim();
+  return /^[^\s@]+@[^\s@]+\.[^\s@.]{2,}$/.test(email) ? email : undefined;
+}
+
+// 97205 or ZIP+4, with the hyphen added when it was left out
+export function normalizeZip(s: string) {
+  const zip = s.trim();
+  if (/^\d{5}(-\d{4})?$/.test(zip)) return zip;
+  if (/^\d{9}$/.test(zip)) return `${zip.slice(0, 5)}-${zip.slice(5)}`;
+  return undefined;
+}
+
+function normalizeState(s: string) {
+  const state = s.trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(state) ? state : undefined;
+}
+
+// Fields with a fixed format, and how to describe it when a value is wrong
+const FORMATS: Partial<
+  Record<InfoField, [(s: string) => string | undefined, string]>
+> = {
+  birthdate: [normalizeDate, "a date like 1982-04-17"],
+  home_phone: [normalizePhone, "a 10-digit US phone number"],
+  work_phone: [normalizePhone, "a 10-digit US phone number"],
+  wireless_phone: [normalizePhone, "a 10-digit US phone number"],
+  email: [normalizeEmail, "an address like name@example.com"],
+  zip: [normalizeZip, "a 5-digit ZIP or ZIP+4"],
+  state: [normalizeState, "a two-letter state code"],
+};
+
+// Checks and normalizes the fields a caller wants to change; an empty
+// string clears a field. Returns every problem at once so the caller can
+// fix them together.
+export function readInfoUpdates(
+  args: Partial<Record<InfoField, string>>
+): Partial<Record<InfoField, string>> | string {
+  const updates: Partial<Record<InfoField, string>> = {};
+  const problems: string[] = [];
+  for (const [key, raw] of Object.entries(args)) {
+    if (raw == null) continue;
+    const field = key as InfoField;
+    const { label } = INFO_FIELDS[field];
+    const value = raw.trim();
+    if (!value) {
+      if (REQUIRED.includes(field)) problems.push(`${label} cannot be blank`);
+      else updates[field] = "";
+      continue;
+    }
+    const format = FORMATS[field];
+    const normalized = format ? format[0](value) : value;
+    if (normalized == null) {
+      problems.push(`${label} "${raw}" is not ${format![1]}`);
+    } else {
+      updates[field] = normalized;
+    }
+  }
+  return problems.length ? `${problems.join("; ")}.` : updates;
+}
+
+export function currentInfo(
+  info: PatientInfo | null | undefined,
+  field: InfoField
+) {
+  const section = INFO_FIELDS[field].section;
+  const source =
+    section === "info" ? info : section === "address" ? info?.address : info?.contact;
+  const value = (source as Record<string, unknown> | null | undefined)?.[field];
+  return value == null ? undefined : String(value);
+}
+
+// Before/after rows for the fields the update actually changes, in the
+// order the report shows them
+export function infoChanges(
+  info: PatientInfo | null | undefined,
+  updates: Partial<Record<InfoField, string>>
+): InfoChange[] {
+  return (Object.keys(INFO_FIELDS) as InfoField[])
+    .filter((field) => updates[field] != null)
+    .map((field) => ({
+      field,
+      label: INFO_FIELDS[field].label,
+      before: currentInfo(info, field),
+      after: updates[field]!,
+    }))
+    .filter((change) => (change.before ?? "").trim() !== change.after);
+}
+
+// ── New patients ──────────────────────────────────────────────────────
+
+export const GENDERS = ["Male", "Female", "Unknown"];
+export const SUBSCRIBER_RELATIONSHIPS = ["Self", "Spouse", "Child", "Other"];
+
+// What create-patient takes: the demographic fields plus the family the
+// patient joins and the insurance that covers them
+export const NEW_PATIENT_FIELDS = {
+  ...INFO_FIELDS,
+  gender: { label: "Gender", section: "info" },
+  guarantor_id: { label: "Guarantor", section: "family" },
+  carrier: { label: "Insurance carrier", section: "insurance" },
+  subscriber_id: { label: "Subscriber ID", section: "insurance" },
+  group_number: { label: "Group number", section: "insurance" },
+  relationship_to_subscriber: {
+    label: "Relationship to subscriber",
+    section: "insurance",
+  },
+  subscriber_name: { label: "Subscriber name", section: "insurance" },
+  subscriber_birthdate: {
+    label: "Subscriber birthdate",
+    section: "insurance",
+  },
+} as const;
+
+export type NewPatientField = keyof typeof NEW_PATIENT_FIELDS;
+export type NewPatient = Partial<Record<NewPatientField, string>>;
+
+// Checks and normalizes a new patient's details. Blank fields are left out
+// rather than cleared, since there is nothing on file yet.
+export function readNewPatient(
+  args: Partial<Record<NewPatientField, string>>
+): NewPatient | string {
+  const given = Object.fromEntries(
+    Object.entries(args).filter(([, v]) => v != null && v.trim())
+  ) as NewPatient;
+  const { gender, guarantor_id, subscriber_birthdate, ...rest } = given;
+  const extras: NewPatient = {};
+  const info: Partial<Record<InfoField, string>> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    if (key in INFO_FIELDS) info[key as InfoField] = value;
+    else extras[key as NewPatientField] = value.trim();
+  }
+
+  const checked = readInfoUpdates(info);
+  const problems = typeof checked === "string" ? [checked.slice(0, -1)] : [];
+  if (guarantor_id && !/^\d+$/.test(guarantor_id.trim())) {
+    problems.push(`Guarantor "${guarantor_id}" is not a patient id`);
+  }
+  const subscriberDob = subscriber_birthdate
+    ? normalizeDate(subscriber_birthdate)
+    : undefined;
+  if (subscriber_birthdate && !subscriberDob) {
+    problems.push(
+      `Subscriber birthdate "${subscriber_birthdate}" is not a date like 1982-04-17`
+    );
+  }
+  if (problems.length || typeof checked === "string") {
+    return `${problems.join("; ")}.`;
+  }
+  return {
+    ...checked,
+    ...extras,
+    ...(gender && { gender }),
+    ...(guarantor_id && { guarantor_id: guarantor_id.trim() }),
+    ...(subscriberDob && { subscriber_birthdate: subscriberDob }),
+  };
+}
+
+// Labels of what a new patient still needs before it can be saved.
+// Insurance is optional, but once a carrier is named the plan must be
+// identifiable, and a dependant needs the subscriber's details.
+export function missingForNewPatient(patient: NewPatient) {
+  const required: NewPatientField[] = ["first_name", "last_name", "birthdate"];
+  const insured = (
+    Object.keys(NEW_PATIENT_FIELDS) as NewPatientField[]
+  ).some((f) => NEW_PATIENT_FIELDS[f].section === "insurance" && patient[f]);
+  if (insured) {
+    required.push("carrier", "subscriber_id", "relationship_to_subscriber");
+    if (
+      patient.relationship_to_subscriber &&
+      patient.relationship_to_subscriber !== "Self"
+    ) {
+      required.push("subscriber_name", "subscriber_birthdate");
+    }
+  }
+  return required
+    .filter((f) => !patient[f])
+    .map((f) => NEW_PATIENT_FIELDS[f].label);
+}
@@ -0,0 +1,167 @@
+import { normalizeDate } from "./dates.js";
+import type { Patient, PatientCandidate } from "./schemas/patients.js";
+
+export interface PatientQuery {
+  name?: string;
+  birthdate?: string;
+  phone?: string;
+  patient_id?: number;
+}
+
+const normalizeName = (s: string) =>
+  s.toLowerCase().replace(/[^a-z\s'-]/g, "").replace(/\s+/g, " ").trim();
+
+const digits = (s: string) => s.replace(/\D/g, "").slice(-10);
+
+function editDistance(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        prev + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      prev = row[j];
+      row[j] = next;
+    }
+  }
+  return row[b.length];
+}
+
+// Scores how well the name matches, with the reason shown to the user
+function scoreName(p: Patient, query: string): [number, string?] {
+  const q = normalizeName(query);
+  const first = normalizeName(p.first_name);
+  const last = normalizeName(p.last_name);
+  const full = `${first} ${last}`;
+  if (!q) return [0];
+  if (q === full || q === `${last} ${first}`) return [50, "exact name"];
+
+  const tokens = q.split(" ");
+  if (tokens.includes(last) && tokens.some((t) => first.startsWith(t))) {
+    return [35, "name"];
+  }
+  if (tokens.length === 1 && (q === last || q === first)) {
+    return [25, q === last ? "last name" : "first name"];
+  }
+  if (editDistance(q, full) <= 2) return [20, "similar name"];
+  if (tokens.every((t) => full.includes(t))) return [15, "partial name"];
+  return [0];
+}
+
+// Ranks backend search results against every field the caller gave, best
+// match first. Patients that match none of the fields are dropped.
+export function rankCandidates(
+  patients: Patient[],
+  query: PatientQuery
+): PatientCandidate[] {
+  const dob = query.birthdate ? normalizeDate(query.birthdate) : undefined;
+  const phone = query.phone ? digits(query.phone) : undefined;
+
+  return patients
+    .map((p) => {
+      let score = 0;
+      const reasons: string[] = [];
+      if (query.patient_id != null && p.patient_id === query.patient_id) {
+        score += 100;
+        reasons.push("patient id");
+      }
+      if (query.name) {
+        const [points, reason] = scoreName(p, query.name);
+        score += points;
+        if (reason) reasons.push(reason);
+      }
+      if (dob && p.birthdate && normalizeDate(p.birthdate) === dob) {
+        score += 40;
+        reasons.push("date of birth");
+      }
+      if (phone && phone.length >= 7) {
+        const phones = [p.wireless_phone, p.home_phone, p.work_phone];
+        if (phones.some((ph) => ph && digits(ph).endsWith(phone))) {
+          score += 40;
+          reasons.push("phone");
+        }
+      }
+      return { ...p, score, match_reasons: reasons };
+    })
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Existing patients who are probably the person about to be registered:
+// the same name with the same date of birth or phone number. A phone alone
+// is not enough, since a household shares its numbers.
+export function findDuplicates(
+  patients: Patient[],
+  person: {
+    first_name?: string;
+    last_name?: string;
+    birthdate?: string;
+    phones: string[];
+  }
+): PatientCandidate[] {
+  const name = normalizeName(`${person.first_name ?? ""} ${person.last_name ?? ""}`);
+  const dob = person.birthdate ? normalizeDate(person.birthdate) : undefined;
+  const phones = person.phones.map(digits).filter((ph) => ph.length === 10);
+  const seen = new Set<number | null | undefined>();
+
+  return patients
+    .filter((p) => {
+      // Several searches can return the same patient
+      if (p.patient_id != null && seen.has(p.patient_id)) return false;
+      seen.add(p.patient_id);
+      return true;
+    })
+    .map((p) => {
+      const reasons: string[] = [];
+      const sameName =
+        normalizeName(`${p.first_name} ${p.last_name}`) === name;
+      if (sameName && dob && p.birthdate && normalizeDate(p.birthdate) === dob) {
+        reasons.push("same name and date of birth");
+      }
+      const theirs = [p.wireless_phone, p.home_phone, p.work_phone]
+        .filter((ph): ph is string => !!ph)
+        .map(digits);
+      if (sameName && phones.some((ph) => theirs.includes(ph))) {
+        reasons.push("same name and phone");
+      }
+      return { ...p, score: reasons.length * 50, match_reasons: reasons };
+    })
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+export function candidateLabel(c: Patient) {
+  const details = [
+    c.patient_id != null ? `patient_id ${c.patient_id}` : undefined,
+    c.birthdate ? `born ${c.birthdate}` : undefined,
+    c.age != null ? `age ${c.age}` : undefined,
+    c.city ?? undefined,
+    c.status ?? undefined,
+  ].filter(Boolean);
+  return `${c.first_name} ${c.last_name} (${details.join(", ")})`;
+}
+
+// What the model reads back: enough to pick a patient or ask the user
+export function summarizeCandidates(candidates: PatientCandidate[]) {
+  if (candidates.length === 0) {
+    return "No matching patients. Check the spelling, or search by date of birth or phone instead.";
+  }
+  if (candidates.length === 1) {
+    const [c] = candidates;
+    return `One match: ${candidateLabel(c)}. Pass patient_id ${c.patient_id} to get-patient-chart or get-reports.`;
+  }
+  const listed = candidates
+    .slice(0, 5)
+    .map(
+      (c, i) =>
+        `${i + 1}. ${candidateLabel(c)} — matched on ${c.match_reasons.join(", ")}`
+    )
+    .join("\n");
+  const more =
+    candidates.length > 5 ? `\n…and ${candidates.length - 5} more.` : "";
+  return `${candidates.length} possible matches, best first:\n${listed}${more}\nAsk the user which patient they mean, then pass that patient_id.`;
+}
@@ -0,0 +1,168 @@
+// A minimal PDF writer: US Letter pages of text and rules in the standard
+// Helvetica faces, which every reader has built in, so no fonts are
+// embedded and no PDF library is needed.
+
+export type Font = "regular" | "bold";
+
+// Advance widths (1/1000 em) of the printable ASCII characters, space
+// through tilde, from the Adobe font metrics
+const WIDTHS: Record<Font, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333,
+    278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278,
+    584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278,
+    500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+    667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556,
+    278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500,
+    278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333,
+    278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333,
+    584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278,
+    556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944,
+    667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556,
+    333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556,
+    333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+const FONT_NAMES: Record<Font, string> = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI: Record<string, number> = {
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "…": 0x85,
+};
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+function encode(s: string) {
+  let out = "";
+  for (const ch of s) {
+    const code = ch.codePointAt(0)!;
+    const latin1 = (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff);
+    // Anything else prints as "?"
+    out += String.fromCharCode(WIN_ANSI[ch] ?? (latin1 ? code : 0x3f));
+  }
+  return out;
+}
+
+function pdfString(s: string) {
+  return encode(s).replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+export function textWidth(s: string, size: number, font: Font = "regular") {
+  let units = 0;
+  for (const ch of s) {
+    const code = ch.codePointAt(0)!;
+    units += WIDTHS[font][code - 32] ?? 556;
+  }
+  return (units * size) / 1000;
+}
+
+export interface TextOptions {
+  size?: number;
+  font?: Font;
+  // Where x is: the start of the text, or its end for right-aligned columns
+  align?: "left" | "right";
+  gray?: number;
+}
+
+// Pages are drawn top-down: y is measured from the top edge, and converted
+// to PDF's bottom-up coordinates when written
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, s: string, options: TextOptions = {}) {
+    const { size = 10, font = "regular", align = "left", gray = 0 } = options;
+    const left = align === "right" ? x - textWidth(s, size, font) : x;
+    this.current().push(
+      `${gray} g BT /${font === "bold" ? "F2" : "F1"} ${size} Tf ${num(left)} ${num(PAGE_HEIGHT - y)} Td (${pdfString(s)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0) {
+    this.current().push(
+      `${gray} G ${width} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  // Filled rectangle from its top-left corner
+  rect(x: number, y: number, width: number, height: number, gray: number) {
+    this.current().push(
+      `${gray} g ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  toBuffer(title?: string): Buffer {
+    if (!this.pages.length) this.addPage();
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+    // Catalog, page tree, two fonts and the info dictionary come first,
+    // then each page followed by its content stream
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    add(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+    );
+    for (const font of ["regular", "bold"] as Font[]) {
+      add(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`
+      );
+    }
+    add(
+      `<< /Producer (OpenDental MCP)${title ? ` /Title (${pdfString(title)})` : ""} >>`
+    );
+    for (const [i, ops] of this.pages.entries()) {
+      const stream = ops.join("\n");
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      add(
+        `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`
+      );
+    }
+
+    // Content is Latin-1 throughout, so string length is byte length
+    let pdf = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets = objects.map((body, i) => {
+      const offset = pdf.length;
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets
+      .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+      .join("");
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(pdf, "latin1");
+  }
+
+  private current() {
+    if (!this.pages.length) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+const num = (v: number) => String(Math.round(v * 100) / 100);
@@ -0,0 +1,84 @@
+import type {
+  PerioChanges,
+  PerioExam,
+  PerioStats,
+  PerioTooth,
+} from "./schemas/perio.js";
+
+// Pocket depths from this deep are charted as a concern, and from
+// SEVERE_DEPTH as advanced disease
+export const POCKET_DEPTH = 4;
+export const SEVERE_DEPTH = 6;
+
+function depths(tooth: PerioTooth) {
+  return [...(tooth.facial?.depths ?? []), ...(tooth.lingual?.depths ?? [])];
+}
+
+function present(exam: PerioExam) {
+  return (exam.teeth ?? []).filter((t) => !t.missing);
+}
+
+export function perioStats(exam: PerioExam): PerioStats {
+  let sites = 0;
+  let bleeding = 0;
+  let deep = 0;
+  let severe = 0;
+  for (const tooth of present(exam)) {
+    for (const d of depths(tooth)) {
+      if (d == null) continue;
+      sites++;
+      if (d >= POCKET_DEPTH) deep++;
+      if (d >= SEVERE_DEPTH) severe++;
+    }
+    for (const side of [tooth.facial, tooth.lingual]) {
+      bleeding += (side?.bleeding ?? []).filter(Boolean).length;
+    }
+  }
+  return {
+    sites,
+    bleeding_sites: bleeding,
+    bop_percent: sites ? Math.round((bleeding / sites) * 100) : 0,
+    sites_4mm: deep,
+    sites_6mm: severe,
+  };
+}
+
+// Sites that deepened or improved by 2mm or more since the previous exam
+export function perioChanges(
+  current: PerioExam,
+  previous: PerioExam
+): PerioChanges {
+  const before = new Map(
+    (previous.teeth ?? []).map((t) => [t.tooth_number, depths(t)])
+  );
+  let worse = 0;
+  let better = 0;
+  const worseTeeth = new Set<number>();
+  for (const tooth of present(current)) {
+    const old = before.get(tooth.tooth_number);
+    if (!old) continue;
+    depths(tooth).forEach((d, i) => {
+      const was = old[i];
+      if (d == null || was == null) return;
+      if (d - was >= 2) {
+        worse++;
+        worseTeeth.add(tooth.tooth_number);
+      } else if (was - d >= 2) {
+        better++;
+      }
+    });
+  }
+  return {
+    worse_sites: worse,
+    better_sites: better,
+    worse_teeth: [...worseTeeth].sort((a, b) => a - b),
+  };
+}
+
+// Teeth with at least one site at SEVERE_DEPTH or deeper
+export function severeTeeth(exam: PerioExam) {
+  return present(exam)
+    .filter((t) => depths(t).some((d) => d != null && d >= SEVERE_DEPTH))
+    .map((t) => t.tooth_number)
+    .sort((a, b) => a - b);
+}
@@ -0,0 +1,146 @@
+import type { BackendProgress } from "./backend.js";
+
+// One caller waiting on a queued request. Several callers share an entry
+// when their requests are identical.
+interface Subscriber {
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: BackendProgress) => void;
+  onQueued?: (ahead: number | undefined) => void;
+}
+
+interface Entry {
+  key?: string;
+  run: (
+    signal: AbortSignal,
+    onProgress: (progress: BackendProgress) => void
+  ) => Promise<unknown>;
+  subscribers: Set<Subscriber>;
+  controller: AbortController;
+  lastProgress?: BackendProgress;
+}
+
+export interface QueueOptions {
+  // Requests with the same key share one run while in flight
+  key?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: BackendProgress) => void;
+  // Called with the number of requests ahead while waiting, then with
+  // `undefined` once the request is running
+  onQueued?: (ahead: number | undefined) => void;
+}
+
+// First-in, first-out queue in front of the CUA backend. The backend drives
+// a single OpenDental desktop, so by default only one request runs at a time.
+export class RequestQueue {
+  private waiting: Entry[] = [];
+  private running = new Set<Entry>();
+  private byKey = new Map<string, Entry>();
+
+  constructor(private concurrency: number) {}
+
+  get size() {
+    return this.waiting.length + this.running.size;
+  }
+
+  run<T>(
+    run: Entry["run"],
+    { key, signal, onProgress, onQueued }: QueueOptions = {}
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) return reject(new Error("Request cancelled"));
+
+      let entry = key ? this.byKey.get(key) : undefined;
+      if (!entry) {
+        entry = {
+          key,
+          run,
+          subscribers: new Set(),
+          controller: new AbortController(),
+        };
+        if (key) this.byKey.set(key, entry);
+        this.waiting.push(entry);
+      }
+      const subscriber: Subscriber = { resolve, reject, onProgress, onQueued };
+      entry.subscribers.add(subscriber);
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          this.unsubscribe(entry, subscriber);
+          reject(new Error("Request cancelled"));
+        },
+        { once: true }
+      );
+
+      if (this.running.has(entry)) {
+        onQueued?.(undefined);
+        if (entry.lastProgress) onProgress?.(entry.lastProgress);
+      }
+      this.pump();
+      this.announce();
+    });
+  }
+
+  // The last caller to leave a request takes it out of the queue, or aborts
+  // it if it is already running
+  private unsubscribe(entry: Entry, subscriber: Subscriber) {
+    entry.subscribers.delete(subscriber);
+    if (entry.subscribers.size > 0) return;
+    const index = this.waiting.indexOf(entry);
+    if (index >= 0) {
+      this.waiting.splice(index, 1);
+      this.forget(entry);
+      this.announce();
+    } else {
+      // Aborted runs can't be joined; an identical request starts afresh
+      this.forget(entry);
+      entry.controller.abort();
+    }
+  }
+
+  private forget(entry: Entry) {
+    if (entry.key && this.byKey.get(entry.key) === entry) {
+      this.byKey.delete(entry.key);
+    }
+  }
+
+  private pump() {
+    while (this.running.size < this.concurrency && this.waiting.length) {
+      const entry = this.waiting.shift()!;
+      this.running.add(entry);
+      for (const s of entry.subscribers) s.onQueued?.(undefined);
+
+      const onProgress = (progress: BackendProgress) => {
+        entry.lastProgress = progress;
+        for (const s of entry.subscribers) s.onProgress?.(progress);
+      };
+      entry
+        .run(entry.controller.signal, onProgress)
+        .then(
+          (value) => {
+            for (const s of entry.subscribers) s.resolve(value);
+          },
+          (e) => {
+            for (const s of entry.subscribers) s.reject(e);
+          }
+        )
+        .finally(() => {
+          this.running.delete(entry);
+          this.forget(entry);
+          this.pump();
+          this.announce();
+        });
+    }
+  }
+
+  // Tells every waiting caller how many requests are ahead of it, counting
+  // the ones currently running
+  private announce() {
+    this.waiting.forEach((entry, index) => {
+      for (const s of entry.subscribers) {
+        s.onQueued?.(this.running.size + index);
+      }
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+
+// Aging buckets in OpenDental's order, keyed as the backend sends them
+export const AGING_BUCKETS = [
+  { key: "days_0_30", label: "0–30" },
+  { key: "days_31_60", label: "31–60" },
+  { key: "days_61_90", label: "61–90" },
+  { key: "days_over_90", label: "90+" },
+] as const;
+
+export type AgingBucketKey = (typeof AGING_BUCKETS)[number]["key"];
+
+// What a family owes in one bucket, split by who is expected to pay
+export const agingSplitSchema = z.object({
+  patient: optionalNumber,
+  insurance: optionalNumber,
+});
+
+// One guarantor's row of the Aging of A/R report
+export const familyAgingSchema = z.object({
+  guarantor_id: optionalNumber,
+  guarantor_name: optionalString,
+  billing_type: optionalString,
+  provider: optionalString,
+  phone: optionalString,
+  last_payment_date: optionalString,
+  members: optionalList(
+    z.object({
+      patient_id: optionalNumber,
+      name: optionalString,
+      balance: optionalNumber,
+    })
+  ),
+  aging: z.object({
+    days_0_30: agingSplitSchema.nullable().optional(),
+    days_31_60: agingSplitSchema.nullable().optional(),
+    days_61_90: agingSplitSchema.nullable().optional(),
+    days_over_90: agingSplitSchema.nullable().optional(),
+  }),
+});
+
+export const arAgingSchema = z.object({
+  families: optionalList(familyAgingSchema),
+});
+
+// Practice totals for one bucket
+export const agingBucketSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  patient: z.number(),
+  insurance: z.number(),
+  total: z.number(),
+  families: z.number(),
+});
+
+export type FamilyAging = z.infer<typeof familyAgingSchema>;
+export type AgingBucket = z.infer<typeof agingBucketSchema>;
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import {
+  optionalList,
+  optionalNumber,
+  optionalString,
+  optionalText,
+} from "./common.js";
+
+// Permanent teeth are numbered, primary teeth lettered (see src/teeth.ts)
+export const toothConditionSchema = z.object({
+  tooth_number: z.union([z.number(), z.string()]),
+  condition: optionalString,
+  surface: optionalString,
+  notes: optionalString,
+});
+
+export const chartProcedureSchema = z.object({
+  date: optionalString,
+  tooth: optionalText,
+  surface: optionalString,
+  ada_code: optionalString,
+  dx: optionalString,
+  description: optionalString,
+  status: optionalString,
+  provider: optionalString,
+  amount: optionalNumber,
+});
+
+export const patientChartSchema = z.object({
+  patient_info: z
+    .object({
+      name: optionalString,
+      age: optionalText,
+      gender: optionalString,
+      birthdate: optionalString,
+      allergies: optionalString,
+      medications: optionalString,
+      problems: optionalString,
+    })
+    .nullable()
+    .optional(),
+  tooth_chart: z
+    .object({
+      teeth_with_conditions: optionalList(toothConditionSchema),
+      quadrant_summary: z
+        .object({
+          upper_right: optionalString,
+          upper_left: optionalString,
+          lower_left: optionalString,
+          lower_right: optionalString,
+        })
+        .nullable()
+        .optional(),
+    })
+    .nullable()
+    .optional(),
+  procedures: optionalList(chartProcedureSchema),
+  procedure_summary: z
+    .object({
+      total_procedures: optionalNumber,
+      completed_procedures: optionalNumber,
+      treatment_planned_procedures: optionalNumber,
+      total_charges: optionalNumber,
+      procedures_by_type: z
+        .object({
+          exams: optionalNumber,
+          cleanings: optionalNumber,
+          fillings: optionalNumber,
+          crowns: optionalNumber,
+        })
+        .nullable()
+        .optional(),
+    })
+    .nullable()
+    .optional(),
+  clinical_explanation: z
+    .object({
+      overall_dental_health: optionalString,
+      teeth_assessment: optionalString,
+      treatment_history: optionalString,
+      treatment_needs: optionalString,
+      periodontal_status: optionalString,
+      risk_factors: optionalString,
+      recommendations: optionalString,
+      notes: optionalString,
+    })
+    .nullable()
+    .optional(),
+  summary: z
+    .object({
+      total_teeth_with_work: optionalNumber,
+      missing_teeth_count: optionalNumber,
+      primary_provider: optionalString,
+      last_visit_date: optionalString,
+    })
+    .nullable()
+    .optional(),
+});
+
+export type PatientChart = z.infer<typeof patientChartSchema>;
+export type ToothCondition = z.infer<typeof toothConditionSchema>;
+export type ChartProcedure = z.infer<typeof chartProcedureSchema>;
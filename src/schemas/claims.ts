@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+import { claimSchema } from "./report.js";
+
+export const CLAIM_STATUSES = [
+  "unsent",
+  "sent",
+  "received",
+  "rejected",
+] as const;
+
+// A claim from the practice-wide claims list; `date` is the service date
+export const practiceClaimSchema = claimSchema.extend({
+  claim_id: optionalNumber,
+  patient_id: optionalNumber,
+  patient_name: optionalString,
+  provider: optionalString,
+  date_sent: optionalString,
+  date_received: optionalString,
+});
+
+export const claimListSchema = z.object({
+  claims: optionalList(practiceClaimSchema),
+});
+
+export const trackedClaimSchema = practiceClaimSchema.extend({
+  age_days: z.number().nullable(),
+  // Not yet paid and older than the outstanding threshold
+  overdue: z.boolean(),
+});
+
+export type PracticeClaim = z.infer<typeof practiceClaimSchema>;
+export type TrackedClaim = z.infer<typeof trackedClaimSchema>;
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// The backend reads these values off the OpenDental UI, so most of them can
+// be blank. Blank cells come back as null or are left out entirely.
+export const optionalString = z.string().nullable().optional();
+export const optionalNumber = z.number().nullable().optional();
+
+// Tooth numbers, ages and ids are text in some OpenDental grids and numbers
+// in others
+export const optionalText = z
+  .union([z.string(), z.number()])
+  .nullable()
+  .optional();
+
+export function optionalList<T extends z.ZodType>(item: T) {
+  return z.array(item).nullable().optional();
+}
+
+// A string limited to `values`. Tool schemas use this instead of z.enum,
+// which `mcp-use generate-types` cannot read under zod 4; clients still see
+// the choices as a JSON schema enum.
+export function oneOf(values: readonly string[]) {
+  return z
+    .string()
+    .refine((v) => values.includes(v), {
+      message: `Expected one of ${values.join(", ")}`,
+    })
+    .meta({ enum: [...values] });
+}
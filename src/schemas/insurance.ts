@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+import { insurancePlanSchema } from "./report.js";
+
+// A plan as read for verification, with when its benefits were last checked
+export const verifiedPlanSchema = insurancePlanSchema.extend({
+  benefits_verified_date: optionalString,
+  plan_effective_date: optionalString,
+});
+
+export const coverageEntrySchema = z.object({
+  patient_id: optionalNumber,
+  patient_name: optionalString,
+  // Set when the patient was taken from the schedule
+  appointment_time: optionalString,
+  provider: optionalString,
+  primary: verifiedPlanSchema.nullable().optional(),
+  secondary: verifiedPlanSchema.nullable().optional(),
+});
+
+export const coverageListSchema = z.object({
+  patients: optionalList(coverageEntrySchema),
+});
+
+// A patient's coverage after the checks, with what needs a call to the
+// carrier
+export const coverageReviewSchema = coverageEntrySchema.extend({
+  remaining: z.number().nullable(),
+  flags: z.array(z.string()),
+  status: z.string(),
+});
+
+export type VerifiedPlan = z.infer<typeof verifiedPlanSchema>;
+export type CoverageEntry = z.infer<typeof coverageEntrySchema>;
+export type CoverageReview = z.infer<typeof coverageReviewSchema>;
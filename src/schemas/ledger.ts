@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { optionalNumber, optionalString } from "./common.js";
+
+// Part of a payment or adjustment applied to one family member, and
+// optionally to one of their procedures
+export const ledgerSplitSchema = z.object({
+  patient_name: z.string(),
+  amount: z.number(),
+  procedure_code: z.string().optional(),
+  procedure_date: z.string().optional(),
+});
+
+const balancesSchema = z.object({
+  patient_balance: z.number(),
+  total_family_balance: z.number(),
+  family_balances: z.array(z.object({ name: z.string(), balance: z.number() })),
+});
+
+// Account balances as they stand and as they will be once the entry posts
+export const balancePreviewSchema = z.object({
+  before: balancesSchema,
+  after: balancesSchema,
+});
+
+// A payment or adjustment as posted, with the balances OpenDental shows
+// afterwards
+export const postedEntrySchema = z.object({
+  entry_id: optionalNumber,
+  date: optionalString,
+  amount: optionalNumber,
+  patient_balance: optionalNumber,
+  total_family_balance: optionalNumber,
+});
+
+export type LedgerSplit = z.infer<typeof ledgerSplitSchema>;
+export type Balances = z.infer<typeof balancesSchema>;
+export type BalancePreview = z.infer<typeof balancePreviewSchema>;
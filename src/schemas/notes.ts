@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { optionalNumber, optionalString } from "./common.js";
+
+// One heading of a progress note and its text, e.g. "Subjective"
+export const noteSectionSchema = z.object({
+  heading: z.string(),
+  text: z.string(),
+});
+
+// A progress note as saved to the patient's chart
+export const savedNoteSchema = z.object({
+  note_id: optionalNumber,
+  date: optionalString,
+  provider: optionalString,
+  text: optionalString,
+});
+
+export type NoteSection = z.infer<typeof noteSectionSchema>;
+export type SavedNote = z.infer<typeof savedNoteSchema>;
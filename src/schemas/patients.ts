@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { optionalNumber, optionalString } from "./common.js";
+
+export const patientSchema = z.object({
+  patient_id: optionalNumber,
+  first_name: z.string(),
+  last_name: z.string(),
+  age: optionalNumber,
+  birthdate: optionalString,
+  wireless_phone: optionalString,
+  home_phone: optionalString,
+  work_phone: optionalString,
+  address: optionalString,
+  city: optionalString,
+  status: optionalString,
+  primary_provider: optionalString,
+});
+
+export const patientListSchema = z.object({
+  patients: z.array(patientSchema).nullable().optional(),
+  total_count: optionalNumber,
+});
+
+// A search result ranked by find-patient
+export const patientCandidateSchema = patientSchema.extend({
+  score: z.number(),
+  match_reasons: z.array(z.string()),
+});
+
+// One field of a demographic update, as on file and as it will be saved;
+// an empty `after` clears the field
+export const infoChangeSchema = z.object({
+  field: z.string(),
+  label: z.string(),
+  before: optionalString,
+  after: z.string(),
+});
+
+export type Patient = z.infer<typeof patientSchema>;
+export type PatientCandidate = z.infer<typeof patientCandidateSchema>;
+export type InfoChange = z.infer<typeof infoChangeSchema>;
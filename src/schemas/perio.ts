@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+
+// Three readings per side, in chart order: left to right as the tooth
+// appears on the grid
+const siteValues = z.array(z.number().nullable()).nullable().optional();
+
+export const perioSideSchema = z.object({
+  depths: siteValues,
+  recession: siteValues,
+  bleeding: z.array(z.boolean().nullable()).nullable().optional(),
+});
+
+export const perioToothSchema = z.object({
+  tooth_number: z.number(),
+  missing: z.boolean().nullable().optional(),
+  facial: perioSideSchema.nullable().optional(),
+  lingual: perioSideSchema.nullable().optional(),
+  mobility: optionalNumber,
+  // Furcation class, I to III
+  furcation: optionalString,
+});
+
+export const perioExamSchema = z.object({
+  exam_date: optionalString,
+  provider: optionalString,
+  teeth: optionalList(perioToothSchema),
+});
+
+// Exams newest first
+export const perioChartSchema = z.object({
+  exams: optionalList(perioExamSchema),
+});
+
+export const perioStatsSchema = z.object({
+  sites: z.number(),
+  bleeding_sites: z.number(),
+  bop_percent: z.number(),
+  sites_4mm: z.number(),
+  sites_6mm: z.number(),
+});
+
+// Sites that moved by 2mm or more against the previous exam
+export const perioChangesSchema = z.object({
+  worse_sites: z.number(),
+  better_sites: z.number(),
+  worse_teeth: z.array(z.number()),
+});
+
+export type PerioSide = z.infer<typeof perioSideSchema>;
+export type PerioTooth = z.infer<typeof perioToothSchema>;
+export type PerioExam = z.infer<typeof perioExamSchema>;
+export type PerioStats = z.infer<typeof perioStatsSchema>;
+export type PerioChanges = z.infer<typeof perioChangesSchema>;
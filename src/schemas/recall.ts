@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+
+// One patient's recall from the Recall List, with the numbers staff call
+export const recallEntrySchema = z.object({
+  patient_id: optionalNumber,
+  patient_name: optionalString,
+  recall_type: optionalString,
+  due_date: optionalString,
+  // Date of the last visit that satisfied this recall
+  previous_date: optionalString,
+  scheduled_date: optionalString,
+  provider: optionalString,
+  home_phone: optionalString,
+  wireless_phone: optionalString,
+  work_phone: optionalString,
+  email: optionalString,
+  last_contacted: optionalString,
+});
+
+export const recallListSchema = z.object({
+  recalls: optionalList(recallEntrySchema),
+});
+
+// A recall on the worklist; negative days_overdue means it is not due yet
+export const recallItemSchema = recallEntrySchema.extend({
+  days_overdue: z.number().nullable(),
+});
+
+export type RecallEntry = z.infer<typeof recallEntrySchema>;
+export type RecallItem = z.infer<typeof recallItemSchema>;
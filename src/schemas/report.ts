@@ -0,0 +1,208 @@
+import { z } from "zod";
+import {
+  optionalList,
+  optionalNumber,
+  optionalString,
+  optionalText,
+} from "./common.js";
+
+export const addressSchema = z.object({
+  street: optionalString,
+  street2: optionalString,
+  city: optionalString,
+  state: optionalString,
+  zip: optionalString,
+});
+
+export const contactSchema = z.object({
+  home_phone: optionalString,
+  work_phone: optionalString,
+  wireless_phone: optionalString,
+  email: optionalString,
+  preferred_contact_method: optionalString,
+});
+
+export const patientInfoSchema = z.object({
+  patient_id: optionalText,
+  first_name: optionalString,
+  middle_name: optionalString,
+  last_name: optionalString,
+  preferred_name: optionalString,
+  gender: optionalString,
+  birthdate: optionalString,
+  age: optionalText,
+  title: optionalString,
+  ssn_last_four: optionalString,
+  billing_type: optionalString,
+  primary_provider: optionalString,
+  secondary_provider: optionalString,
+  address: addressSchema.nullable().optional(),
+  contact: contactSchema.nullable().optional(),
+});
+
+export const familyMemberSchema = z.object({
+  name: optionalString,
+  position: optionalString,
+  gender: optionalString,
+  status: optionalString,
+  age: optionalText,
+  recall_due: optionalString,
+});
+
+export const insurancePlanSchema = z.object({
+  carrier: optionalString,
+  group_name: optionalString,
+  group_number: optionalString,
+  subscriber_name: optionalString,
+  subscriber_id: optionalString,
+  relationship_to_subscriber: optionalString,
+  employer: optionalString,
+  plan_type: optionalString,
+  fee_schedule: optionalString,
+  annual_max: optionalNumber,
+  insurance_used: optionalNumber,
+  deductible_remaining: optionalNumber,
+  coverage_percentages: z.record(z.string(), optionalString).nullable().optional(),
+});
+
+export const recallSchema = z.object({
+  type: optionalString,
+  interval: optionalString,
+  previous_date: optionalString,
+  due_date: optionalString,
+  scheduled_date: optionalString,
+});
+
+export const transactionSchema = z.object({
+  date: optionalString,
+  patient: optionalString,
+  provider: optionalString,
+  code: optionalString,
+  tooth: optionalText,
+  description: optionalString,
+  charges: optionalNumber,
+  credits: optionalNumber,
+  balance: optionalNumber,
+});
+
+export const claimSchema = z.object({
+  date: optionalString,
+  carrier: optionalString,
+  amount: optionalNumber,
+  status: optionalString,
+  estimated_payment: optionalNumber,
+  patient_portion: optionalNumber,
+});
+
+export const accountSchema = z.object({
+  balances: z
+    .object({
+      patient_balance: optionalNumber,
+      total_family_balance: optionalNumber,
+      family_balances: optionalList(
+        z.object({ name: optionalString, balance: optionalNumber })
+      ),
+    })
+    .nullable()
+    .optional(),
+  transactions: optionalList(transactionSchema),
+  claims: optionalList(claimSchema),
+});
+
+export const treatmentProcedureSchema = z.object({
+  done: optionalString,
+  priority: optionalText,
+  tooth: optionalText,
+  surface: optionalString,
+  code: optionalString,
+  description: optionalString,
+  fee: optionalNumber,
+  insurance_estimate: optionalNumber,
+  patient_portion: optionalNumber,
+});
+
+export const benefitsSchema = z.object({
+  annual_max: optionalNumber,
+  deductible: optionalNumber,
+  deductible_remaining: optionalNumber,
+  insurance_used: optionalNumber,
+  pending: optionalNumber,
+  remaining: optionalNumber,
+});
+
+export const treatmentPlansSchema = z.object({
+  active_plans: optionalList(
+    z.object({
+      heading: optionalString,
+      date: optionalString,
+      status: optionalString,
+      signed: optionalString,
+    })
+  ),
+  procedures: optionalList(treatmentProcedureSchema),
+  totals: z
+    .object({
+      total_fee: optionalNumber,
+      total_insurance_estimate: optionalNumber,
+      total_patient_portion: optionalNumber,
+    })
+    .nullable()
+    .optional(),
+  insurance_benefits: z
+    .object({
+      primary: benefitsSchema.nullable().optional(),
+      secondary: benefitsSchema.nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+export const appointmentSchema = z.object({
+  date: optionalString,
+  time: optionalString,
+  provider: optionalString,
+  status: optionalString,
+  procedures: optionalString,
+  operatory: optionalString,
+  notes: optionalString,
+});
+
+export const patientReportSchema = z.object({
+  patient_info: patientInfoSchema.nullable().optional(),
+  family_members: optionalList(familyMemberSchema),
+  insurance: z
+    .object({
+      primary: insurancePlanSchema.nullable().optional(),
+      secondary: insurancePlanSchema.nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+  recall: recallSchema.nullable().optional(),
+  account: accountSchema.nullable().optional(),
+  treatment_plans: treatmentPlansSchema.nullable().optional(),
+  appointments: z
+    .object({
+      next_appointment: appointmentSchema.nullable().optional(),
+      scheduled_appointments: optionalList(appointmentSchema),
+      past_appointments: optionalList(appointmentSchema),
+    })
+    .nullable()
+    .optional(),
+  summary: z
+    .object({
+      total_outstanding_balance: optionalNumber,
+      pending_insurance_claims: optionalNumber,
+      pending_treatment_value: optionalNumber,
+      next_recall_due: optionalString,
+      insurance_benefits_remaining: optionalNumber,
+    })
+    .nullable()
+    .optional(),
+});
+
+export type PatientReport = z.infer<typeof patientReportSchema>;
+export type PatientInfo = z.infer<typeof patientInfoSchema>;
+export type InsurancePlan = z.infer<typeof insurancePlanSchema>;
+export type Appointment = z.infer<typeof appointmentSchema>;
+export type Transaction = z.infer<typeof transactionSchema>;
+export type TreatmentProcedure = z.infer<typeof treatmentProcedureSchema>;
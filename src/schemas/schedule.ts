@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+import { appointmentSchema } from "./report.js";
+
+// One appointment in the practice's appointment book
+export const scheduledAppointmentSchema = appointmentSchema.extend({
+  appointment_id: optionalNumber,
+  patient_id: optionalNumber,
+  patient_name: optionalString,
+  length_minutes: optionalNumber,
+});
+
+export const scheduleSchema = z.object({
+  appointments: optionalList(scheduledAppointmentSchema),
+  // Operatories in appointment-book order, including empty ones
+  operatories: optionalList(z.string()),
+});
+
+export type ScheduledAppointment = z.infer<typeof scheduledAppointmentSchema>;
+export type Schedule = z.infer<typeof scheduleSchema>;
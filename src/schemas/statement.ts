@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+// One ledger line as printed, with the balance running from the amount
+// brought forward
+export const statementLineSchema = z.object({
+  date: z.string(),
+  patient: z.string(),
+  code: z.string().optional(),
+  description: z.string(),
+  charges: z.number(),
+  credits: z.number(),
+  balance: z.number(),
+});
+
+// What the balance due is made of by age, in the aging report's buckets
+export const statementAgingSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  amount: z.number(),
+});
+
+export const statementSchema = z.object({
+  kind: z.enum(["patient", "family"]),
+  // Who the statement is mailed to: the patient, or the family's guarantor
+  addressee: z.string(),
+  address: z.array(z.string()),
+  patient_name: z.string(),
+  statement_date: z.string(),
+  from_date: z.string().optional(),
+  to_date: z.string(),
+  previous_balance: z.number(),
+  charges: z.number(),
+  credits: z.number(),
+  balance_due: z.number(),
+  lines: z.array(statementLineSchema),
+  aging: z.array(statementAgingSchema),
+  family_balances: z.array(z.object({ name: z.string(), balance: z.number() })),
+  // Set when the statement includes insurance pending: what open claims
+  // are expected to pay, and what that leaves the patient to pay
+  insurance_pending: z.number().optional(),
+  estimated_patient_portion: z.number().optional(),
+});
+
+export type StatementLine = z.infer<typeof statementLineSchema>;
+export type Statement = z.infer<typeof statementSchema>;
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { optionalList, optionalNumber, optionalString } from "./common.js";
+import { benefitsSchema, treatmentProcedureSchema } from "./report.js";
+
+// A treatment-planned procedure as read from the Treatment Plan module
+export const plannedProcedureSchema = treatmentProcedureSchema.extend({
+  procedure_id: optionalNumber,
+  // Phase the procedure is planned in, e.g. "Phase 1 - Urgent"
+  phase: optionalString,
+  accepted: z.boolean().nullable().optional(),
+});
+
+export const treatmentPlanSchema = z.object({
+  heading: optionalString,
+  date: optionalString,
+  signed: optionalString,
+  procedures: optionalList(plannedProcedureSchema),
+  insurance_benefits: z
+    .object({
+      primary: benefitsSchema.nullable().optional(),
+      secondary: benefitsSchema.nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+// A procedure with its share of insurance once the plan is walked phase by
+// phase against the remaining benefits
+export const phasedProcedureSchema = plannedProcedureSchema.extend({
+  insurance_applied: z.number(),
+  out_of_pocket: z.number(),
+});
+
+export const treatmentPhaseSchema = z.object({
+  name: z.string(),
+  procedures: z.array(phasedProcedureSchema),
+  fee: z.number(),
+  insurance: z.number(),
+  out_of_pocket: z.number(),
+  // Primary benefits left once this phase and the ones before it are done
+  max_remaining_after: z.number().nullable(),
+  deductible_remaining_after: z.number().nullable(),
+  // Insurance estimate cut short because the annual max ran out
+  over_max: z.boolean(),
+});
+
+export type PlannedProcedure = z.infer<typeof plannedProcedureSchema>;
+export type TreatmentPlan = z.infer<typeof treatmentPlanSchema>;
+export type PhasedProcedure = z.infer<typeof phasedProcedureSchema>;
+export type TreatmentPhase = z.infer<typeof treatmentPhaseSchema>;
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import {
+  optionalList,
+  optionalNumber,
+  optionalString,
+  optionalText,
+} from "./common.js";
+
+export const unscheduledProcedureSchema = z.object({
+  procedure_id: optionalNumber,
+  ada_code: optionalString,
+  description: optionalString,
+  tooth: optionalText,
+  surface: optionalString,
+  fee: optionalNumber,
+  date_planned: optionalString,
+  provider: optionalString,
+});
+
+// A patient with treatment-planned procedures and no appointment for them
+export const unscheduledPatientSchema = z.object({
+  patient_id: optionalNumber,
+  patient_name: optionalString,
+  provider: optionalString,
+  phone: optionalString,
+  procedures: optionalList(unscheduledProcedureSchema),
+});
+
+export const unscheduledTreatmentSchema = z.object({
+  patients: optionalList(unscheduledPatientSchema),
+});
+
+// One row of the report, with the totals it is ranked by
+export const unscheduledRowSchema = unscheduledPatientSchema.extend({
+  procedures: z.array(unscheduledProcedureSchema),
+  total_value: z.number(),
+  // Days since the oldest of the procedures was planned
+  plan_age_days: z.number().nullable(),
+});
+
+export type UnscheduledProcedure = z.infer<typeof unscheduledProcedureSchema>;
+export type UnscheduledRow = z.infer<typeof unscheduledRowSchema>;
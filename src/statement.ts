@@ -0,0 +1,415 @@
+import { daysBetween } from "./dates.js";
+import { currentBalances, sameName } from "./ledger.js";
+import { PAGE_WIDTH, PdfDocument, textWidth, type Font } from "./pdf.js";
+import { AGING_BUCKETS } from "./schemas/aging.js";
+import type { PatientReport } from "./schemas/report.js";
+import type { Statement, StatementLine } from "./schemas/statement.js";
+
+// Practice details printed at the top of every statement
+export interface Letterhead {
+  name: string;
+  address: string[];
+  phone?: string;
+  email?: string;
+  website?: string;
+}
+
+export interface StatementOptions {
+  patientName: string;
+  // The whole family's account rather than the patient's own charges
+  family: boolean;
+  fromDate?: string;
+  toDate: string;
+  statementDate: string;
+  includeInsurancePending: boolean;
+}
+
+const cents = (v: number) => Math.round(v * 100);
+
+// Claims still waiting on the carrier
+function isPending(status: string | null | undefined) {
+  return !/received|rejected/i.test(status ?? "");
+}
+
+// Builds a statement from the Account tab on the report. Balances are
+// anchored on the ones OpenDental shows, working back through the ledger,
+// so a ledger that starts part-way through the account still adds up.
+export function buildStatement(
+  report: PatientReport,
+  options: StatementOptions
+): Statement {
+  const { patientName, family, fromDate, toDate } = options;
+  const transactions = (report.account?.transactions ?? [])
+    .filter((t) => t.date)
+    .filter((t) => family || !t.patient || sameName(t.patient, patientName))
+    .map((t) => ({
+      date: t.date!,
+      patient: t.patient ?? patientName,
+      code: t.code ?? undefined,
+      description: t.description ?? "",
+      charges: cents(t.charges ?? 0),
+      credits: cents(t.credits ?? 0),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const net = (rows: typeof transactions) =>
+    rows.reduce((s, t) => s + t.charges - t.credits, 0);
+
+  const balances = currentBalances(report, patientName);
+  const current = family
+    ? balances.total_family_balance
+    : (balances.family_balances.find((f) => sameName(f.name, patientName))
+        ?.balance ?? balances.patient_balance);
+  const throughEnd = transactions.filter((t) => t.date <= toDate);
+  const inPeriod = throughEnd.filter((t) => !fromDate || t.date >= fromDate);
+  const due = cents(current) - net(transactions.filter((t) => t.date > toDate));
+  const previous = due - net(inPeriod);
+
+  let running = previous;
+  const lines: StatementLine[] = inPeriod.map((t) => {
+    running += t.charges - t.credits;
+    return {
+      ...t,
+      charges: t.charges / 100,
+      credits: t.credits / 100,
+      balance: running / 100,
+    };
+  });
+
+  const members = family
+    ? (report.family_members ?? []).filter((m) => m.name)
+    : [];
+  const guarantor = members.find((m) => /guarantor/i.test(m.position ?? ""));
+  const address = report.patient_info?.address;
+  const cityLine = [
+    [address?.city, address?.state].filter(Boolean).join(", "),
+    address?.zip,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const pending = options.includeInsurancePending
+    ? (report.account?.claims ?? [])
+        .filter((c) => isPending(c.status) && (!c.date || c.date <= toDate))
+        .reduce((s, c) => s + cents(c.estimated_payment ?? 0), 0)
+    : undefined;
+
+  return {
+    kind: family ? "family" : "patient",
+    addressee: guarantor?.name ?? patientName,
+    address: [address?.street, address?.street2, cityLine].filter(
+      (l): l is string => !!l
+    ),
+    patient_name: patientName,
+    statement_date: options.statementDate,
+    from_date: fromDate,
+    to_date: toDate,
+    previous_balance: previous / 100,
+    charges: inPeriod.reduce((s, t) => s + t.charges, 0) / 100,
+    credits: inPeriod.reduce((s, t) => s + t.credits, 0) / 100,
+    balance_due: due / 100,
+    lines,
+    aging: ageBalance(throughEnd, due, toDate),
+    family_balances: family ? balances.family_balances : [],
+    ...(pending != null && {
+      insurance_pending: pending / 100,
+      estimated_patient_portion: (due - pending) / 100,
+    }),
+  };
+}
+
+// Splits the balance due by the age of the charges behind it, crediting
+// payments and adjustments to the oldest charges first as OpenDental does.
+// Whatever the ledger shown can't account for is older than all of it.
+function ageBalance(
+  rows: { date: string; charges: number }[],
+  due: number,
+  asOf: string
+) {
+  const owed = new Map<string, number>(AGING_BUCKETS.map((b) => [b.key, 0]));
+  if (due > 0) {
+    const charged = rows.reduce((s, t) => s + t.charges, 0);
+    let credit = charged - due;
+    if (credit < 0) {
+      owed.set("days_over_90", -credit);
+      credit = 0;
+    }
+    for (const t of rows) {
+      const applied = Math.min(credit, t.charges);
+      credit -= applied;
+      const age = daysBetween(t.date, asOf);
+      const key =
+        age <= 30
+          ? "days_0_30"
+          : age <= 60
+            ? "days_31_60"
+            : age <= 90
+              ? "days_61_90"
+              : "days_over_90";
+      owed.set(key, owed.get(key)! + t.charges - applied);
+    }
+  }
+  return AGING_BUCKETS.map((b) => ({
+    key: b.key,
+    label: b.label,
+    amount: owed.get(b.key)! / 100,
+  }));
+}
+
+// ── PDF layout ────────────────────────────────────────────────────────
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const BOTTOM = 730;
+
+const usd = (v: number) =>
+  `${v < 0 ? "-" : ""}$${Math.abs(v).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// 2024-03-12 as 03/12/2024, the way statements are printed in the US
+const usDate = (date: string) => {
+  const [y, m, d] = date.split("-");
+  return d ? `${m}/${d}/${y}` : date;
+};
+
+// Shortens text to fit a column, marking the cut
+function fit(s: string, width: number, size: number, font: Font = "regular") {
+  if (textWidth(s, size, font) <= width) return s;
+  let cut = s;
+  while (cut && textWidth(`${cut}…`, size, font) > width) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}…`;
+}
+
+export function statementPeriod(statement: Statement) {
+  return statement.from_date
+    ? `${usDate(statement.from_date)} – ${usDate(statement.to_date)}`
+    : `Through ${usDate(statement.to_date)}`;
+}
+
+export function renderStatement(
+  statement: Statement,
+  letterhead: Letterhead
+): Buffer {
+  const doc = new PdfDocument();
+  const family = statement.kind === "family";
+
+  // Columns of the activity table: x is the left edge, or the right edge
+  // for amounts
+  const columns = {
+    date: MARGIN,
+    patient: MARGIN + 62,
+    code: family ? MARGIN + 162 : MARGIN + 62,
+    description: family ? MARGIN + 207 : MARGIN + 107,
+    charges: RIGHT - 140,
+    credits: RIGHT - 70,
+    balance: RIGHT,
+  };
+  const descriptionWidth = columns.charges - 60 - columns.description;
+
+  let page = 0;
+  let y = 0;
+  const startPage = () => {
+    doc.addPage();
+    page += 1;
+    doc.line(MARGIN, 752, RIGHT, 752, 0.5, 0.7);
+    doc.text(
+      MARGIN,
+      766,
+      [letterhead.name, letterhead.phone, letterhead.website]
+        .filter(Boolean)
+        .join("  ·  "),
+      { size: 8, gray: 0.4 }
+    );
+    doc.text(RIGHT, 766, `Page ${page}`, { size: 8, gray: 0.4, align: "right" });
+  };
+  const tableHeader = () => {
+    doc.rect(MARGIN, y - 11, RIGHT - MARGIN, 16, 0.92);
+    const head = { size: 8, font: "bold" as Font };
+    doc.text(columns.date + 4, y, "DATE", head);
+    if (family) doc.text(columns.patient, y, "PATIENT", head);
+    doc.text(columns.code, y, "CODE", head);
+    doc.text(columns.description, y, "DESCRIPTION", head);
+    doc.text(columns.charges, y, "CHARGES", { ...head, align: "right" });
+    doc.text(columns.credits, y, "CREDITS", { ...head, align: "right" });
+    doc.text(columns.balance - 4, y, "BALANCE", { ...head, align: "right" });
+    y += 18;
+  };
+  // Starts a new page when the next `height` points won't fit
+  const room = (height: number, continuingTable = false) => {
+    if (y + height <= BOTTOM) return;
+    startPage();
+    y = 60;
+    doc.text(MARGIN, y, `Statement for ${statement.addressee}, continued`, {
+      size: 9,
+      gray: 0.4,
+    });
+    y += 24;
+    if (continuingTable) tableHeader();
+  };
+
+  // Letterhead and statement details
+  startPage();
+  doc.text(MARGIN, 60, letterhead.name, { size: 16, font: "bold" });
+  y = 76;
+  for (const line of [
+    ...letterhead.address,
+    [letterhead.phone, letterhead.email].filter(Boolean).join("  ·  "),
+    letterhead.website ?? "",
+  ].filter(Boolean)) {
+    doc.text(MARGIN, y, line, { size: 9, gray: 0.25 });
+    y += 12;
+  }
+  doc.text(RIGHT, 60, "STATEMENT", { size: 18, font: "bold", align: "right" });
+  const details: [string, string][] = [
+    ["Statement date", usDate(statement.statement_date)],
+    ["Period", statementPeriod(statement)],
+    ["Account", family ? `Family of ${statement.addressee}` : statement.patient_name],
+  ];
+  details.forEach(([label, value], i) => {
+    doc.text(RIGHT - 120, 80 + i * 13, label, { size: 9, gray: 0.4, align: "right" });
+    doc.text(RIGHT, 80 + i * 13, fit(value, 110, 9), { size: 9, align: "right" });
+  });
+
+  // Mailing block
+  y = Math.max(y, 130) + 20;
+  doc.text(MARGIN, y, statement.addressee, { size: 11, font: "bold" });
+  y += 14;
+  for (const line of statement.address) {
+    doc.text(MARGIN, y, line, { size: 10 });
+    y += 13;
+  }
+
+  // Balance due box
+  const boxTop = Math.max(y, 150) + 16;
+  const cells: [string, number][] = [
+    ["Previous balance", statement.previous_balance],
+    ["Charges", statement.charges],
+    ["Payments & credits", statement.credits],
+    ["Balance due", statement.balance_due],
+  ];
+  const cellWidth = (RIGHT - MARGIN) / cells.length;
+  doc.rect(MARGIN, boxTop, RIGHT - MARGIN, 42, 0.95);
+  cells.forEach(([label, value], i) => {
+    const x = MARGIN + cellWidth * i + 10;
+    const last = i === cells.length - 1;
+    doc.text(x, boxTop + 15, label, { size: 8, gray: 0.4 });
+    doc.text(x, boxTop + 32, usd(value), {
+      size: last ? 14 : 12,
+      font: last ? "bold" : "regular",
+    });
+  });
+  y = boxTop + 70;
+
+  // Activity
+  doc.text(MARGIN, y, "Account activity", { size: 11, font: "bold" });
+  y += 20;
+  tableHeader();
+  const row = { size: 9 };
+  doc.text(columns.description, y, "Balance forward", { ...row, font: "bold" });
+  doc.text(columns.balance - 4, y, usd(statement.previous_balance), {
+    ...row,
+    align: "right",
+  });
+  y += 15;
+  for (const line of statement.lines) {
+    room(15, true);
+    doc.text(columns.date + 4, y, usDate(line.date), row);
+    if (family) doc.text(columns.patient, y, fit(line.patient, 95, 9), row);
+    if (line.code) doc.text(columns.code, y, line.code, row);
+    doc.text(
+      columns.description,
+      y,
+      fit(line.description, descriptionWidth, 9),
+      row
+    );
+    if (line.charges) {
+      doc.text(columns.charges, y, usd(line.charges), { ...row, align: "right" });
+    }
+    if (line.credits) {
+      doc.text(columns.credits, y, usd(line.credits), { ...row, align: "right" });
+    }
+    doc.text(columns.balance - 4, y, usd(line.balance), { ...row, align: "right" });
+    doc.line(MARGIN, y + 5, RIGHT, y + 5, 0.25, 0.85);
+    y += 15;
+  }
+  if (!statement.lines.length) {
+    doc.text(columns.description, y, "No activity in this period", {
+      ...row,
+      gray: 0.4,
+    });
+    y += 15;
+  }
+
+  // Aging
+  room(60);
+  y += 20;
+  doc.text(MARGIN, y, "Balance by age (days)", { size: 11, font: "bold" });
+  y += 18;
+  const aging: [string, number][] = [
+    ...statement.aging.map((b): [string, number] => [b.label, b.amount]),
+    ["Total", statement.balance_due],
+  ];
+  const agingWidth = (RIGHT - MARGIN) / aging.length;
+  aging.forEach(([label, amount], i) => {
+    const x = MARGIN + agingWidth * (i + 1) - 10;
+    const bold = i === aging.length - 1 ? "bold" : "regular";
+    doc.text(x, y, label, { size: 8, gray: 0.4, align: "right", font: bold });
+    doc.text(x, y + 14, usd(amount), { size: 10, align: "right", font: bold });
+  });
+  y += 24;
+
+  // Family members
+  if (statement.family_balances.length > 1) {
+    room(30 + statement.family_balances.length * 14);
+    y += 20;
+    doc.text(MARGIN, y, "Family balances", { size: 11, font: "bold" });
+    y += 16;
+    for (const member of statement.family_balances) {
+      doc.text(MARGIN + 10, y, member.name, { size: 9 });
+      doc.text(MARGIN + 250, y, usd(member.balance), { size: 9, align: "right" });
+      y += 14;
+    }
+  }
+
+  // Insurance pending
+  if (statement.insurance_pending != null) {
+    room(60);
+    y += 20;
+    doc.text(MARGIN, y, "Insurance", { size: 11, font: "bold" });
+    y += 16;
+    const insurance: [string, number, Font][] = [
+      ["Balance due", statement.balance_due, "regular"],
+      ["Insurance pending", -statement.insurance_pending, "regular"],
+      [
+        "Estimated patient portion",
+        statement.estimated_patient_portion ?? statement.balance_due,
+        "bold",
+      ],
+    ];
+    for (const [label, amount, font] of insurance) {
+      doc.text(MARGIN + 10, y, label, { size: 9, font });
+      doc.text(MARGIN + 250, y, usd(amount), { size: 9, font, align: "right" });
+      y += 14;
+    }
+    doc.text(
+      MARGIN + 10,
+      y + 4,
+      "Insurance estimates are not a guarantee of payment. You are responsible for any amount your plan does not pay.",
+      { size: 8, gray: 0.4 }
+    );
+    y += 14;
+  }
+
+  // Remittance note
+  room(40);
+  y += 26;
+  doc.line(MARGIN, y - 12, RIGHT, y - 12, 0.5, 0.7);
+  doc.text(
+    MARGIN,
+    y,
+    statement.balance_due > 0
+      ? `Please pay ${usd(statement.balance_due)} to ${letterhead.name}${letterhead.phone ? `, or call ${letterhead.phone} with any questions about this statement` : ""}.`
+      : `No payment is due. Thank you${letterhead.phone ? `; call ${letterhead.phone} with any questions about this statement` : ""}.`,
+    { size: 9 }
+  );
+
+  return doc.toBuffer(`Statement for ${statement.addressee}`);
+}
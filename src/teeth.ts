@@ -0,0 +1,250 @@
+// Universal tooth numbers as OpenDental charts them: 1–32 for permanent
+// teeth, A–T for primary teeth, and for supernumerary teeth the number of
+// the tooth they sit beside plus 50 (51–82) or its letter plus S (AS–TS).
+
+export type Dentition = "permanent" | "primary";
+export type ArchLayout = "permanent" | "primary" | "mixed";
+
+export interface Tooth {
+  id: string;
+  dentition: Dentition;
+  supernumerary: boolean;
+  // The regular tooth a supernumerary sits beside; the tooth itself otherwise
+  base: string;
+  upper: boolean;
+  // Column on the 16-wide chart, left to right as the chart is drawn. Primary
+  // teeth share the column of the permanent tooth that replaces them.
+  slot: number;
+  // Teeth left of the midline as drawn have their mesial surface facing right
+  mesialRight: boolean;
+}
+
+const PRIMARY = "ABCDEFGHIJKLMNOPQRST";
+
+// Each arch in chart order, left to right as drawn
+export const PERMANENT_UPPER = Array.from({ length: 16 }, (_, i) =>
+  String(i + 1)
+);
+export const PERMANENT_LOWER = Array.from({ length: 16 }, (_, i) =>
+  String(32 - i)
+);
+export const PRIMARY_UPPER = PRIMARY.slice(0, 10).split("");
+export const PRIMARY_LOWER = PRIMARY.slice(10).split("").reverse();
+
+function locate(
+  id: string,
+  base: string,
+  supernumerary: boolean
+): Tooth | null {
+  const n = Number(base);
+  if (Number.isInteger(n) && n >= 1 && n <= 32) {
+    const upper = n <= 16;
+    const slot = upper ? n - 1 : 32 - n;
+    return {
+      id,
+      dentition: "permanent",
+      supernumerary,
+      base,
+      upper,
+      slot,
+      mesialRight: slot <= 7,
+    };
+  }
+  const i = PRIMARY.indexOf(base);
+  if (base.length !== 1 || i < 0) return null;
+  const upper = i < 10;
+  const slot = upper ? i + 3 : 22 - i;
+  return {
+    id,
+    dentition: "primary",
+    supernumerary,
+    base,
+    upper,
+    slot,
+    mesialRight: slot <= 7,
+  };
+}
+
+// Reads a tooth number off a chart cell or procedure row; blank, quadrant and
+// quadrant values ("UR", "LL") are not teeth and come back null
+export function parseTooth(
+  value: string | number | null | undefined
+): Tooth | null {
+  const raw = String(value ?? "").trim().toUpperCase().replace(/^#/, "");
+  if (!raw) return null;
+  const n = Number(raw);
+  if (Number.isInteger(n)) {
+    if (n >= 51 && n <= 82) return locate(String(n), String(n - 50), true);
+    return locate(String(n), String(n), false);
+  }
+  if (/^[A-T]S$/.test(raw)) return locate(raw, raw[0], true);
+  return locate(raw, raw, false);
+}
+
+// Which arches the chart should draw for the teeth on file: primary only for
+// a young child, mixed once permanent teeth appear alongside primary ones
+export function archLayout(teeth: (Tooth | null)[]): ArchLayout {
+  const primary = teeth.some((t) => t?.dentition === "primary");
+  const permanent = teeth.some((t) => t?.dentition === "permanent");
+  if (!primary) return "permanent";
+  return permanent ? "mixed" : "primary";
+}
+
+// ── Numbering systems ─────────────────────────────────────────────────
+// Teeth are stored and sent to the backend in Universal notation; FDI and
+// Palmer are display and input formats only.
+
+export const NUMBERING_SYSTEMS = ["universal", "fdi", "palmer"] as const;
+export type NumberingSystem = (typeof NUMBERING_SYSTEMS)[number];
+
+const PALMER_QUADRANTS = ["UR", "UL", "LL", "LR"];
+const PRIMARY_POSITIONS = "ABCDE";
+
+// FDI quadrant (1 upper right to 4 lower right) and position counted from
+// the midline
+function quadrantPosition(tooth: Tooth) {
+  const quadrant = tooth.upper
+    ? tooth.mesialRight
+      ? 1
+      : 2
+    : tooth.mesialRight
+      ? 4
+      : 3;
+  const position = tooth.mesialRight ? 8 - tooth.slot : tooth.slot - 7;
+  return { quadrant, position };
+}
+
+function formatParsed(tooth: Tooth, system: NumberingSystem) {
+  if (system === "universal") return tooth.id;
+  const base = parseTooth(tooth.base)!;
+  const { quadrant, position } = quadrantPosition(base);
+  const primary = base.dentition === "primary";
+  const label =
+    system === "fdi"
+      ? `${quadrant + (primary ? 4 : 0)}${position}`
+      : PALMER_QUADRANTS[quadrant - 1] +
+        (primary ? PRIMARY_POSITIONS[position - 1] : position);
+  // Neither system numbers supernumerary teeth, so they borrow their
+  // neighbour's number
+  return tooth.supernumerary ? `${label}s` : label;
+}
+
+// A tooth number in the chosen system; text that is not a tooth ("UR",
+// blank) passes through unchanged
+export function formatTooth(
+  value: string | number | null | undefined,
+  system: NumberingSystem
+) {
+  const tooth = parseTooth(value);
+  if (!tooth) return String(value ?? "");
+  return formatParsed(tooth, system);
+}
+
+// The supernumerary beside a regular tooth: its number plus 50, or its
+// letter plus S
+function supernumeraryOf(tooth: Tooth) {
+  if (tooth.supernumerary) return null;
+  return parseTooth(
+    tooth.dentition === "primary" ? `${tooth.id}S` : Number(tooth.id) + 50
+  );
+}
+
+function fromQuadrant(
+  quadrant: number,
+  position: string,
+  supernumerary: boolean
+) {
+  const primary = quadrant > 4;
+  const q = primary ? quadrant - 4 : quadrant;
+  const p = primary
+    ? PRIMARY_POSITIONS.indexOf(position) + 1
+    : Number(position);
+  if (q < 1 || q > 4 || p < 1 || p > (primary ? 5 : 8)) return null;
+  const upper = q <= 2;
+  const arch = primary
+    ? upper
+      ? PRIMARY_UPPER
+      : PRIMARY_LOWER
+    : upper
+      ? PERMANENT_UPPER
+      : PERMANENT_LOWER;
+  // Slots run left to right as drawn; quadrants 1 and 4 are on the left
+  const slot = q === 1 || q === 4 ? 8 - p : 7 + p;
+  const tooth = parseTooth(arch[primary ? slot - 3 : slot]);
+  return tooth && supernumerary ? supernumeraryOf(tooth) : tooth;
+}
+
+// Reads a tooth typed in any of the three systems. Palmer ("UR6", "LL D")
+// and Universal letters are unambiguous; bare numbers are read in `system`
+// unless prefixed with "FDI" or "Universal" (or "#", which is Universal).
+export function parseToothInput(
+  value: string | number,
+  system: NumberingSystem
+): Tooth | null {
+  let raw = String(value).trim().toUpperCase();
+  const supernumerary = /S$/.test(raw) && !/^[A-T]S$/.test(raw);
+  if (supernumerary) raw = raw.slice(0, -1).trim();
+
+  const palmer = raw.match(/^(UR|UL|LL|LR)\s*([1-8]|[A-E])$/);
+  if (palmer) {
+    const q = PALMER_QUADRANTS.indexOf(palmer[1]) + 1;
+    const primary = /[A-E]/.test(palmer[2]);
+    return fromQuadrant(primary ? q + 4 : q, palmer[2], supernumerary);
+  }
+
+  let reading: NumberingSystem = system === "fdi" ? "fdi" : "universal";
+  const prefixed = raw.match(/^(FDI|ISO|UNIVERSAL|UNI|#)\s*(.+)$/);
+  if (prefixed) {
+    reading = ["FDI", "ISO"].includes(prefixed[1]) ? "fdi" : "universal";
+    raw = prefixed[2];
+  }
+  if (reading === "fdi" && /^[1-8][1-8]$/.test(raw)) {
+    const q = Number(raw[0]);
+    const position =
+      q > 4 ? PRIMARY_POSITIONS[Number(raw[1]) - 1] : raw[1];
+    return fromQuadrant(q, position, supernumerary);
+  }
+  const tooth = parseTooth(raw);
+  return tooth && supernumerary ? supernumeraryOf(tooth) : tooth;
+}
+
+// How a tooth is written in running text: "#3" or "#16", but Palmer's
+// quadrant prefix needs no hash
+export function toothRef(
+  value: string | number | null | undefined,
+  system: NumberingSystem
+) {
+  const label = formatTooth(value, system);
+  return system === "palmer" ? label : `#${label}`;
+}
+
+// Rewrites "#3"-style references in free text (quadrant summaries, clinical
+// notes) into the chosen system
+export function renumberText(
+  text: string | null | undefined,
+  system: NumberingSystem
+) {
+  if (!text || system === "universal") return text ?? "";
+  return text.replace(/#([1-9]\d?|[A-T]S?)\b/g, (match, id) => {
+    return parseTooth(id) ? toothRef(id, system) : match;
+  });
+}
+
+const QUADRANT_NAMES = [
+  "Upper Right",
+  "Upper Left",
+  "Lower Left",
+  "Lower Right",
+];
+const UNIVERSAL_RANGES = ["1–8", "9–16", "17–24", "25–32"];
+
+// "Upper Right (Q1)" in FDI, "(UR)" in Palmer, "(#1–8)" in Universal
+export function quadrantLabel(
+  quadrant: 1 | 2 | 3 | 4,
+  system: NumberingSystem
+) {
+  const name = QUADRANT_NAMES[quadrant - 1];
+  if (system === "fdi") return `${name} (Q${quadrant})`;
+  if (system === "palmer") return `${name} (${PALMER_QUADRANTS[quadrant - 1]})`;
+  return `${name} (#${UNIVERSAL_RANGES[quadrant - 1]})`;
+}
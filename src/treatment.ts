@@ -0,0 +1,99 @@
+import type {
+  PlannedProcedure,
+  TreatmentPhase,
+  TreatmentPlan,
+} from "./schemas/treatment.js";
+
+function phaseName(p: PlannedProcedure) {
+  if (p.phase) return p.phase;
+  if (p.priority != null && p.priority !== "") return `Priority ${p.priority}`;
+  return "No priority";
+}
+
+// Lower priority numbers come first; unprioritised procedures go last
+function priorityRank(p: PlannedProcedure) {
+  const n = Number(p.priority);
+  return p.priority == null || p.priority === "" || Number.isNaN(n)
+    ? Infinity
+    : n;
+}
+
+// Diagnostic and preventive codes (D0xxx, D1xxx), which plans usually pay
+// without the deductible
+function deductibleWaived(p: PlannedProcedure) {
+  return /^D[01]\d{3}/i.test(p.code ?? "");
+}
+
+// Groups a plan's open procedures into phases, sorts each phase by priority
+// and orders the phases by their most urgent procedure (ties keep the plan's
+// order). OpenDental estimates every procedure as if the full benefits were
+// still available, so the phases are walked in order against the primary
+// plan's remaining annual max and deductible: the deductible comes off the
+// first fees it applies to, which costs insurance its coverage share of that
+// amount, and insurance stops paying once the max is used up.
+export function phasePlan(plan: TreatmentPlan): TreatmentPhase[] {
+  const groups = new Map<string, PlannedProcedure[]>();
+  for (const p of plan.procedures ?? []) {
+    if (p.done === "Yes") continue;
+    const name = phaseName(p);
+    groups.set(name, [...(groups.get(name) ?? []), p]);
+  }
+
+  const benefits = plan.insurance_benefits?.primary;
+  let maxLeft = benefits?.remaining ?? null;
+  let deductibleLeft = benefits?.deductible_remaining ?? null;
+
+  const rank = (procs: PlannedProcedure[]) =>
+    Math.min(...procs.map(priorityRank));
+  const ordered = [...groups].sort(([, a], [, b]) => rank(a) - rank(b));
+
+  return ordered.map(([name, procs]) => {
+    let overMax = false;
+    const procedures = [...procs]
+      .sort((a, b) => priorityRank(a) - priorityRank(b))
+      .map((p) => {
+        const fee = p.fee ?? 0;
+        let insurance = p.insurance_estimate ?? 0;
+        if (deductibleLeft != null && fee > 0 && !deductibleWaived(p)) {
+          const deductible = Math.min(deductibleLeft, fee);
+          deductibleLeft -= deductible;
+          insurance -= deductible * (insurance / fee);
+        }
+        if (maxLeft != null) {
+          if (insurance > maxLeft) overMax = true;
+          insurance = Math.min(insurance, maxLeft);
+          maxLeft -= insurance;
+        }
+        return {
+          ...p,
+          insurance_applied: insurance,
+          out_of_pocket: fee - insurance,
+        };
+      });
+
+    const sum = (pick: (p: (typeof procedures)[number]) => number) =>
+      procedures.reduce((total, p) => total + pick(p), 0);
+    return {
+      name,
+      procedures,
+      fee: sum((p) => p.fee ?? 0),
+      insurance: sum((p) => p.insurance_applied),
+      out_of_pocket: sum((p) => p.out_of_pocket),
+      max_remaining_after: maxLeft,
+      deductible_remaining_after: deductibleLeft,
+      over_max: overMax,
+    };
+  });
+}
+
+const money = (v: number) => `$${v.toFixed(2)}`;
+
+// One line per phase for the model, e.g. "Phase 1: $420.00 out of pocket"
+export function summarizePhases(phases: TreatmentPhase[]) {
+  return phases
+    .map((phase) => {
+      const capped = phase.over_max ? " (annual max reached)" : "";
+      return `${phase.name}: ${phase.procedures.length} procedure(s), fee ${money(phase.fee)}, insurance ${money(phase.insurance)}, out of pocket ${money(phase.out_of_pocket)}${capped}`;
+    })
+    .join("; ");
+}